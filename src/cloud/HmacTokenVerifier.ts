@@ -0,0 +1,134 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AuthIdentity, HmacTokenClaims, HmacTokenVerifierOptions, TokenVerifier } from '../types';
+import { AuthenticationError } from '../errors';
+
+const HASHES = {
+  HS256: 'sha256',
+  HS384: 'sha384',
+  HS512: 'sha512'
+};
+
+function encodeSegment(value: any): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new AuthenticationError('Malformed token', 'INVALID_TOKEN');
+  }
+}
+
+/**
+ * Verifies JSON Web Tokens signed with a shared secret (HS256, HS384 or
+ * HS512). Everything needed is in the token, so no identity service has to
+ * be reachable.
+ */
+export class HmacTokenVerifier implements TokenVerifier {
+  private secret: string;
+  private algorithm: 'HS256' | 'HS384' | 'HS512';
+  private issuer?: string;
+  private audience?: string;
+  private clockToleranceSeconds: number;
+
+  constructor(options: HmacTokenVerifierOptions) {
+    if (!options.secret) {
+      throw new Error('A secret is required to verify tokens');
+    }
+    this.secret = options.secret;
+    this.algorithm = options.algorithm || 'HS256';
+    this.issuer = options.issuer;
+    this.audience = options.audience;
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? 30;
+  }
+
+  /**
+   * Check a token's signature and claims
+   * @param token - Signed JWT
+   * @returns Account the token was issued to
+   */
+  async verify(token: string): Promise<AuthIdentity> {
+    const segments = typeof token === 'string' ? token.split('.') : [];
+    if (segments.length !== 3) {
+      throw new AuthenticationError('Malformed token', 'INVALID_TOKEN');
+    }
+    const [header, payload, signature] = segments;
+
+    // Only accept the configured algorithm, so tokens cannot pick a weaker one
+    if (decodeSegment(header).alg !== this.algorithm) {
+      throw new AuthenticationError('Unexpected token algorithm', 'INVALID_TOKEN');
+    }
+    const expected = Buffer.from(this.signSegments(header, payload), 'base64url');
+    const actual = Buffer.from(signature, 'base64url');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new AuthenticationError('Invalid token signature', 'INVALID_TOKEN');
+    }
+
+    const claims: HmacTokenClaims = decodeSegment(payload);
+    const now = Date.now() / 1000;
+    if (typeof claims.exp === 'number' && now > claims.exp + this.clockToleranceSeconds) {
+      throw new AuthenticationError('Token has expired', 'TOKEN_EXPIRED');
+    }
+    if (typeof claims.nbf === 'number' && now + this.clockToleranceSeconds < claims.nbf) {
+      throw new AuthenticationError('Token is not valid yet', 'INVALID_TOKEN');
+    }
+    if (this.issuer && claims.iss !== this.issuer) {
+      throw new AuthenticationError('Token was issued by someone else', 'INVALID_TOKEN');
+    }
+    if (this.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (audiences.indexOf(this.audience) === -1) {
+        throw new AuthenticationError('Token is meant for someone else', 'INVALID_TOKEN');
+      }
+    }
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new AuthenticationError('Token has no subject', 'INVALID_TOKEN');
+    }
+    const role = claims.role || 'owner';
+    if (role !== 'owner' && role !== 'staff') {
+      throw new AuthenticationError(`Unknown role: ${role}`, 'INVALID_TOKEN');
+    }
+    // A staff account without a business could otherwise pass for the owner of its own ID
+    if (role === 'staff' && !claims.userId) {
+      throw new AuthenticationError('Staff token has no business', 'INVALID_TOKEN');
+    }
+
+    return {
+      subject: claims.sub,
+      userId: claims.userId || claims.sub,
+      role,
+      expiresAt: typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : undefined
+    };
+  }
+
+  /**
+   * Issue a token this verifier accepts, e.g. when an account signs in
+   * @param claims - Claims to sign; iss and aud default to the configured ones
+   * @param expiresInSeconds - Lifetime of the token; it does not expire when omitted
+   * @returns Signed JWT
+   */
+  sign(claims: HmacTokenClaims, expiresInSeconds?: number): string {
+    const iat = Math.floor(Date.now() / 1000);
+    const payload: HmacTokenClaims = {
+      iss: this.issuer,
+      aud: this.audience,
+      iat,
+      ...claims
+    };
+    if (expiresInSeconds !== undefined) {
+      payload.exp = iat + expiresInSeconds;
+    }
+
+    const header = encodeSegment({ alg: this.algorithm, typ: 'JWT' });
+    const body = encodeSegment(payload);
+    return `${header}.${body}.${this.signSegments(header, body)}`;
+  }
+
+  private signSegments(header: string, payload: string): string {
+    return createHmac(HASHES[this.algorithm], this.secret)
+      .update(`${header}.${payload}`)
+      .digest('base64url');
+  }
+}
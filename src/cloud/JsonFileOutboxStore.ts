@@ -0,0 +1,42 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { OutboxEntry, OutboxStore } from '../types';
+import { reviveOutboxEntry } from './userDataSerialization';
+
+/**
+ * Keeps an offline sync outbox in a JSON file, so changes made offline survive
+ * the app being closed. The file is replaced atomically on every save, and
+ * saves are written in the order they were made so the latest one wins.
+ */
+export class JsonFileOutboxStore implements OutboxStore {
+  private filePath: string;
+  private lastSave: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<OutboxEntry[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8')).map(reviveOutboxEntry);
+    } catch (error: any) {
+      if (error && error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Write to a temporary file and rename it over the old one, after any earlier save
+  save(entries: OutboxEntry[]): Promise<void> {
+    const contents = JSON.stringify(entries);
+    const saved = this.lastSave.then(async () => {
+      const tempPath = `${this.filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+      await fs.writeFile(tempPath, contents, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+    // A failed save must not stop later ones
+    this.lastSave = saved.catch(() => undefined);
+    return saved;
+  }
+}
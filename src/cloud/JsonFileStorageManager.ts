@@ -0,0 +1,216 @@
+import { randomBytes } from 'crypto';
+import { promises as fs, Stats, unwatchFile, watchFile } from 'fs';
+import { join } from 'path';
+import {
+  UserDataStore,
+  JsonFileStorageConfig,
+  CloudStorageManager,
+  SyncResult,
+  UserDataChanges
+} from '../types';
+import { applyUserDataChanges, reviveUserDataStore, stampRecordVersions } from './userDataSerialization';
+
+/**
+ * Keeps each user's data as a JSON file in a local directory.
+ *
+ * Files are replaced atomically, so a reader never sees a half-written file,
+ * and writes for a user run one at a time, so an update always starts from
+ * the file the previous write left. Watching polls the file, which also picks
+ * up changes written by other processes sharing the directory.
+ */
+export class JsonFileStorageManager implements CloudStorageManager {
+  private config: JsonFileStorageConfig;
+  private watchers: Map<string, (current: Stats, previous: Stats) => void> = new Map();
+  private isConnected: boolean = false;
+  private writeQueues: Map<string, Promise<unknown>> = new Map(); // userId -> last queued write
+
+  constructor(config: JsonFileStorageConfig) {
+    this.config = config;
+  }
+
+  async connect(): Promise<void> {
+    try {
+      await fs.mkdir(this.config.directory, { recursive: true });
+      this.isConnected = true;
+      console.log(`Using JSON file storage in ${this.config.directory}`);
+    } catch (error) {
+      console.error('Failed to open JSON file storage:', error);
+      this.isConnected = false;
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    for (const userId of Array.from(this.watchers.keys())) {
+      await this.stopWatching(userId);
+    }
+    this.isConnected = false;
+  }
+
+  async saveUserData(userId: string, data: UserDataStore): Promise<SyncResult> {
+    this.requireConnection();
+
+    try {
+      const doc = { ...data, lastSync: new Date() };
+      await this.queueWrite(userId, async () => {
+        stampRecordVersions(await this.readFile(userId), doc, doc.lastSync);
+        await this.writeFile(userId, doc);
+      });
+      return {
+        success: true,
+        message: 'Data saved successfully',
+        lastSync: new Date(),
+        recordsUpdated: 1
+      };
+    } catch (error) {
+      console.error('Failed to save user data:', error);
+      throw error;
+    }
+  }
+
+  async loadUserData(userId: string): Promise<UserDataStore | null> {
+    this.requireConnection();
+
+    try {
+      const doc = await this.readFile(userId);
+      return doc ? reviveUserDataStore(doc) : null;
+    } catch (error) {
+      console.error('Failed to load user data:', error);
+      throw error;
+    }
+  }
+
+  async deleteUserData(userId: string): Promise<boolean> {
+    this.requireConnection();
+
+    try {
+      await this.stopWatching(userId);
+      await this.queueWrite(userId, () => fs.unlink(this.getFilePath(userId)));
+      return true;
+    } catch (error: any) {
+      if (error && error.code === 'ENOENT') {
+        return false;
+      }
+      console.error('Failed to delete user data:', error);
+      throw error;
+    }
+  }
+
+  async updateUserData(
+    userId: string,
+    updates: Partial<UserDataStore>,
+    changes: UserDataChanges = {}
+  ): Promise<SyncResult> {
+    this.requireConnection();
+
+    try {
+      // Versions are checked against the file as it is once earlier writes have finished
+      const result = await this.queueWrite(userId, async () => {
+        const doc = await this.readFile(userId);
+        if (!doc) {
+          return null;
+        }
+        const updated = { ...doc, ...updates, lastSync: new Date() };
+        stampRecordVersions(doc, updated, updated.lastSync);
+        const applied = applyUserDataChanges(updated, changes, updated.lastSync);
+        await this.writeFile(userId, updated);
+        return applied;
+      });
+      if (!result) {
+        return { success: true, message: 'Data updated successfully', lastSync: new Date(), recordsUpdated: 0 };
+      }
+
+      return {
+        success: true,
+        message: 'Data updated successfully',
+        lastSync: new Date(),
+        ...result,
+        recordsUpdated: (Object.keys(updates).length > 0 ? 1 : 0) + result.recordsUpdated
+      };
+    } catch (error) {
+      console.error('Failed to update user data:', error);
+      throw error;
+    }
+  }
+
+  async watchUserData(userId: string, callback: (data: UserDataStore) => void): Promise<void> {
+    this.requireConnection();
+    await this.stopWatching(userId);
+
+    const listener = (current: Stats, previous: Stats) => {
+      // A missing file has a zero mtime; deletes are not reported as updates
+      if (current.mtimeMs === 0 || (current.mtimeMs === previous.mtimeMs && current.size === previous.size)) {
+        return;
+      }
+      this.readFile(userId)
+        .then(doc => {
+          if (doc) {
+            callback(reviveUserDataStore(doc));
+          }
+        })
+        .catch(error => console.error('Error reading watched user data:', error));
+    };
+
+    watchFile(this.getFilePath(userId), { interval: this.config.pollIntervalMs || 1000 }, listener);
+    this.watchers.set(userId, listener);
+    console.log(`Started watching user data for user: ${userId}`);
+  }
+
+  async stopWatching(userId: string): Promise<void> {
+    const listener = this.watchers.get(userId);
+    if (listener) {
+      unwatchFile(this.getFilePath(userId), listener);
+      this.watchers.delete(userId);
+      console.log(`Stopped watching user data for user: ${userId}`);
+    }
+  }
+
+  // Utility method to check connection status
+  isStorageConnected(): boolean {
+    return this.isConnected;
+  }
+
+  // Private utility methods
+  private requireConnection(): void {
+    if (!this.isConnected) {
+      throw new Error('Not connected to JSON file storage');
+    }
+  }
+
+  private getFilePath(userId: string): string {
+    return join(this.config.directory, `${encodeURIComponent(userId)}.json`);
+  }
+
+  private async readFile(userId: string): Promise<any | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getFilePath(userId), 'utf8'));
+    } catch (error: any) {
+      if (error && error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Run a read-modify-write of a user's file once the writes queued before it have finished
+  private queueWrite<T>(userId: string, write: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueues.get(userId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+    this.writeQueues.set(userId, next);
+    // Forget the queue once it is idle
+    next.catch(() => undefined).then(() => {
+      if (this.writeQueues.get(userId) === next) {
+        this.writeQueues.delete(userId);
+      }
+    });
+    return next;
+  }
+
+  // Write to a temporary file and rename it over the old one
+  private async writeFile(userId: string, doc: any): Promise<void> {
+    const filePath = this.getFilePath(userId);
+    const tempPath = `${filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(doc), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+}
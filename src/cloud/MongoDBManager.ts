@@ -1,18 +1,42 @@
-import { MongoClient, Db, Collection, ChangeStream } from 'mongodb';
-import { 
-  UserDataStore, 
-  CloudStorageConfig, 
-  CloudStorageManager, 
+import { createHash } from 'crypto';
+import { MongoClient, Db, Collection, ChangeStream, AnyBulkWriteOperation } from 'mongodb';
+import {
+  UserDataStore,
+  UserDataEntity,
+  CloudStorageConfig,
+  CloudStorageManager,
   SyncResult,
-  ChangeStreamEvent
+  ChangeStreamEvent,
+  EntityPage,
+  StorageMigrationReport,
+  EntityChanges,
+  UserDataChanges,
+  RecordVersion,
+  RecordVersions,
+  WriteConflict
 } from '../types';
+import { getEntityKey, reviveEntity, reviveUser, reviveUserDataStore, USER_DATA_ENTITIES } from './userDataSerialization';
 
+const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * Keeps each user's data in MongoDB, one collection per entity list plus one
+ * for the user profiles, e.g. userData.users, userData.challans.
+ *
+ * Every record is its own document tagged with the user it belongs to and a
+ * hash of its contents, so a save only writes the records that changed and
+ * deletes the ones that were removed. Loading reads each list in pages.
+ * Records also carry a version, raised on every write, so a record-level change
+ * can be made on condition that nobody else wrote the record first.
+ */
 export class MongoDBManager implements CloudStorageManager {
   private client: MongoClient | null = null;
   private db: Db | null = null;
-  private collection: Collection | null = null;
+  private users: Collection | null = null;
   private config: CloudStorageConfig;
   private changeStreams: Map<string, ChangeStream> = new Map();
+  // Hash and position of every stored record, by user, entity list and document ID
+  private storedRecords: Map<string, Map<UserDataEntity, Map<string, string>>> = new Map();
   private isConnected: boolean = false;
 
   constructor(config: CloudStorageConfig) {
@@ -24,7 +48,10 @@ export class MongoDBManager implements CloudStorageManager {
       this.client = new MongoClient(this.config.connectionString);
       await this.client.connect();
       this.db = this.client.db(this.config.databaseName);
-      this.collection = this.db.collection(this.config.collectionName);
+      this.users = this.db.collection(`${this.config.collectionName}.users`);
+      for (const entity of USER_DATA_ENTITIES) {
+        await this.db.collection(this.getCollectionName(entity)).createIndex({ _userId: 1, _position: 1 });
+      }
       this.isConnected = true;
       console.log('Connected to MongoDB successfully');
     } catch (error) {
@@ -41,12 +68,13 @@ export class MongoDBManager implements CloudStorageManager {
         await changeStream.close();
       }
       this.changeStreams.clear();
+      this.storedRecords.clear();
 
       if (this.client) {
         await this.client.close();
         this.client = null;
         this.db = null;
-        this.collection = null;
+        this.users = null;
         this.isConnected = false;
         console.log('Disconnected from MongoDB');
       }
@@ -57,14 +85,18 @@ export class MongoDBManager implements CloudStorageManager {
   }
 
   async saveUserData(userId: string, data: UserDataStore): Promise<SyncResult> {
-    if (!this.collection || !this.isConnected) {
-      throw new Error('Not connected to MongoDB');
-    }
+    const users = this.requireConnection();
 
     try {
-      const result = await this.collection.replaceOne(
-        { 'user.id': userId },
-        { ...data, lastSync: new Date() },
+      let recordsUpdated = 0;
+      for (const entity of USER_DATA_ENTITIES) {
+        recordsUpdated += await this.writeEntity(userId, entity, data[entity] || []);
+      }
+
+      // The user document goes last, so watchers only hear about a save once its records are written
+      const result = await users.replaceOne(
+        { _id: userId as any },
+        { user: data.user, lastSync: new Date() },
         { upsert: true }
       );
 
@@ -72,7 +104,7 @@ export class MongoDBManager implements CloudStorageManager {
         success: true,
         message: 'Data saved successfully',
         lastSync: new Date(),
-        recordsUpdated: result.modifiedCount + result.upsertedCount
+        recordsUpdated: recordsUpdated + result.modifiedCount + result.upsertedCount
       };
     } catch (error) {
       console.error('Failed to save user data:', error);
@@ -81,29 +113,88 @@ export class MongoDBManager implements CloudStorageManager {
   }
 
   async loadUserData(userId: string): Promise<UserDataStore | null> {
-    if (!this.collection || !this.isConnected) {
-      throw new Error('Not connected to MongoDB');
-    }
+    const users = this.requireConnection();
 
     try {
-      const data = await this.collection.findOne({ 'user.id': userId });
-      return data ? this.convertMongoDocument(data) : null;
+      const userDoc = await users.findOne({ _id: userId as any });
+      if (!userDoc) {
+        return null;
+      }
+
+      const recordVersions: RecordVersions = {};
+      const data: any = {
+        user: reviveUser(userDoc.user),
+        recordVersions,
+        lastSync: new Date(userDoc.lastSync)
+      };
+      for (const entity of USER_DATA_ENTITIES) {
+        const loaded = await this.loadAllEntities(userId, entity);
+        data[entity] = loaded.items;
+        recordVersions[entity] = loaded.versions;
+      }
+      return data as UserDataStore;
     } catch (error) {
       console.error('Failed to load user data:', error);
       throw error;
     }
   }
 
-  async deleteUserData(userId: string): Promise<boolean> {
-    if (!this.collection || !this.isConnected) {
-      throw new Error('Not connected to MongoDB');
+  /**
+   * Load one page of a user's records from an entity list
+   * @param userId - User ID
+   * @param entity - Entity list to read, e.g. challans
+   * @param options - Cursor from the previous page and the page size
+   * @returns Records in stored order and the cursor of the next page
+   */
+  async loadEntities(
+    userId: string,
+    entity: UserDataEntity,
+    options: { after?: string; limit?: number } = {}
+  ): Promise<EntityPage> {
+    this.requireConnection();
+    const limit = options.limit || this.config.pageSize || DEFAULT_PAGE_SIZE;
+    const filter: any = { _userId: userId };
+    if (options.after !== undefined) {
+      filter._position = { $gt: parseInt(options.after, 10) };
     }
 
+    const docs = await this.getCollection(entity)
+      .find(filter)
+      .sort({ _position: 1 })
+      .limit(limit)
+      .toArray();
+
+    const records = this.getStoredRecords(userId, entity);
+    const versions: { [key: string]: RecordVersion } = {};
+    const items = docs.map(doc => {
+      if (records) {
+        records.set(String(doc._id), `${doc._hash}@${doc._position}`);
+      }
+      const item = this.toRecord(entity, doc);
+      versions[getEntityKey(entity, item)] = this.getVersion(doc);
+      return item;
+    });
+
+    return {
+      items,
+      versions,
+      nextCursor: docs.length === limit ? String(docs[docs.length - 1]._position) : undefined
+    };
+  }
+
+  async deleteUserData(userId: string): Promise<boolean> {
+    const users = this.requireConnection();
+
     try {
       // Stop watching this user's data
       await this.stopWatching(userId);
 
-      const result = await this.collection.deleteOne({ 'user.id': userId });
+      for (const entity of USER_DATA_ENTITIES) {
+        await this.getCollection(entity).deleteMany({ _userId: userId });
+      }
+      this.storedRecords.delete(userId);
+
+      const result = await users.deleteOne({ _id: userId as any });
       return result.deletedCount > 0;
     } catch (error) {
       console.error('Failed to delete user data:', error);
@@ -111,27 +202,55 @@ export class MongoDBManager implements CloudStorageManager {
     }
   }
 
-  async updateUserData(userId: string, updates: Partial<UserDataStore>): Promise<SyncResult> {
-    if (!this.collection || !this.isConnected) {
-      throw new Error('Not connected to MongoDB');
-    }
+  async updateUserData(
+    userId: string,
+    updates: Partial<UserDataStore>,
+    changes: UserDataChanges = {}
+  ): Promise<SyncResult> {
+    const users = this.requireConnection();
 
     try {
-      const result = await this.collection.updateOne(
-        { 'user.id': userId },
-        { 
-          $set: { 
-            ...updates, 
-            lastSync: new Date() 
-          } 
+      let recordsUpdated = 0;
+      const versions: RecordVersions = {};
+      const conflicts: WriteConflict[] = [];
+      const exists = await users.findOne({ _id: userId as any }, { projection: { _id: 1 } });
+
+      if (exists) {
+        for (const entity of USER_DATA_ENTITIES) {
+          const items = updates[entity];
+          if (items) {
+            recordsUpdated += await this.writeEntity(userId, entity, items);
+          }
+          const entityChanges = changes[entity];
+          if (entityChanges) {
+            const applied = await this.applyEntityChanges(userId, entity, entityChanges);
+            recordsUpdated += applied.recordsUpdated;
+            versions[entity] = applied.versions[entity];
+            conflicts.push(...applied.conflicts);
+          }
         }
-      );
+
+        const result = await users.updateOne(
+          { _id: userId as any },
+          {
+            $set: {
+              ...(updates.user ? { user: updates.user } : {}),
+              lastSync: new Date()
+            }
+          }
+        );
+        if (updates.user) {
+          recordsUpdated += result.modifiedCount;
+        }
+      }
 
       return {
         success: true,
         message: 'Data updated successfully',
         lastSync: new Date(),
-        recordsUpdated: result.modifiedCount
+        recordsUpdated,
+        versions,
+        conflicts
       };
     } catch (error) {
       console.error('Failed to update user data:', error);
@@ -140,9 +259,7 @@ export class MongoDBManager implements CloudStorageManager {
   }
 
   async watchUserData(userId: string, callback: (data: UserDataStore) => void): Promise<void> {
-    if (!this.collection || !this.isConnected) {
-      throw new Error('Not connected to MongoDB');
-    }
+    const users = this.requireConnection();
 
     if (!this.config.enableChangeStreams) {
       console.warn('Change streams are not enabled. Set enableChangeStreams to true in config.');
@@ -153,11 +270,11 @@ export class MongoDBManager implements CloudStorageManager {
       // Stop existing change stream if any
       await this.stopWatching(userId);
 
-      // Create change stream for this user's data
-      const changeStream = this.collection.watch([
+      // Every save and update ends by writing the user document, so that is all we watch
+      const changeStream = users.watch([
         {
           $match: {
-            'fullDocument.user.id': userId,
+            'documentKey._id': userId,
             operationType: { $in: ['insert', 'update', 'replace'] }
           }
         }
@@ -169,9 +286,8 @@ export class MongoDBManager implements CloudStorageManager {
       // Listen for changes
       changeStream.on('change', async (change: ChangeStreamEvent) => {
         try {
-          if (change.fullDocument) {
-            // Convert MongoDB document to UserDataStore
-            const userData = this.convertMongoDocument(change.fullDocument);
+          const userData = await this.loadUserData(userId);
+          if (userData) {
             callback(userData);
           }
         } catch (error) {
@@ -203,41 +319,58 @@ export class MongoDBManager implements CloudStorageManager {
     }
   }
 
-  private convertMongoDocument(doc: any): UserDataStore {
-    // Convert MongoDB document to UserDataStore
-    // Handle date conversions and any MongoDB-specific fields
-    return {
-      user: {
-        ...doc.user,
-        createdAt: new Date(doc.user.createdAt),
-        updatedAt: new Date(doc.user.updatedAt)
-      },
-      inventory: doc.inventory || [],
-      customers: doc.customers || [],
-      challans: (doc.challans || []).map((challan: any) => ({
-        ...challan,
-        challanDate: new Date(challan.challanDate),
-        createdAt: new Date(challan.createdAt),
-        updatedAt: new Date(challan.updatedAt)
-      })),
-      deliveries: (doc.deliveries || []).map((delivery: any) => ({
-        ...delivery,
-        deliveryDate: new Date(delivery.deliveryDate),
-        createdAt: new Date(delivery.createdAt),
-        updatedAt: new Date(delivery.updatedAt)
-      })),
-      payments: (doc.payments || []).map((payment: any) => ({
-        ...payment,
-        paymentDate: new Date(payment.paymentDate),
-        createdAt: new Date(payment.createdAt),
-        updatedAt: new Date(payment.updatedAt)
-      })),
-      billingCalculations: (doc.billingCalculations || []).map((calc: any) => ({
-        ...calc,
-        calculatedAt: new Date(calc.calculatedAt)
-      })),
-      lastSync: new Date(doc.lastSync)
-    };
+  /**
+   * Move users stored the old way, as one document each in the collection named by
+   * collectionName, into the per-entity collections.
+   * Each user is saved, then read back and compared before it counts as migrated.
+   * @param options - Users to migrate (default all) and whether to delete the old documents afterwards
+   * @returns Users migrated and failed; old documents are only removed when every user migrated
+   */
+  async migrateSingleDocumentStores(
+    options: { userIds?: string[]; removeLegacy?: boolean } = {}
+  ): Promise<StorageMigrationReport> {
+    this.requireConnection();
+    const legacy = this.db!.collection(this.config.collectionName);
+    const filter = options.userIds ? { 'user.id': { $in: options.userIds } } : {};
+    const report: StorageMigrationReport = { migrated: [], failed: [], legacyRemoved: false };
+
+    const cursor = legacy.find(filter);
+    while (await cursor.hasNext()) {
+      const doc = (await cursor.next())!;
+      const userId = doc.user && doc.user.id;
+      try {
+        if (!userId) {
+          throw new Error(`Document ${doc._id} has no user ID`);
+        }
+        const data = reviveUserDataStore(doc);
+        const result = await this.saveUserData(userId, data);
+
+        const saved = await this.loadUserData(userId);
+        if (!saved) {
+          throw new Error('Migrated data could not be read back');
+        }
+        for (const entity of USER_DATA_ENTITIES) {
+          const expected = (data[entity] || []).length;
+          const found = (saved[entity] || []).length;
+          if (found !== expected) {
+            throw new Error(`Expected ${expected} ${entity} records, found ${found}`);
+          }
+        }
+
+        report.migrated.push({ userId, recordsWritten: result.recordsUpdated });
+        console.log(`Migrated user data for user: ${userId}`);
+      } catch (error) {
+        report.failed.push({ userId: userId || String(doc._id), error: error instanceof Error ? error.message : String(error) });
+        console.error('Failed to migrate user data:', error);
+      }
+    }
+
+    if (options.removeLegacy && report.failed.length === 0 && report.migrated.length > 0) {
+      await legacy.deleteMany({ 'user.id': { $in: report.migrated.map(m => m.userId) } });
+      report.legacyRemoved = true;
+    }
+
+    return report;
   }
 
   // Utility method to check connection status
@@ -249,4 +382,230 @@ export class MongoDBManager implements CloudStorageManager {
   getActiveChangeStreamsCount(): number {
     return this.changeStreams.size;
   }
+
+  // Private utility methods
+  private requireConnection(): Collection {
+    if (!this.db || !this.users || !this.isConnected) {
+      throw new Error('Not connected to MongoDB');
+    }
+    return this.users;
+  }
+
+  private getCollectionName(entity: UserDataEntity): string {
+    return `${this.config.collectionName}.${entity}`;
+  }
+
+  private getCollection(entity: UserDataEntity): Collection {
+    return this.db!.collection(this.getCollectionName(entity));
+  }
+
+  private getStoredRecords(userId: string, entity: UserDataEntity): Map<string, string> | undefined {
+    const entities = this.storedRecords.get(userId);
+    return entities && entities.get(entity);
+  }
+
+  private async loadAllEntities(
+    userId: string,
+    entity: UserDataEntity
+  ): Promise<{ items: any[]; versions: { [key: string]: RecordVersion } }> {
+    // Start the record cache afresh; loadEntities fills it as pages arrive
+    this.setStoredRecords(userId, entity, new Map());
+
+    const items: any[] = [];
+    const versions: { [key: string]: RecordVersion } = {};
+    let after: string | undefined;
+    do {
+      const page = await this.loadEntities(userId, entity, { after });
+      items.push(...page.items);
+      Object.keys(page.versions).forEach(key => versions[key] = page.versions[key]);
+      after = page.nextCursor;
+    } while (after !== undefined);
+    return { items, versions };
+  }
+
+  // Hash and position of every record of an entity list in the database
+  private async fetchStoredRecords(userId: string, entity: UserDataEntity): Promise<Map<string, string>> {
+    const records = new Map<string, string>();
+    const docs = await this.getCollection(entity)
+      .find({ _userId: userId }, { projection: { _hash: 1, _position: 1 } })
+      .toArray();
+    docs.forEach(doc => records.set(String(doc._id), `${doc._hash}@${doc._position}`));
+    return records;
+  }
+
+  // Write the records of an entity list that changed or moved and delete the ones
+  // no longer in it. Returns the number of documents written or deleted.
+  private async writeEntity(userId: string, entity: UserDataEntity, items: any[]): Promise<number> {
+    const stored = this.getStoredRecords(userId, entity) || await this.fetchStoredRecords(userId, entity);
+    const current = new Map<string, string>();
+    const operations: AnyBulkWriteOperation[] = [];
+    const keyCounts: Record<string, number> = {};
+
+    items.forEach((item, position) => {
+      // Records that share a key are kept apart by their occurrence
+      let key = getEntityKey(entity, item);
+      keyCounts[key] = (keyCounts[key] || 0) + 1;
+      if (keyCounts[key] > 1) {
+        key = `${key}#${keyCounts[key]}`;
+      }
+
+      const _id = this.getDocumentId(userId, key);
+      const hash = this.hashRecord(item);
+      current.set(_id, `${hash}@${position}`);
+      if (stored.get(_id) !== `${hash}@${position}`) {
+        operations.push(this.writeRecord(userId, _id, item, hash, position));
+      }
+    });
+
+    Array.from(stored.keys()).forEach(_id => {
+      if (!current.has(_id)) {
+        operations.push({ deleteOne: { filter: { _id: _id as any } } });
+      }
+    });
+
+    if (operations.length > 0) {
+      await this.getCollection(entity).bulkWrite(operations, { ordered: false });
+    }
+
+    this.setStoredRecords(userId, entity, current);
+    return operations.length;
+  }
+
+  // Write created and updated records, keeping the place of those already stored
+  // and adding new ones at the end, and delete the deleted ones. Changes with a
+  // base version are written one at a time, on condition the stored version matches.
+  private async applyEntityChanges(
+    userId: string,
+    entity: UserDataEntity,
+    changes: EntityChanges
+  ): Promise<Required<Pick<SyncResult, 'recordsUpdated' | 'versions' | 'conflicts'>>> {
+    const collection = this.getCollection(entity);
+    const stored = new Map(this.getStoredRecords(userId, entity) || await this.fetchStoredRecords(userId, entity));
+    const baseVersions = changes.baseVersions || {};
+    const operations: AnyBulkWriteOperation[] = [];
+    const versions: { [key: string]: RecordVersion } = {};
+    const conflicts: WriteConflict[] = [];
+    let recordsUpdated = 0;
+    let nextPosition = Array.from(stored.values())
+      .reduce((last, record) => Math.max(last, parseInt(record.split('@')[1], 10)), -1) + 1;
+
+    const refuse = async (key: string, _id: string) => {
+      const current = await collection.findOne({ _id: _id as any });
+      conflicts.push({
+        entity,
+        key,
+        baseVersion: baseVersions[key],
+        current: current ? this.toRecord(entity, current) : undefined,
+        currentVersion: current ? this.getVersion(current) : undefined
+      });
+    };
+
+    const upserts = [
+      ...changes.created.map(item => ({ item, created: true })),
+      ...changes.updated.map(item => ({ item, created: false }))
+    ];
+    for (const { item, created } of upserts) {
+      const key = getEntityKey(entity, item);
+      const _id = this.getDocumentId(userId, key);
+      const hash = this.hashRecord(item);
+      const existing = stored.get(_id);
+      const position = existing ? parseInt(existing.split('@')[1], 10) : nextPosition++;
+      const base = baseVersions[key];
+
+      if (base === undefined) {
+        if (existing !== `${hash}@${position}`) {
+          operations.push(this.writeRecord(userId, _id, item, hash, position));
+        }
+      } else {
+        const updatedAt = new Date();
+        const document = { ...item, _id, _userId: userId, _hash: hash, _position: position, _updatedAt: updatedAt };
+        const written = created
+          ? (await collection.updateOne(
+              { _id: _id as any },
+              { $setOnInsert: { ...document, _version: 1 } },
+              { upsert: true }
+            )).upsertedCount === 1
+          : (await collection.replaceOne(
+              { _id: _id as any, _version: base || null },
+              { ...document, _version: base + 1 }
+            )).matchedCount === 1;
+        if (!written) {
+          await refuse(key, _id);
+          continue;
+        }
+        versions[key] = { version: created ? 1 : base + 1, updatedAt };
+        recordsUpdated++;
+      }
+      stored.set(_id, `${hash}@${position}`);
+    }
+
+    for (const key of changes.deleted) {
+      const _id = this.getDocumentId(userId, key);
+      const base = baseVersions[key];
+      if (base === undefined) {
+        if (stored.has(_id)) {
+          operations.push({ deleteOne: { filter: { _id: _id as any } } });
+        }
+      } else {
+        const result = await collection.deleteOne({ _id: _id as any, _version: base || null });
+        if (result.deletedCount === 0) {
+          // Already gone is not a conflict
+          if (await collection.findOne({ _id: _id as any }, { projection: { _id: 1 } })) {
+            await refuse(key, _id);
+          }
+          continue;
+        }
+        recordsUpdated++;
+      }
+      stored.delete(_id);
+    }
+
+    if (operations.length > 0) {
+      await collection.bulkWrite(operations, { ordered: false });
+    }
+    this.setStoredRecords(userId, entity, stored);
+    return { recordsUpdated: recordsUpdated + operations.length, versions: { [entity]: versions }, conflicts };
+  }
+
+  private setStoredRecords(userId: string, entity: UserDataEntity, records: Map<string, string>): void {
+    if (!this.storedRecords.has(userId)) {
+      this.storedRecords.set(userId, new Map());
+    }
+    this.storedRecords.get(userId)!.set(entity, records);
+  }
+
+  private getDocumentId(userId: string, key: string): string {
+    return `${encodeURIComponent(userId)}:${key}`;
+  }
+
+  private hashRecord(item: any): string {
+    return createHash('sha1').update(JSON.stringify(item)).digest('hex');
+  }
+
+  // Upsert a record, raising the version stored with it
+  private writeRecord(userId: string, _id: string, item: any, hash: string, position: number): AnyBulkWriteOperation {
+    const document = { ...item, _id, _userId: userId, _hash: hash, _position: position, _updatedAt: new Date() };
+    return {
+      updateOne: {
+        filter: { _id: _id as any },
+        update: [{
+          $replaceWith: {
+            $mergeObjects: [{ $literal: document }, { _version: { $add: [{ $ifNull: ['$_version', 0] }, 1] } }]
+          }
+        }] as any,
+        upsert: true
+      }
+    };
+  }
+
+  // Stored document back to the record it holds
+  private toRecord(entity: UserDataEntity, doc: any): any {
+    const { _id, _userId, _hash, _position, _version, _updatedAt, ...item } = doc;
+    return reviveEntity(entity, item);
+  }
+
+  // Records written before versions were kept count as version 0
+  private getVersion(doc: any): RecordVersion {
+    return { version: doc._version || 0, updatedAt: new Date(doc._updatedAt || 0) };
+  }
 }
@@ -0,0 +1,539 @@
+import {
+  CloudStorageManager,
+  ConflictResolution,
+  DocumentCounter,
+  DocumentSeries,
+  EntityChanges,
+  OfflineSyncOptions,
+  OfflineSyncResult,
+  OutboxEntry,
+  OutboxStore,
+  RecordVersions,
+  SyncConflict,
+  UserDataChanges,
+  UserDataEntity,
+  UserDataStore,
+  WriteConflict
+} from '../types';
+import { BusinessManager } from '../core/BusinessManager';
+import { getEntityKey, USER_DATA_ENTITIES } from './userDataSerialization';
+
+const DEFAULT_MAX_MERGE_ROUNDS = 3;
+
+// Fields every change touches; the later value is kept rather than treated as a clash
+const BOOKKEEPING_FIELDS = ['updatedAt'];
+
+// Counters that changes add to, e.g. stock going out on rent. What each side added
+// is summed, so increments made on two devices are both kept.
+const COUNTER_FIELDS: { [entity: string]: { [field: string]: string[] } } = {
+  inventory: { stock: ['owned', 'onRent', 'inRepair', 'lost'] }
+};
+
+// Where the numbers issued from each document series are kept
+const NUMBERED_DOCUMENTS: { [series in DocumentSeries]: { entity: UserDataEntity; field: string } } = {
+  challan: { entity: 'challans', field: 'challanNumber' },
+  return_challan: { entity: 'challans', field: 'challanNumber' },
+  invoice: { entity: 'invoices', field: 'invoiceNumber' },
+  receipt: { entity: 'payments', field: 'receiptNumber' },
+  credit_note: { entity: 'invoiceNotes', field: 'noteNumber' },
+  debit_note: { entity: 'invoiceNotes', field: 'noteNumber' }
+};
+
+/**
+ * Keeps a BusinessManager in step with storage on a device that is often offline,
+ * such as a tablet used on site.
+ *
+ * Local changes wait in an outbox until storage can be reached. Each one is
+ * written on condition that the stored record is still at the version the change
+ * was made from. When someone else got there first, the two are merged field by
+ * field: edits to different fields are combined automatically, stock counters
+ * keep what both sides added, and other edits to the same field become conflicts
+ * that wait for getConflicts and resolveConflict.
+ * After pushing, the stored data is pulled and the changes still waiting are laid
+ * over it, so nothing made locally is lost.
+ *
+ * Document numbers are reserved before the documents are written: the counters
+ * go first, and when another device moved a counter on in the meantime, the
+ * documents numbered from it here are renumbered after the stored numbers.
+ *
+ * Profile and billing settings are written as they are, without version checks.
+ */
+export class OfflineSyncManager {
+  private businessManager: BusinessManager;
+  private storage: CloudStorageManager;
+  private userId: string;
+  private outbox: OutboxEntry[] = [];
+  private versions: RecordVersions;
+  private outboxStore?: OutboxStore;
+  private maxMergeRounds: number;
+  private running: Promise<OfflineSyncResult> | null = null;
+
+  constructor(
+    businessManager: BusinessManager,
+    storage: CloudStorageManager,
+    userId: string,
+    options: OfflineSyncOptions = {}
+  ) {
+    this.businessManager = businessManager;
+    this.storage = storage;
+    this.userId = userId;
+    this.versions = businessManager.getDataStore().recordVersions || {};
+    this.outboxStore = options.outboxStore;
+    this.maxMergeRounds = options.maxMergeRounds || DEFAULT_MAX_MERGE_ROUNDS;
+  }
+
+  /**
+   * Read back the outbox kept by the outbox store, e.g. after the app restarts
+   */
+  async loadOutbox(): Promise<void> {
+    if (this.outboxStore) {
+      this.outbox = await this.outboxStore.load();
+    }
+  }
+
+  /**
+   * Move the changes made since the last call into the outbox
+   * @returns Number of changes in the outbox
+   */
+  async queueChanges(): Promise<number> {
+    this.collectChanges();
+    await this.saveOutbox();
+    return this.outbox.length;
+  }
+
+  /**
+   * Push the outbox to storage and pull the latest data. Safe to call while offline,
+   * the outbox is kept until storage can be reached.
+   * @returns What was pushed and merged, and the conflicts waiting
+   */
+  sync(): Promise<OfflineSyncResult> {
+    // A sync already under way covers this call too
+    if (!this.running) {
+      this.running = this.runSync().then(
+        result => {
+          this.running = null;
+          return result;
+        },
+        error => {
+          this.running = null;
+          throw error;
+        }
+      );
+    }
+    return this.running;
+  }
+
+  /**
+   * Get the conflicts waiting for a decision
+   * @returns Conflicts, oldest change first
+   */
+  getConflicts(): SyncConflict[] {
+    return this.outbox.filter(entry => entry.conflict).map(entry => entry.conflict!);
+  }
+
+  /**
+   * Decide a conflict. The decision is written on the next sync.
+   * @param conflictId - Conflict ID
+   * @param resolution - Keep the local change, take the stored record, take whichever
+   * changed last, or use a merged record
+   */
+  async resolveConflict(conflictId: string, resolution: ConflictResolution): Promise<void> {
+    const entry = this.outbox.find(e => !!e.conflict && e.conflict.id === conflictId);
+    if (!entry) {
+      throw new Error(`Conflict not found: ${conflictId}`);
+    }
+
+    const conflict = entry.conflict!;
+    let choice = resolution;
+    if (choice === 'latest') {
+      const remoteChangedAt = conflict.remoteVersion ? conflict.remoteVersion.updatedAt : undefined;
+      choice = remoteChangedAt && remoteChangedAt > conflict.localChangedAt ? 'remote' : 'local';
+    }
+
+    if (choice === 'remote') {
+      // The stored record replaces the local one when the next sync pulls
+      this.outbox.splice(this.outbox.indexOf(entry), 1);
+    } else {
+      if (typeof choice === 'object') {
+        entry.record = choice.merged;
+      }
+      entry.previous = conflict.remote && this.serialize(conflict.remote);
+      entry.baseVersion = conflict.remoteVersion ? conflict.remoteVersion.version : 0;
+      delete entry.conflict;
+    }
+    await this.saveOutbox();
+  }
+
+  /**
+   * Get the changes waiting to be pushed
+   * @returns Outbox entries, oldest first
+   */
+  getOutbox(): OutboxEntry[] {
+    return this.outbox;
+  }
+
+  // Private utility methods
+  private async runSync(): Promise<OfflineSyncResult> {
+    let pushed = 0;
+    let merged = 0;
+    let remote: UserDataStore | null;
+
+    this.collectChanges();
+    try {
+      await this.saveOutbox();
+
+      const isCounter = (entry: OutboxEntry) => entry.entity === 'documentCounters';
+      for (const counters of [true, false]) {
+        // Documents wait until the counters they were numbered from are stored
+        if (!counters && this.outbox.some(isCounter)) {
+          break;
+        }
+        for (let round = 0; round < this.maxMergeRounds; round++) {
+          const entries = this.outbox.filter(entry => !entry.conflict && isCounter(entry) === counters);
+          if (entries.length === 0) {
+            break;
+          }
+
+          const { updates, changes } = this.buildPush(entries);
+          const result = await this.storage.updateUserData(this.userId, updates, changes);
+          const refused = result.conflicts || [];
+
+          entries.forEach(entry => {
+            const conflict = refused.find(c => c.entity === entry.entity && c.key === entry.key);
+            if (!conflict) {
+              this.removeEntry(entry);
+              pushed++;
+            } else if (isCounter(entry) ? this.renumber(entry, conflict) : this.merge(entry, conflict)) {
+              merged++;
+            }
+          });
+        }
+      }
+
+      remote = await this.storage.loadUserData(this.userId);
+      if (!remote) {
+        // Nothing stored yet, or it was deleted elsewhere: store everything held locally
+        await this.storage.saveUserData(this.userId, this.businessManager.getDataStore());
+        this.outbox = [];
+        remote = await this.storage.loadUserData(this.userId);
+      }
+      await this.saveOutbox();
+    } catch (error) {
+      await this.saveOutbox().catch(saveError => console.error('Failed to save the outbox:', saveError));
+      return {
+        status: 'offline',
+        pushed,
+        merged,
+        conflicts: this.getConflicts(),
+        pending: this.outbox.length,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    if (remote) {
+      // Pick up changes made while waiting on storage, then lay the outbox over the stored data
+      this.collectChanges();
+      this.versions = remote.recordVersions || {};
+      this.businessManager.loadDataStore(this.applyOutbox(remote));
+      await this.saveOutbox();
+    }
+
+    const conflicts = this.getConflicts();
+    return {
+      status: conflicts.length > 0 ? 'conflicts' : 'synced',
+      pushed,
+      merged,
+      conflicts,
+      pending: this.outbox.length
+    };
+  }
+
+  private collectChanges(): void {
+    const changes = this.businessManager.getChanges();
+    if (changes.user) {
+      this.queue('user', 'user', changes.user, undefined, undefined);
+    }
+
+    USER_DATA_ENTITIES.forEach(entity => {
+      const entityChanges: EntityChanges | undefined = changes.entities[entity];
+      if (!entityChanges) {
+        return;
+      }
+      const previous = entityChanges.previous || {};
+      entityChanges.created.forEach(record => this.queue(entity, getEntityKey(entity, record), record, undefined, 0));
+      entityChanges.updated.forEach(record => {
+        const key = getEntityKey(entity, record);
+        this.queue(entity, key, record, previous[key], this.getKnownVersion(entity, key));
+      });
+      entityChanges.deleted.forEach(key => this.queue(entity, key, undefined, previous[key], this.getKnownVersion(entity, key)));
+    });
+
+    this.businessManager.markSynced();
+  }
+
+  private queue(
+    entity: UserDataEntity | 'user',
+    key: string,
+    record: any,
+    previous: any,
+    baseVersion: number | undefined
+  ): void {
+    const existing = this.outbox.find(e => e.entity === entity && e.key === key);
+    if (!existing) {
+      this.outbox.push({ entity, key, record, previous, baseVersion, queuedAt: new Date() });
+      return;
+    }
+
+    // A record created and deleted before it was ever pushed leaves nothing to do
+    if (!record && existing.baseVersion === 0 && !existing.conflict) {
+      this.removeEntry(existing);
+      return;
+    }
+    // Otherwise the entry keeps the version and record its first change was made from
+    existing.record = record;
+    existing.queuedAt = new Date();
+    if (existing.conflict) {
+      existing.conflict.local = record;
+      existing.conflict.localChangedAt = existing.queuedAt;
+    }
+  }
+
+  private buildPush(entries: OutboxEntry[]): { updates: Partial<UserDataStore>; changes: UserDataChanges } {
+    const updates: Partial<UserDataStore> = {};
+    const changes: { [entity: string]: EntityChanges } = {};
+
+    entries.forEach(entry => {
+      if (entry.entity === 'user') {
+        updates.user = entry.record;
+        return;
+      }
+      const entityChanges = changes[entry.entity] ||
+        (changes[entry.entity] = { created: [], updated: [], deleted: [], baseVersions: {} });
+      if (!entry.record) {
+        entityChanges.deleted.push(entry.key);
+      } else if (entry.baseVersion === 0) {
+        entityChanges.created.push(entry.record);
+      } else {
+        entityChanges.updated.push(entry.record);
+      }
+      if (entry.baseVersion !== undefined) {
+        entityChanges.baseVersions![entry.key] = entry.baseVersion;
+      }
+    });
+
+    return { updates, changes: changes as UserDataChanges };
+  }
+
+  // Merge a refused change with the stored record when the two changed different
+  // fields. Returns true when the merged change is ready to push again.
+  private merge(entry: OutboxEntry, conflict: WriteConflict): boolean {
+    const local = entry.record;
+    const remote = conflict.current;
+    const base = entry.previous;
+
+    if (!local && !remote) {
+      // Deleted on both sides
+      this.removeEntry(entry);
+      return false;
+    }
+
+    let clashes: string[] = [];
+    if (local && remote) {
+      const counters = COUNTER_FIELDS[entry.entity] || {};
+      const changedLocally = this.getChangedFields(base, local);
+      const changedRemotely = this.getChangedFields(base, remote);
+      const mergedRecord = { ...remote };
+
+      changedLocally.forEach(field => {
+        if (changedRemotely.indexOf(field) !== -1) {
+          const mergedCounters = counters[field] && this.mergeCounters(counters[field], base, local, remote, field);
+          if (mergedCounters) {
+            mergedRecord[field] = mergedCounters;
+            return;
+          }
+          if (!this.isSameValue(local[field], remote[field])) {
+            clashes.push(field);
+            return;
+          }
+        }
+        if (local[field] === undefined) {
+          delete mergedRecord[field];
+        } else {
+          mergedRecord[field] = local[field];
+        }
+      });
+
+      if (clashes.length === 0) {
+        BOOKKEEPING_FIELDS.forEach(field => {
+          if (field in local && field in remote) {
+            mergedRecord[field] = new Date(local[field]).getTime() > new Date(remote[field]).getTime()
+              ? local[field]
+              : remote[field];
+          }
+        });
+        entry.record = mergedRecord;
+        entry.previous = this.serialize(remote);
+        entry.baseVersion = conflict.currentVersion ? conflict.currentVersion.version : 0;
+        return true;
+      }
+    }
+
+    entry.conflict = {
+      id: this.generateId(),
+      entity: conflict.entity,
+      key: conflict.key,
+      local,
+      remote,
+      base,
+      fields: clashes,
+      localChangedAt: entry.queuedAt,
+      remoteVersion: conflict.currentVersion
+    };
+    return false;
+  }
+
+  // Renumber the documents issued here from a counter another device moved on first,
+  // so they follow the numbers it reserved. Returns true when the counter is ready
+  // to push again.
+  private renumber(entry: OutboxEntry, conflict: WriteConflict): boolean {
+    const counter: DocumentCounter = entry.record;
+    const remote: DocumentCounter | undefined = conflict.current;
+    if (!counter) {
+      return this.merge(entry, conflict);
+    }
+
+    const numbering = this.businessManager.numberingInstance;
+    const document = NUMBERED_DOCUMENTS[counter.series];
+    const reservedBefore = entry.previous ? entry.previous.lastNumber : 0;
+    let next = remote ? remote.lastNumber : 0;
+    const renumbered: { [documentNumber: string]: string } = {};
+
+    for (let sequence = reservedBefore + 1; sequence <= counter.lastNumber; sequence++) {
+      const documentNumber = numbering.formatNumber(counter.series, counter.financialYear, sequence);
+      const issued = this.outbox.some(e =>
+        e.entity === document.entity && e.baseVersion === 0 && !!e.record && e.record[document.field] === documentNumber
+      );
+      if (issued) {
+        next++;
+        renumbered[documentNumber] = numbering.formatNumber(counter.series, counter.financialYear, next);
+      }
+    }
+
+    // Records waiting in the outbox are the live ones, so the new numbers show locally too
+    this.outbox.forEach(e => {
+      if (e.record) {
+        this.replaceNumbers(e.record, renumbered);
+      }
+    });
+    counter.lastNumber = next;
+    counter.updatedAt = new Date();
+    entry.previous = this.serialize(remote);
+    entry.baseVersion = conflict.currentVersion ? conflict.currentVersion.version : 0;
+    return true;
+  }
+
+  // Swap old document numbers for new ones wherever a record holds them, e.g. an
+  // invoice number on its ledger entries
+  private replaceNumbers(record: any, renumbered: { [documentNumber: string]: string }): void {
+    Object.keys(record).forEach(field => {
+      const value = record[field];
+      if (typeof value === 'string' && renumbered.hasOwnProperty(value)) {
+        record[field] = renumbered[value];
+      } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+        this.replaceNumbers(value, renumbered);
+      }
+    });
+  }
+
+  // Fields that differ from the record as last synced, leaving out bookkeeping
+  // fields; every field of a new record
+  private getChangedFields(base: any, record: any): string[] {
+    const fields = Object.keys(record).concat(base ? Object.keys(base) : []);
+    return fields.filter((field, index) =>
+      fields.indexOf(field) === index &&
+      BOOKKEEPING_FIELDS.indexOf(field) === -1 &&
+      (!base || !this.isSameValue(base[field], record[field]))
+    );
+  }
+
+  // Add what each side added to a group of counters since the base record. Returns
+  // undefined when the group cannot be merged, e.g. both sides changed something
+  // other than a counter in it.
+  private mergeCounters(counters: string[], base: any, local: any, remote: any, field: string): any {
+    const from = base && base[field];
+    const mine = local[field];
+    const theirs = remote[field];
+    if (!from || !mine || !theirs) {
+      return undefined;
+    }
+
+    const merged = { ...theirs };
+    const keys = Object.keys(mine).concat(Object.keys(from));
+    for (const key of keys) {
+      if (counters.indexOf(key) !== -1 &&
+        typeof from[key] === 'number' && typeof mine[key] === 'number' && typeof theirs[key] === 'number') {
+        merged[key] = theirs[key] + mine[key] - from[key];
+      } else if (!this.isSameValue(from[key], mine[key])) {
+        if (!this.isSameValue(from[key], theirs[key]) && !this.isSameValue(mine[key], theirs[key])) {
+          return undefined;
+        }
+        merged[key] = mine[key];
+      }
+    }
+    return merged;
+  }
+
+  // Stored data with the changes still in the outbox laid over it
+  private applyOutbox(remote: UserDataStore): UserDataStore {
+    const data: any = { ...remote };
+    this.outbox.forEach(entry => {
+      if (entry.entity === 'user') {
+        data.user = entry.record;
+        return;
+      }
+      const records: any[] = [...(data[entry.entity] || [])];
+      const index = records.findIndex(record => getEntityKey(entry.entity as UserDataEntity, record) === entry.key);
+      if (!entry.record) {
+        if (index !== -1) {
+          records.splice(index, 1);
+        }
+      } else if (index !== -1) {
+        records[index] = entry.record;
+      } else {
+        records.push(entry.record);
+      }
+      data[entry.entity] = records;
+    });
+    return data;
+  }
+
+  private getKnownVersion(entity: UserDataEntity, key: string): number | undefined {
+    const versions = this.versions[entity];
+    return versions && versions[key] ? versions[key].version : undefined;
+  }
+
+  private removeEntry(entry: OutboxEntry): void {
+    const index = this.outbox.indexOf(entry);
+    if (index !== -1) {
+      this.outbox.splice(index, 1);
+    }
+  }
+
+  private async saveOutbox(): Promise<void> {
+    if (this.outboxStore) {
+      await this.outboxStore.save(this.outbox);
+    }
+  }
+
+  private isSameValue(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private serialize(value: any): any {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+
+  private generateId(): string {
+    return `conflict_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
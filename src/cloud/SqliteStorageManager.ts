@@ -0,0 +1,221 @@
+import {
+  UserDataStore,
+  SqliteStorageConfig,
+  CloudStorageManager,
+  SyncResult,
+  UserDataChanges
+} from '../types';
+import { applyUserDataChanges, reviveUserDataStore, stampRecordVersions } from './userDataSerialization';
+
+// The parts of the better-sqlite3 API this adapter uses. better-sqlite3 is an
+// optional peer dependency, loaded when the adapter connects.
+interface SqliteStatement {
+  get(...params: any[]): any;
+  run(...params: any[]): { changes: number };
+}
+
+interface SqliteDatabase {
+  prepare(sql: string): SqliteStatement;
+  exec(sql: string): void;
+  transaction<T extends (...args: any[]) => any>(fn: T): T;
+  close(): void;
+}
+
+interface UserDataRow {
+  data: string;
+  version: number;
+}
+
+/**
+ * Keeps each user's data as a JSON row in a SQLite database, using the
+ * better-sqlite3 driver.
+ *
+ * Every write bumps the row's version. Watching polls the version, so it also
+ * picks up changes written by other processes sharing the database file.
+ */
+export class SqliteStorageManager implements CloudStorageManager {
+  private config: SqliteStorageConfig;
+  private db: SqliteDatabase | null = null;
+  private tableName: string;
+  private pollers: Map<string, ReturnType<typeof setInterval>> = new Map();
+
+  constructor(config: SqliteStorageConfig) {
+    this.config = config;
+    this.tableName = config.tableName || 'user_data';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+      throw new Error(`Invalid SQLite table name: ${this.tableName}`);
+    }
+  }
+
+  async connect(): Promise<void> {
+    let Database: new (filePath: string) => SqliteDatabase;
+    try {
+      Database = require('better-sqlite3');
+    } catch (error) {
+      throw new Error('SqliteStorageManager needs the better-sqlite3 package; install it with npm install better-sqlite3');
+    }
+
+    try {
+      this.db = new Database(this.config.filePath);
+      this.db.exec(
+        `CREATE TABLE IF NOT EXISTS ${this.tableName} (` +
+        'user_id TEXT PRIMARY KEY, data TEXT NOT NULL, version INTEGER NOT NULL, updated_at TEXT NOT NULL)'
+      );
+      console.log(`Connected to SQLite database ${this.config.filePath}`);
+    } catch (error) {
+      console.error('Failed to open SQLite database:', error);
+      this.db = null;
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    for (const userId of Array.from(this.pollers.keys())) {
+      await this.stopWatching(userId);
+    }
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      console.log('Disconnected from SQLite');
+    }
+  }
+
+  async saveUserData(userId: string, data: UserDataStore): Promise<SyncResult> {
+    const db = this.requireConnection();
+
+    try {
+      // Read and write in one transaction so record versions follow on from the stored ones
+      const save = db.transaction(() => {
+        const row = this.getRow(db, userId);
+        const doc = { ...data, lastSync: new Date() };
+        stampRecordVersions(row ? JSON.parse(row.data) : null, doc, doc.lastSync);
+        return db.prepare(
+          `INSERT INTO ${this.tableName} (user_id, data, version, updated_at) VALUES (?, ?, 1, ?) ` +
+          'ON CONFLICT(user_id) DO UPDATE SET data = excluded.data, version = version + 1, updated_at = excluded.updated_at'
+        ).run(userId, JSON.stringify(doc), new Date().toISOString()).changes;
+      });
+
+      return {
+        success: true,
+        message: 'Data saved successfully',
+        lastSync: new Date(),
+        recordsUpdated: save()
+      };
+    } catch (error) {
+      console.error('Failed to save user data:', error);
+      throw error;
+    }
+  }
+
+  async loadUserData(userId: string): Promise<UserDataStore | null> {
+    const db = this.requireConnection();
+
+    try {
+      const row = this.getRow(db, userId);
+      return row ? reviveUserDataStore(JSON.parse(row.data)) : null;
+    } catch (error) {
+      console.error('Failed to load user data:', error);
+      throw error;
+    }
+  }
+
+  async deleteUserData(userId: string): Promise<boolean> {
+    const db = this.requireConnection();
+
+    try {
+      await this.stopWatching(userId);
+      const result = db.prepare(`DELETE FROM ${this.tableName} WHERE user_id = ?`).run(userId);
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Failed to delete user data:', error);
+      throw error;
+    }
+  }
+
+  async updateUserData(
+    userId: string,
+    updates: Partial<UserDataStore>,
+    changes: UserDataChanges = {}
+  ): Promise<SyncResult> {
+    const db = this.requireConnection();
+
+    try {
+      // Read and write in one transaction so a concurrent writer cannot slip in between
+      const update = db.transaction(() => {
+        const row = this.getRow(db, userId);
+        if (!row) {
+          return { recordsUpdated: 0 };
+        }
+        const stored = JSON.parse(row.data);
+        const data = { ...stored, ...updates, lastSync: new Date() };
+        stampRecordVersions(stored, data, data.lastSync);
+        const applied = applyUserDataChanges(data, changes, data.lastSync);
+        db.prepare(
+          `UPDATE ${this.tableName} SET data = ?, version = version + 1, updated_at = ? WHERE user_id = ?`
+        ).run(JSON.stringify(data), new Date().toISOString(), userId);
+        return { ...applied, recordsUpdated: (Object.keys(updates).length > 0 ? 1 : 0) + applied.recordsUpdated };
+      });
+
+      return {
+        success: true,
+        message: 'Data updated successfully',
+        lastSync: new Date(),
+        ...update()
+      };
+    } catch (error) {
+      console.error('Failed to update user data:', error);
+      throw error;
+    }
+  }
+
+  async watchUserData(userId: string, callback: (data: UserDataStore) => void): Promise<void> {
+    const db = this.requireConnection();
+    await this.stopWatching(userId);
+
+    const current = this.getRow(db, userId);
+    let lastVersion = current ? current.version : 0;
+
+    const poller = setInterval(() => {
+      try {
+        const row = this.getRow(db, userId);
+        if (row && row.version !== lastVersion) {
+          lastVersion = row.version;
+          callback(reviveUserDataStore(JSON.parse(row.data)));
+        } else if (!row) {
+          lastVersion = 0;
+        }
+      } catch (error) {
+        console.error('Error polling watched user data:', error);
+      }
+    }, this.config.pollIntervalMs || 1000);
+
+    this.pollers.set(userId, poller);
+    console.log(`Started watching user data for user: ${userId}`);
+  }
+
+  async stopWatching(userId: string): Promise<void> {
+    const poller = this.pollers.get(userId);
+    if (poller) {
+      clearInterval(poller);
+      this.pollers.delete(userId);
+      console.log(`Stopped watching user data for user: ${userId}`);
+    }
+  }
+
+  // Utility method to check connection status
+  isStorageConnected(): boolean {
+    return this.db !== null;
+  }
+
+  // Private utility methods
+  private requireConnection(): SqliteDatabase {
+    if (!this.db) {
+      throw new Error('Not connected to SQLite');
+    }
+    return this.db;
+  }
+
+  private getRow(db: SqliteDatabase, userId: string): UserDataRow | undefined {
+    return db.prepare(`SELECT data, version FROM ${this.tableName} WHERE user_id = ?`).get(userId);
+  }
+}
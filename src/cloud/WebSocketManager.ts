@@ -1,34 +1,168 @@
+import { randomBytes } from 'crypto';
 import { WebSocket, WebSocketServer } from 'ws';
 import { MongoDBManager } from './MongoDBManager';
-import { UserDataStore, CloudStorageConfig } from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { USER_DATA_ENTITIES, getEntityKey } from './userDataSerialization';
+import { createJsonPatch } from '../utils/jsonPatch';
+import { AuthenticationError, AuthorizationError, BillProMaxError } from '../errors';
+import {
+  AccessPolicy,
+  AuthIdentity,
+  TokenVerifier,
+  UserDataStore,
+  UserDataEntity,
+  CloudStorageConfig,
+  EntityChangeEvent,
+  EntityEventAction,
+  EntityEventPayload,
+  EntityEventSubject,
+  SlowClientPolicy,
+  WebSocketConnectionStats,
+  WebSocketManagerOptions
+} from '../types';
+
+const ENTITY_EVENT_SUBJECTS: Record<UserDataEntity, EntityEventSubject> = {
+  inventory: 'item',
+  customers: 'customer',
+  challans: 'challan',
+  deliveries: 'delivery',
+  payments: 'payment',
+  billingCalculations: 'billing_calculation',
+  rateCards: 'rate_card',
+  accountEntries: 'account_entry',
+  deposits: 'deposit',
+  damageAssessments: 'damage_assessment',
+  billingRuns: 'billing_run',
+  invoices: 'invoice',
+  invoiceNotes: 'invoice_note',
+  documentCounters: 'document_counter',
+  lateFeePolicies: 'late_fee_policy',
+  lateFeeCharges: 'late_fee_charge',
+  reminders: 'reminder'
+};
+
+// Each account may read its own business: owners their own data, staff their employer's
+const DEFAULT_ACCESS_POLICY: AccessPolicy = (identity, userId) => identity.userId === userId;
+
+// Longest delay setTimeout supports
+const MAX_TIMER_DELAY = 2147483647;
+
+// A watched user's data as last seen, and the events sent for it
+interface UserEventStream {
+  user: string; // Profile, serialized
+  trackers: Map<UserDataEntity, ChangeTracker<any>>;
+  lastSync: number;
+  history: EntityChangeEvent[]; // Most recent events, oldest first
+}
+
+// A client's subscription to a user
+interface ClientSubscription {
+  payload: EntityEventPayload;
+  sequence: number; // Last event the client was sent without a gap before it
+  behind: boolean; // Set when an event was dropped, until the client resyncs
+}
+
+interface ClientState {
+  resumeToken: string;
+  connectedAt: Date;
+  lastSeenAt: number;
+  droppedMessages: number;
+  unreportedDrops: number; // Dropped since the client was last told
+}
+
+// Subscriptions of a disconnected client, kept for it to resume
+interface DetachedSession {
+  subject: string;
+  subscriptions: Map<string, ClientSubscription>;
+  timer: ReturnType<typeof setTimeout>;
+}
 
 export class WebSocketManager {
   private wss: WebSocketServer;
   private mongoManager: MongoDBManager;
   private clients: Map<string, WebSocket> = new Map();
   private userSubscriptions: Map<string, Set<string>> = new Map(); // userId -> Set of clientIds
+  private clientSubscriptions: Map<string, Map<string, ClientSubscription>> = new Map(); // clientId -> userId -> subscription
+  private clientStates: Map<string, ClientState> = new Map();
+  private detachedSessions: Map<string, DetachedSession> = new Map(); // resume token -> session
+  private eventStreams: Map<string, UserEventStream> = new Map();
+  private sequences: Map<string, number> = new Map(); // userId -> last event sequence; kept after streams close
+  private identities: Map<string, AuthIdentity> = new Map(); // clientId -> authenticated account
+  private pendingAuth: Map<string, Promise<void>> = new Map(); // clientId -> token check started on connection
+  private authTimers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // clientId -> auth deadline or token expiry
+  private tokenVerifier: TokenVerifier;
+  private accessPolicy: AccessPolicy;
+  private authTimeoutMs: number;
+  private eventHistoryLimit: number;
+  private heartbeatTimeoutMs: number;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private resumeTtlMs: number;
+  private maxBufferedBytes: number;
+  private slowClientPolicy: SlowClientPolicy;
+  private totals = { droppedMessages: 0, slowClientDisconnects: 0, heartbeatTimeouts: 0, resumedSessions: 0 };
 
-  constructor(server: any, mongoConfig: CloudStorageConfig) {
+  constructor(server: any, mongoConfig: CloudStorageConfig, options: WebSocketManagerOptions) {
+    if (!options || !options.tokenVerifier) {
+      throw new Error('A token verifier is required to authenticate clients');
+    }
     this.wss = new WebSocketServer({ server });
     this.mongoManager = new MongoDBManager(mongoConfig);
+    this.tokenVerifier = options.tokenVerifier;
+    this.accessPolicy = options.accessPolicy || DEFAULT_ACCESS_POLICY;
+    this.authTimeoutMs = options.authTimeoutMs ?? 10000;
+    this.eventHistoryLimit = options.eventHistoryLimit ?? 1000;
+    this.resumeTtlMs = options.resumeTtlMs ?? 120000;
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 1048576;
+    this.slowClientPolicy = options.slowClientPolicy || 'drop';
     this.setupWebSocketServer();
+
+    const heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30000;
+    this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? heartbeatIntervalMs * 2;
+    if (heartbeatIntervalMs > 0) {
+      this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), heartbeatIntervalMs);
+    }
   }
 
   private setupWebSocketServer(): void {
     this.wss.on('connection', (ws: WebSocket, request: any) => {
       const clientId = this.generateClientId();
+      const resumeToken = randomBytes(24).toString('hex');
       this.clients.set(clientId, ws);
+      this.clientStates.set(clientId, {
+        resumeToken,
+        connectedAt: new Date(),
+        lastSeenAt: Date.now(),
+        droppedMessages: 0,
+        unreportedDrops: 0
+      });
 
       console.log(`Client connected: ${clientId}`);
 
+      ws.on('pong', () => {
+        this.markSeen(clientId);
+      });
+
       ws.on('message', (message: string) => {
+        this.markSeen(clientId);
+        let data: any;
         try {
-          const data = JSON.parse(message);
-          this.handleMessage(clientId, data);
+          data = JSON.parse(message);
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
           this.sendError(clientId, 'Invalid message format');
+          return;
+        }
+        // Only objects are messages; null, arrays and bare values are not
+        if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+          this.sendCodedError(clientId, new BillProMaxError('Messages must be JSON objects', 'INVALID_MESSAGE'));
+          return;
         }
+        this.handleMessage(clientId, data).catch(error => {
+          console.error('Error handling WebSocket message:', error);
+          this.sendCodedError(clientId, error instanceof BillProMaxError
+            ? error
+            : new BillProMaxError('Failed to handle message', 'INTERNAL_ERROR'));
+        });
       });
 
       ws.on('close', () => {
@@ -44,56 +178,243 @@ export class WebSocketManager {
       this.sendMessage(clientId, {
         type: 'connection_established',
         clientId,
+        resumeToken,
         timestamp: new Date()
       });
+
+      // Clients that cannot send a token with the upgrade request send an authenticate message instead
+      const token = this.getHandshakeToken(request);
+      if (token) {
+        const pending = this.authenticateClient(clientId, token);
+        this.pendingAuth.set(clientId, pending);
+        pending.then(() => this.pendingAuth.delete(clientId));
+      } else {
+        this.setAuthTimer(clientId, this.authTimeoutMs, () => {
+          this.closeClient(clientId, 4401, new AuthenticationError('Authentication timed out'));
+        });
+      }
     });
   }
 
+  // Token from an "Authorization: Bearer" header or a token query parameter
+  private getHandshakeToken(request: any): string | undefined {
+    const header = request && request.headers && request.headers.authorization;
+    if (typeof header === 'string' && header.indexOf('Bearer ') === 0) {
+      return header.slice(7).trim();
+    }
+    const url = request && request.url;
+    if (typeof url === 'string' && url.indexOf('?') !== -1) {
+      const token = new URLSearchParams(url.slice(url.indexOf('?') + 1)).get('token');
+      return token || undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check a client's token and remember who it belongs to. Clients that fail
+   * are disconnected; those that authenticate again keep only the
+   * subscriptions the new account may read.
+   * @param clientId - Client that sent the token
+   * @param token - Token to check
+   */
+  private async authenticateClient(clientId: string, token: string): Promise<void> {
+    let identity: AuthIdentity;
+    try {
+      if (typeof token !== 'string' || !token) {
+        throw new AuthenticationError('A token is required');
+      }
+      identity = await this.tokenVerifier.verify(token);
+    } catch (error) {
+      const authError = error instanceof BillProMaxError
+        ? error
+        : new AuthenticationError('Token could not be verified', 'INVALID_TOKEN');
+      this.closeClient(clientId, 4401, authError);
+      return;
+    }
+    if (!this.clients.has(clientId)) {
+      return;
+    }
+
+    this.identities.set(clientId, identity);
+    const subscriptions = this.clientSubscriptions.get(clientId);
+    if (subscriptions) {
+      for (const userId of Array.from(subscriptions.keys())) {
+        if (!this.accessPolicy(identity, userId)) {
+          this.removeSubscription(clientId, userId).catch(console.error);
+        }
+      }
+    }
+
+    // Drop the client's subscriptions when its token runs out; it can authenticate again and resync
+    const expiresIn = identity.expiresAt ? identity.expiresAt.getTime() - Date.now() : undefined;
+    if (expiresIn === undefined || expiresIn > MAX_TIMER_DELAY) {
+      this.clearAuthTimer(clientId);
+    } else {
+      this.setAuthTimer(clientId, Math.max(expiresIn, 0), () => this.expireClient(clientId));
+    }
+
+    this.sendMessage(clientId, {
+      type: 'authenticated',
+      subject: identity.subject,
+      userId: identity.userId,
+      role: identity.role,
+      expiresAt: identity.expiresAt,
+      timestamp: new Date()
+    });
+  }
+
+  private expireClient(clientId: string): void {
+    this.authTimers.delete(clientId);
+    const subscriptions = this.clientSubscriptions.get(clientId);
+    if (subscriptions) {
+      Array.from(subscriptions.keys()).forEach(userId => this.removeSubscription(clientId, userId).catch(console.error));
+    }
+    this.sendCodedError(clientId, new AuthenticationError('Token has expired', 'TOKEN_EXPIRED'));
+  }
+
+  // Account the client authenticated as, while its token is valid
+  private requireIdentity(clientId: string): AuthIdentity {
+    const identity = this.identities.get(clientId);
+    if (!identity) {
+      throw new AuthenticationError('Authenticate before sending requests');
+    }
+    if (identity.expiresAt && identity.expiresAt.getTime() <= Date.now()) {
+      throw new AuthenticationError('Token has expired', 'TOKEN_EXPIRED');
+    }
+    return identity;
+  }
+
+  private requireAccess(clientId: string, userId: string): void {
+    const identity = this.requireIdentity(clientId);
+    if (typeof userId !== 'string' || !this.accessPolicy(identity, userId)) {
+      throw new AuthorizationError(String(userId));
+    }
+  }
+
+  private setAuthTimer(clientId: string, delay: number, callback: () => void): void {
+    this.clearAuthTimer(clientId);
+    this.authTimers.set(clientId, setTimeout(callback, delay));
+  }
+
+  private clearAuthTimer(clientId: string): void {
+    const timer = this.authTimers.get(clientId);
+    if (timer) {
+      clearTimeout(timer);
+      this.authTimers.delete(clientId);
+    }
+  }
+
+  private closeClient(clientId: string, code: number, error: BillProMaxError): void {
+    this.sendCodedError(clientId, error);
+    const client = this.clients.get(clientId);
+    if (client) {
+      client.close(code, error.code);
+    }
+    this.handleClientDisconnect(clientId);
+  }
+
   private async handleMessage(clientId: string, message: any): Promise<void> {
+    if (message.type === 'authenticate') {
+      await this.authenticateClient(clientId, message.token);
+      return;
+    }
+    // Lets clients that cannot see protocol pings check the connection
+    if (message.type === 'ping') {
+      this.sendMessage(clientId, { type: 'pong', timestamp: new Date() });
+      return;
+    }
+
+    try {
+      await this.pendingAuth.get(clientId);
+      if (message.type === 'subscribe_user' || message.type === 'get_user_data' || message.type === 'resync') {
+        this.requireAccess(clientId, message.userId);
+      } else {
+        this.requireIdentity(clientId);
+      }
+    } catch (error) {
+      console.error('Error checking client access:', error);
+      this.sendCodedError(clientId, error instanceof BillProMaxError
+        ? error
+        : new AuthenticationError('Could not check the client\'s access'), message.userId);
+      return;
+    }
+
     switch (message.type) {
       case 'subscribe_user':
-        await this.handleUserSubscription(clientId, message.userId);
+        await this.handleUserSubscription(clientId, message.userId, message.payload, message.fromSequence);
         break;
-      
+
       case 'unsubscribe_user':
         await this.handleUserUnsubscription(clientId, message.userId);
         break;
-      
+
       case 'get_user_data':
         await this.handleGetUserData(clientId, message.userId);
         break;
-      
+
+      case 'resync':
+        await this.handleResync(clientId, message.userId, message.fromSequence);
+        break;
+
+      case 'resume':
+        await this.handleResume(clientId, message.resumeToken, message.sequences);
+        break;
+
       default:
         this.sendError(clientId, `Unknown message type: ${message.type}`);
     }
   }
 
-  private async handleUserSubscription(clientId: string, userId: string): Promise<void> {
+  private async handleUserSubscription(
+    clientId: string,
+    userId: string,
+    payload: EntityEventPayload = 'entity',
+    fromSequence?: number
+  ): Promise<void> {
     try {
-      // Add client to user's subscription list
+      if (payload !== 'entity' && payload !== 'patch') {
+        this.sendError(clientId, `Unknown payload: ${payload}`);
+        return;
+      }
+
+      // Start watching user data in MongoDB for the first subscriber
       if (!this.userSubscriptions.has(userId)) {
         this.userSubscriptions.set(userId, new Set());
+        await this.mongoManager.watchUserData(userId, (userData: UserDataStore) => {
+          this.publishChanges(userId, userData);
+        });
       }
-      this.userSubscriptions.get(userId)!.add(clientId);
 
-      // Start watching user data in MongoDB
-      await this.mongoManager.watchUserData(userId, (userData: UserDataStore) => {
-        this.broadcastToUser(userId, {
-          type: 'data_update',
-          userId,
-          data: userData,
-          timestamp: new Date()
-        });
-      });
+      // Catch up with the stored data before the client starts receiving events
+      if (!this.eventStreams.has(userId)) {
+        const userData = await this.mongoManager.loadUserData(userId);
+        if (userData) {
+          this.publishChanges(userId, userData);
+        }
+      }
+
+      // Add client to user's subscription list
+      const sequence = this.sequences.get(userId) ?? 0;
+      this.userSubscriptions.get(userId)!.add(clientId);
+      if (!this.clientSubscriptions.has(clientId)) {
+        this.clientSubscriptions.set(clientId, new Map());
+      }
+      this.clientSubscriptions.get(clientId)!.set(userId, { payload, sequence, behind: false });
 
       // Send confirmation
       this.sendMessage(clientId, {
         type: 'subscription_confirmed',
         userId,
+        payload,
+        sequence,
         timestamp: new Date()
       });
 
       console.log(`Client ${clientId} subscribed to user ${userId}`);
+
+      if (fromSequence !== undefined) {
+        await this.handleResync(clientId, userId, fromSequence);
+      }
     } catch (error) {
       console.error('Error setting up user subscription:', error);
       this.sendError(clientId, 'Failed to subscribe to user data');
@@ -102,17 +423,7 @@ export class WebSocketManager {
 
   private async handleUserUnsubscription(clientId: string, userId: string): Promise<void> {
     try {
-      // Remove client from user's subscription list
-      const userSubs = this.userSubscriptions.get(userId);
-      if (userSubs) {
-        userSubs.delete(clientId);
-        
-        // If no more clients are subscribed to this user, stop watching
-        if (userSubs.size === 0) {
-          await this.mongoManager.stopWatching(userId);
-          this.userSubscriptions.delete(userId);
-        }
-      }
+      await this.removeSubscription(clientId, userId);
 
       // Send confirmation
       this.sendMessage(clientId, {
@@ -128,45 +439,312 @@ export class WebSocketManager {
     }
   }
 
+  private async removeSubscription(clientId: string, userId: string): Promise<void> {
+    // Remove client from user's subscription list
+    const userSubs = this.userSubscriptions.get(userId);
+    if (userSubs) {
+      userSubs.delete(clientId);
+    }
+    const subscriptions = this.clientSubscriptions.get(clientId);
+    if (subscriptions) {
+      subscriptions.delete(userId);
+    }
+    await this.releaseUser(userId);
+  }
+
+  // Stop watching a user once no client is subscribed and no disconnected one may resume
+  private async releaseUser(userId: string): Promise<void> {
+    const userSubs = this.userSubscriptions.get(userId);
+    const retained = Array.from(this.detachedSessions.values()).some(session => session.subscriptions.has(userId));
+    if (userSubs && userSubs.size === 0 && !retained) {
+      this.userSubscriptions.delete(userId);
+      this.eventStreams.delete(userId);
+      await this.mongoManager.stopWatching(userId);
+    }
+  }
+
+  /**
+   * Restore the subscriptions a client had before it disconnected and send it
+   * the events it missed.
+   * @param clientId - Reconnected client
+   * @param resumeToken - Token the client was given when it first connected
+   * @param sequences - Last sequence the client saw for each user; defaults to the last one it was sent
+   */
+  private async handleResume(clientId: string, resumeToken: string, sequences?: { [userId: string]: number }): Promise<void> {
+    const identity = this.identities.get(clientId)!;
+    const session = this.detachedSessions.get(resumeToken);
+    if (!session || session.subject !== identity.subject) {
+      this.sendCodedError(clientId, new BillProMaxError('Resume token is unknown or has expired', 'RESUME_FAILED'));
+      return;
+    }
+    clearTimeout(session.timer);
+    this.detachedSessions.delete(resumeToken);
+
+    const userIds: string[] = [];
+    for (const [userId, subscription] of Array.from(session.subscriptions.entries())) {
+      if (!this.accessPolicy(identity, userId)) {
+        this.sendCodedError(clientId, new AuthorizationError(userId), userId);
+        continue;
+      }
+      const fromSequence = sequences && typeof sequences[userId] === 'number'
+        ? sequences[userId]
+        : subscription.sequence;
+      await this.handleUserSubscription(clientId, userId, subscription.payload, fromSequence);
+      userIds.push(userId);
+    }
+    for (const userId of Array.from(session.subscriptions.keys())) {
+      await this.releaseUser(userId);
+    }
+
+    this.totals.resumedSessions++;
+    this.sendMessage(clientId, {
+      type: 'resumed',
+      userIds,
+      timestamp: new Date()
+    });
+  }
+
+  private expireSession(resumeToken: string): void {
+    const session = this.detachedSessions.get(resumeToken);
+    if (!session) {
+      return;
+    }
+    clearTimeout(session.timer);
+    this.detachedSessions.delete(resumeToken);
+    Array.from(session.subscriptions.keys()).forEach(userId => this.releaseUser(userId).catch(console.error));
+  }
+
   private async handleGetUserData(clientId: string, userId: string): Promise<void> {
     try {
       const userData = await this.mongoManager.loadUserData(userId);
       if (userData) {
+        this.sendUserData(clientId, userId, userData);
+      } else {
+        this.sendError(clientId, 'User data not found');
+      }
+    } catch (error) {
+      console.error('Error getting user data:', error);
+      this.sendError(clientId, 'Failed to get user data');
+    }
+  }
+
+  /**
+   * Send a subscribed client the events after a sequence it has seen. When
+   * those events are no longer kept the client gets the whole data store
+   * instead, with the sequence it is current to.
+   * @param clientId - Client to catch up
+   * @param userId - User the client is subscribed to
+   * @param fromSequence - Last sequence the client has seen
+   */
+  private async handleResync(clientId: string, userId: string, fromSequence: number): Promise<void> {
+    try {
+      const userSubs = this.userSubscriptions.get(userId);
+      if (!userSubs || !userSubs.has(clientId)) {
+        this.sendError(clientId, `Not subscribed to user ${userId}`);
+        return;
+      }
+      if (typeof fromSequence !== 'number' || fromSequence < 0) {
+        this.sendError(clientId, 'fromSequence must be a non-negative number');
+        return;
+      }
+
+      const sequence = this.sequences.get(userId) ?? 0;
+      const stream = this.eventStreams.get(userId);
+      const history = stream ? stream.history : [];
+      const covered = fromSequence === sequence ||
+        (fromSequence < sequence && history.length > 0 && history[0].sequence <= fromSequence + 1);
+
+      const subscription = this.clientSubscriptions.get(clientId)!.get(userId)!;
+      if (covered) {
+        const missed = history.filter(event => event.sequence > fromSequence);
+        subscription.behind = !missed.every(event => this.sendMessage(clientId, this.formatEvent(event, subscription.payload)));
+        if (!subscription.behind) {
+          subscription.sequence = sequence;
+        }
         this.sendMessage(clientId, {
-          type: 'user_data',
+          type: 'resync_complete',
           userId,
-          data: userData,
+          fromSequence,
+          sequence,
           timestamp: new Date()
         });
-      } else {
+        return;
+      }
+
+      const userData = await this.mongoManager.loadUserData(userId);
+      if (!userData) {
         this.sendError(clientId, 'User data not found');
+        return;
+      }
+      // Publish anything newer first, so the sequence sent matches the data
+      this.publishChanges(userId, userData);
+      if (this.sendUserData(clientId, userId, userData)) {
+        subscription.sequence = this.sequences.get(userId) ?? 0;
+        subscription.behind = false;
       }
     } catch (error) {
-      console.error('Error getting user data:', error);
-      this.sendError(clientId, 'Failed to get user data');
+      console.error('Error resyncing client:', error);
+      this.sendError(clientId, 'Failed to resync user data');
     }
   }
 
-  private broadcastToUser(userId: string, message: any): void {
+  /**
+   * Compare a user's data against what was last seen and send subscribers an
+   * event for each record created, updated or deleted since.
+   * @param userId - User the data belongs to
+   * @param userData - User's current data
+   */
+  private publishChanges(userId: string, userData: UserDataStore): void {
+    // A change stream can still report after the last client left
+    if (!this.userSubscriptions.has(userId)) {
+      return;
+    }
+
+    const lastSync = new Date(userData.lastSync).getTime();
+    const stream = this.eventStreams.get(userId);
+
+    if (!stream) {
+      const trackers = new Map<UserDataEntity, ChangeTracker<any>>();
+      USER_DATA_ENTITIES.forEach(entity => {
+        trackers.set(entity, new ChangeTracker<any>(item => getEntityKey(entity, item), userData[entity] || []));
+      });
+      this.eventStreams.set(userId, {
+        user: JSON.stringify(userData.user),
+        trackers,
+        lastSync,
+        history: []
+      });
+      // Changes made while nobody watched were not published, so leave a gap for earlier clients to notice
+      if (this.sequences.has(userId)) {
+        this.sequences.set(userId, this.sequences.get(userId)! + 1);
+      }
+      return;
+    }
+
+    // Loads can finish out of order; ignore data older than what was published
+    if (lastSync < stream.lastSync) {
+      return;
+    }
+    stream.lastSync = lastSync;
+
+    const timestamp = new Date();
+    const events: EntityChangeEvent[] = [];
+    const addEvent = (entity: UserDataEntity | 'user', key: string, action: EntityEventAction, details: Partial<EntityChangeEvent>) => {
+      const subject = entity === 'user' ? 'user' : ENTITY_EVENT_SUBJECTS[entity];
+      const sequence = (this.sequences.get(userId) ?? 0) + 1;
+      this.sequences.set(userId, sequence);
+      events.push({ type: `${subject}.${action}`, userId, sequence, entity, key, ...details, timestamp });
+    };
+
+    const user = JSON.stringify(userData.user);
+    if (user !== stream.user) {
+      const data = JSON.parse(user);
+      addEvent('user', userId, 'updated', { data, patch: createJsonPatch(JSON.parse(stream.user), data) });
+      stream.user = user;
+    }
+
+    USER_DATA_ENTITIES.forEach(entity => {
+      const tracker = stream.trackers.get(entity)!;
+      const changes = tracker.getChanges(userData[entity] || []);
+      tracker.markSynced();
+
+      changes.created.forEach(item => {
+        addEvent(entity, getEntityKey(entity, item), 'created', { data: JSON.parse(JSON.stringify(item)) });
+      });
+      changes.updated.forEach(item => {
+        const key = getEntityKey(entity, item);
+        const previous = changes.previous![key];
+        const data = JSON.parse(JSON.stringify(item));
+        const patch = createJsonPatch(previous, data);
+        if ('status' in data && data.status !== previous.status) {
+          addEvent(entity, key, 'status_changed', { data, patch, status: { from: previous.status, to: data.status } });
+        } else {
+          addEvent(entity, key, 'updated', { data, patch });
+        }
+      });
+      changes.deleted.forEach(key => addEvent(entity, key, 'deleted', {}));
+    });
+
+    stream.history.push(...events);
+    if (stream.history.length > this.eventHistoryLimit) {
+      stream.history.splice(0, stream.history.length - this.eventHistoryLimit);
+    }
+
+    events.forEach(event => this.broadcastEvent(userId, event));
+  }
+
+  private broadcastEvent(userId: string, event: EntityChangeEvent): void {
     const userSubs = this.userSubscriptions.get(userId);
     if (userSubs) {
-      userSubs.forEach(clientId => {
-        const client = this.clients.get(clientId);
-        if (client && client.readyState === WebSocket.OPEN) {
-          this.sendMessage(clientId, message);
+      Array.from(userSubs).forEach(clientId => {
+        const subscription = this.clientSubscriptions.get(clientId)!.get(userId)!;
+        if (!this.sendMessage(clientId, this.formatEvent(event, subscription.payload))) {
+          subscription.behind = true;
+        } else if (!subscription.behind) {
+          subscription.sequence = event.sequence;
         }
       });
     }
   }
 
-  private sendMessage(clientId: string, message: any): void {
+  // Leave out the form of an updated record the client did not ask for
+  private formatEvent(event: EntityChangeEvent, payload: EntityEventPayload): EntityChangeEvent {
+    if (!event.patch) {
+      return event;
+    }
+    const { data, patch, ...rest } = event;
+    return payload === 'patch' ? { ...rest, patch } : { ...rest, data };
+  }
+
+  private sendUserData(clientId: string, userId: string, userData: UserDataStore): boolean {
+    return this.sendMessage(clientId, {
+      type: 'user_data',
+      userId,
+      data: userData,
+      sequence: this.sequences.get(userId) ?? 0,
+      timestamp: new Date()
+    });
+  }
+
+  /**
+   * Send a message unless the client is too far behind, in which case the
+   * slow client policy applies
+   * @param clientId - Client to send to
+   * @param message - Message to send
+   * @returns Whether the message was sent
+   */
+  private sendMessage(clientId: string, message: any): boolean {
     const client = this.clients.get(clientId);
-    if (client && client.readyState === WebSocket.OPEN) {
-      try {
-        client.send(JSON.stringify(message));
-      } catch (error) {
-        console.error('Error sending message to client:', error);
+    if (!client || client.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    const state = this.clientStates.get(clientId);
+    if (state && client.bufferedAmount > this.maxBufferedBytes) {
+      if (this.slowClientPolicy === 'disconnect') {
+        console.log(`Disconnecting slow client: ${clientId}`);
+        this.totals.slowClientDisconnects++;
+        client.terminate();
+        this.handleClientDisconnect(clientId);
+      } else {
+        state.droppedMessages++;
+        state.unreportedDrops++;
+        this.totals.droppedMessages++;
       }
+      return false;
+    }
+
+    try {
+      // Tell a client that caught up what it missed, so it can resync
+      if (state && state.unreportedDrops > 0) {
+        client.send(JSON.stringify({ type: 'messages_dropped', count: state.unreportedDrops, timestamp: new Date() }));
+        state.unreportedDrops = 0;
+      }
+      client.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.error('Error sending message to client:', error);
+      return false;
     }
   }
 
@@ -178,23 +756,81 @@ export class WebSocketManager {
     });
   }
 
+  // Errors with a code clients can act on
+  private sendCodedError(clientId: string, error: BillProMaxError, userId?: string): void {
+    this.sendMessage(clientId, {
+      type: 'error',
+      code: error.code,
+      message: error.message,
+      userId,
+      timestamp: new Date()
+    });
+  }
+
   private handleClientDisconnect(clientId: string): void {
+    // Closing a client ourselves is followed by its close event
+    if (!this.clients.has(clientId)) {
+      return;
+    }
+
+    // Keep the client's subscriptions for a while, so it can resume them after reconnecting
+    const identity = this.identities.get(clientId);
+    const subscriptions = this.clientSubscriptions.get(clientId);
+    const state = this.clientStates.get(clientId);
+    if (identity && subscriptions && subscriptions.size > 0 && state && this.resumeTtlMs > 0) {
+      const resumeToken = state.resumeToken;
+      this.detachedSessions.set(resumeToken, {
+        subject: identity.subject,
+        subscriptions,
+        timer: setTimeout(() => this.expireSession(resumeToken), this.resumeTtlMs)
+      });
+    }
+
     // Remove client from all user subscriptions
     for (const [userId, userSubs] of Array.from(this.userSubscriptions.entries())) {
-      userSubs.delete(clientId);
-      
-      // If no more clients are subscribed to this user, stop watching
-      if (userSubs.size === 0) {
-        this.mongoManager.stopWatching(userId).catch(console.error);
-        this.userSubscriptions.delete(userId);
+      if (userSubs.delete(clientId)) {
+        // If no more clients are subscribed to this user, stop watching
+        this.releaseUser(userId).catch(console.error);
       }
     }
 
     // Remove client
     this.clients.delete(clientId);
+    this.clientSubscriptions.delete(clientId);
+    this.clientStates.delete(clientId);
+    this.identities.delete(clientId);
+    this.pendingAuth.delete(clientId);
+    this.clearAuthTimer(clientId);
     console.log(`Client disconnected: ${clientId}`);
   }
 
+  private markSeen(clientId: string): void {
+    const state = this.clientStates.get(clientId);
+    if (state) {
+      state.lastSeenAt = Date.now();
+    }
+  }
+
+  // Disconnect clients that have gone quiet for too long and ping the rest
+  private checkHeartbeats(): void {
+    const now = Date.now();
+    Array.from(this.clients.entries()).forEach(([clientId, client]) => {
+      const state = this.clientStates.get(clientId);
+      if (state && now - state.lastSeenAt > this.heartbeatTimeoutMs) {
+        console.log(`Client stopped responding: ${clientId}`);
+        this.totals.heartbeatTimeouts++;
+        client.terminate();
+        this.handleClientDisconnect(clientId);
+      } else if (client.readyState === WebSocket.OPEN) {
+        try {
+          client.ping();
+        } catch (error) {
+          console.error('Error pinging client:', error);
+        }
+      }
+    });
+  }
+
   private generateClientId(): string {
     return `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -208,13 +844,47 @@ export class WebSocketManager {
     await this.mongoManager.disconnect();
   }
 
+  // Stop heartbeats, disconnect every client and close the server
+  async close(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    Array.from(this.clients.entries()).forEach(([clientId, client]) => {
+      client.terminate();
+      this.handleClientDisconnect(clientId);
+    });
+    Array.from(this.detachedSessions.keys()).forEach(resumeToken => this.expireSession(resumeToken));
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+  }
+
   // Get connection statistics
-  getConnectionStats() {
+  getConnectionStats(): WebSocketConnectionStats {
+    const clients = Array.from(this.clients.entries()).map(([clientId, client]) => {
+      const state = this.clientStates.get(clientId)!;
+      const identity = this.identities.get(clientId);
+      const subscriptions = this.clientSubscriptions.get(clientId);
+      return {
+        clientId,
+        subject: identity ? identity.subject : undefined,
+        userIds: subscriptions ? Array.from(subscriptions.keys()) : [],
+        connectedAt: state.connectedAt,
+        lastSeenAt: new Date(state.lastSeenAt),
+        bufferedBytes: client.bufferedAmount,
+        droppedMessages: state.droppedMessages
+      };
+    });
+
     return {
       totalClients: this.clients.size,
+      authenticatedClients: this.identities.size,
       totalUserSubscriptions: this.userSubscriptions.size,
       mongoConnected: this.mongoManager.isConnectedToMongo(),
-      activeChangeStreams: this.mongoManager.getActiveChangeStreamsCount()
+      activeChangeStreams: this.mongoManager.getActiveChangeStreamsCount(),
+      resumableSessions: this.detachedSessions.size,
+      slowClients: clients.filter(client => client.bufferedBytes > this.maxBufferedBytes).length,
+      ...this.totals,
+      clients
     };
   }
 
@@ -0,0 +1,281 @@
+// Conformance checks every CloudStorageManager adapter is expected to pass
+import {
+  CloudStorageManager,
+  StorageConformanceCheck,
+  StorageConformanceOptions,
+  StorageConformanceReport,
+  UserDataStore
+} from '../types';
+
+function sampleUserData(userId: string): UserDataStore {
+  const created = new Date('2025-04-01T09:30:00.000Z');
+  return {
+    user: {
+      id: userId,
+      email: `${userId}@example.com`,
+      businessName: 'Conformance Rentals',
+      createdAt: created,
+      updatedAt: created,
+      billingConfig: {
+        currency: 'INR',
+        defaultTaxRate: 0.18,
+        defaultDiscountRate: 0,
+        roundingPrecision: 2,
+        billingCycle: { type: 'fortnightly', anchorDate: created }
+      }
+    },
+    inventory: [{ id: 'item_1', name: 'Steel plate', dailyRate: 2.5, unit: 'piece', isActive: true }],
+    customers: [{ id: 'customer_1', name: 'Acme Builders', taxExempt: false, isActive: true }],
+    challans: [{
+      id: 'challan_1',
+      challanNumber: 'CH/25-26/0001',
+      challanType: 'issue',
+      customerId: 'customer_1',
+      customerName: 'Acme Builders',
+      challanDate: created,
+      expectedReturnDate: new Date('2025-04-30T00:00:00.000Z'),
+      items: [{ itemId: 'item_1', itemName: 'Steel plate', quantity: 100, dailyRate: 2.5 }],
+      totalAmount: 250,
+      status: 'delivered',
+      createdAt: created,
+      updatedAt: created
+    }],
+    deliveries: [],
+    payments: [],
+    billingCalculations: [],
+    lastSync: created
+  };
+}
+
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// Wait until check() holds, polling every 50 ms
+async function waitFor(check: () => boolean, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (check()) {
+      return true;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  return check();
+}
+
+/**
+ * Run the storage conformance checks against an adapter.
+ * The adapter is connected and disconnected by the suite; the users it writes
+ * are deleted again afterwards.
+ * @param storage - Adapter to check, not yet connected
+ * @param options - Which checks to run and how long to wait for watched changes
+ * @returns Result of every check
+ */
+export async function runStorageConformanceSuite(
+  storage: CloudStorageManager,
+  options: StorageConformanceOptions = {}
+): Promise<StorageConformanceReport> {
+  const prefix = options.userIdPrefix || 'conformance';
+  const runId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const userA = `${prefix}_a_${runId}`;
+  const userB = `${prefix}_b_${runId}`;
+  const watchTimeoutMs = options.watchTimeoutMs || 5000;
+  const checks: StorageConformanceCheck[] = [];
+
+  const check = async (name: string, run: () => Promise<void>) => {
+    try {
+      await run();
+      checks.push({ name, passed: true });
+    } catch (error) {
+      checks.push({ name, passed: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  await check('rejects operations before connect', async () => {
+    let rejected = false;
+    try {
+      await storage.loadUserData(userA);
+    } catch (error) {
+      rejected = true;
+    }
+    assert(rejected, 'loadUserData succeeded before connect');
+  });
+
+  await check('connects', () => storage.connect());
+
+  await check('returns null for a user with no data', async () => {
+    assert(await storage.loadUserData(userA) === null, 'expected null');
+  });
+
+  await check('saves and loads user data with dates restored', async () => {
+    const result = await storage.saveUserData(userA, sampleUserData(userA));
+    assert(result.success, 'saveUserData did not report success');
+    assert(result.recordsUpdated >= 1, 'saveUserData reported no records updated');
+
+    const loaded = await storage.loadUserData(userA);
+    assert(!!loaded, 'saved data could not be loaded');
+    const challan = loaded!.challans[0];
+    assert(loaded!.user.id === userA, 'user ID changed');
+    assert(loaded!.inventory[0].dailyRate === 2.5, 'inventory changed');
+    assert(challan && challan.items[0].quantity === 100, 'challan items changed');
+    assert(challan.challanDate instanceof Date, 'challanDate is not a Date');
+    assert(challan.challanDate.toISOString() === '2025-04-01T09:30:00.000Z', 'challanDate changed');
+    assert(challan.expectedReturnDate instanceof Date, 'expectedReturnDate is not a Date');
+    assert(loaded!.user.createdAt instanceof Date, 'user createdAt is not a Date');
+    assert(loaded!.lastSync instanceof Date, 'lastSync is not a Date');
+    const cycle = loaded!.user.billingConfig.billingCycle;
+    assert(!!cycle && cycle.anchorDate instanceof Date, 'billing cycle anchorDate is not a Date');
+  });
+
+  await check('replaces data on a second save', async () => {
+    const data = sampleUserData(userA);
+    data.customers = [];
+    await storage.saveUserData(userA, data);
+    const loaded = await storage.loadUserData(userA);
+    assert(!!loaded && loaded.customers.length === 0, 'second save did not replace the data');
+  });
+
+  await check('updates only the fields given', async () => {
+    await storage.saveUserData(userA, sampleUserData(userA));
+    const before = await storage.loadUserData(userA);
+    const result = await storage.updateUserData(userA, { customers: [] });
+    assert(result.success, 'updateUserData did not report success');
+    assert(result.recordsUpdated === 1, `expected 1 record updated, got ${result.recordsUpdated}`);
+
+    const loaded = await storage.loadUserData(userA);
+    assert(!!loaded && loaded.customers.length === 0, 'updated field was not written');
+    assert(loaded!.challans.length === 1 && loaded!.inventory.length === 1, 'other fields were lost');
+    assert(loaded!.challans[0].challanDate instanceof Date, 'dates were not restored after an update');
+    assert(loaded!.lastSync.getTime() >= before!.lastSync.getTime(), 'lastSync went backwards');
+  });
+
+  await check('applies record-level changes', async () => {
+    await storage.saveUserData(userA, sampleUserData(userA));
+    const sample = sampleUserData(userA);
+    const result = await storage.updateUserData(userA, {}, {
+      inventory: {
+        created: [{ id: 'item_2', name: 'Prop', dailyRate: 1, unit: 'piece', isActive: true }],
+        updated: [{ ...sample.inventory[0], dailyRate: 3 }],
+        deleted: []
+      },
+      customers: { created: [], updated: [], deleted: ['customer_1'] }
+    });
+    assert(result.recordsUpdated === 3, `expected 3 records updated, got ${result.recordsUpdated}`);
+
+    const loaded = await storage.loadUserData(userA);
+    assert(!!loaded, 'data could not be loaded after the changes');
+    assert(loaded!.inventory.map(i => i.id).join() === 'item_1,item_2', 'records were not created in place');
+    assert(loaded!.inventory[0].dailyRate === 3, 'updated record was not written');
+    assert(loaded!.customers.length === 0, 'deleted record is still there');
+    assert(loaded!.challans.length === 1, 'unchanged records were lost');
+
+    // Put the sample back for the checks that follow
+    await storage.saveUserData(userA, sample);
+  });
+
+  await check('refuses changes made from an old version', async () => {
+    await storage.saveUserData(userA, sampleUserData(userA));
+    const loaded = await storage.loadUserData(userA);
+    const versions = loaded!.recordVersions && loaded!.recordVersions.inventory;
+    assert(!!versions && !!versions.item_1, 'loaded data has no record versions');
+    const base = versions!.item_1.version;
+    const item = loaded!.inventory[0];
+
+    const first = await storage.updateUserData(userA, {}, {
+      inventory: { created: [], updated: [{ ...item, dailyRate: 4 }], deleted: [], baseVersions: { item_1: base } }
+    });
+    assert(first.recordsUpdated === 1 && (first.conflicts || []).length === 0, 'change from the current version was refused');
+
+    const second = await storage.updateUserData(userA, {}, {
+      inventory: { created: [], updated: [{ ...item, dailyRate: 5 }], deleted: [], baseVersions: { item_1: base } }
+    });
+    const conflicts = second.conflicts || [];
+    assert(second.recordsUpdated === 0 && conflicts.length === 1, 'change from an old version was not refused');
+    assert(conflicts[0].key === 'item_1' && conflicts[0].current.dailyRate === 4, 'conflict does not show the stored record');
+    assert(!!conflicts[0].currentVersion && conflicts[0].currentVersion.version > base, 'stored version was not raised');
+
+    const created = await storage.updateUserData(userA, {}, {
+      inventory: { created: [{ ...item, dailyRate: 6 }], updated: [], deleted: [], baseVersions: { item_1: 0 } }
+    });
+    assert((created.conflicts || []).length === 1, 'creating a record that exists was not refused');
+
+    const after = await storage.loadUserData(userA);
+    assert(after!.inventory[0].dailyRate === 4, 'a refused change was written');
+    await storage.saveUserData(userA, sampleUserData(userA));
+  });
+
+  await check('does not create a user on update', async () => {
+    const result = await storage.updateUserData(userB, { customers: [] }, {
+      customers: { created: sampleUserData(userB).customers, updated: [], deleted: [] }
+    });
+    assert(result.recordsUpdated === 0, `expected 0 records updated, got ${result.recordsUpdated}`);
+    assert(await storage.loadUserData(userB) === null, 'update created the user');
+  });
+
+  await check('keeps users apart', async () => {
+    await storage.saveUserData(userB, { ...sampleUserData(userB), inventory: [] });
+    const a = await storage.loadUserData(userA);
+    const b = await storage.loadUserData(userB);
+    assert(!!a && a.user.id === userA && a.inventory.length === 1, 'first user changed');
+    assert(!!b && b.user.id === userB && b.inventory.length === 0, 'second user not saved separately');
+  });
+
+  if (options.watch !== false) {
+    await check('notifies watchers of changes until stopped', async () => {
+      const seen: UserDataStore[] = [];
+      await storage.watchUserData(userA, data => seen.push(data));
+      try {
+        // Let pollers take their first look before changing anything
+        await new Promise(resolve => setTimeout(resolve, 100));
+        await storage.updateUserData(userA, { customers: sampleUserData(userA).customers });
+        assert(await waitFor(() => seen.length > 0, watchTimeoutMs), 'no change was reported');
+        const latest = seen[seen.length - 1];
+        assert(latest.user.id === userA && latest.customers.length === 1, 'watcher got stale or wrong data');
+        assert(latest.challans[0].challanDate instanceof Date, 'watcher data has no dates restored');
+      } finally {
+        await storage.stopWatching(userA);
+      }
+
+      const count = seen.length;
+      await storage.updateUserData(userA, { customers: [] });
+      await waitFor(() => seen.length > count, Math.min(watchTimeoutMs, 2000));
+      assert(seen.length === count, 'changes were reported after stopWatching');
+    });
+
+    await check('does not report changes to other users', async () => {
+      const seen: UserDataStore[] = [];
+      await storage.watchUserData(userA, data => seen.push(data));
+      try {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        await storage.updateUserData(userB, { customers: [] });
+        await waitFor(() => seen.length > 0, Math.min(watchTimeoutMs, 2000));
+        assert(seen.length === 0, 'a change to another user was reported');
+      } finally {
+        await storage.stopWatching(userA);
+      }
+    });
+  }
+
+  await check('deletes user data', async () => {
+    assert(await storage.deleteUserData(userA), 'deleteUserData returned false for an existing user');
+    assert(await storage.loadUserData(userA) === null, 'deleted data could still be loaded');
+    assert(!(await storage.deleteUserData(userA)), 'deleteUserData returned true for a missing user');
+  });
+
+  // Clean up whatever earlier failures left behind
+  try {
+    await storage.deleteUserData(userA);
+    await storage.deleteUserData(userB);
+  } catch (error) {
+    // Not connected; nothing was written
+  }
+
+  await check('disconnects', () => storage.disconnect());
+
+  return {
+    passed: checks.every(c => c.passed),
+    checks
+  };
+}
@@ -0,0 +1,370 @@
+// Turns stored user data back into a UserDataStore. Storage keeps dates as
+// strings or driver-specific values, so every date field is rebuilt.
+import {
+  BillingCycle,
+  OutboxEntry,
+  RecordVersion,
+  RecordVersions,
+  SyncResult,
+  User,
+  UserDataChanges,
+  UserDataEntity,
+  UserDataStore,
+  WriteConflict
+} from '../types';
+
+function reviveBillingCycle(cycle: any): BillingCycle | undefined {
+  return cycle && {
+    ...cycle,
+    anchorDate: cycle.anchorDate ? new Date(cycle.anchorDate) : undefined
+  };
+}
+
+const ENTITY_REVIVERS: Record<UserDataEntity, (item: any) => any> = {
+  inventory: item => item,
+  customers: (customer: any) => ({
+    ...customer,
+    billingCycle: reviveBillingCycle(customer.billingCycle),
+    sites: customer.sites && customer.sites.map((site: any) => ({
+      ...site,
+      openingDate: new Date(site.openingDate),
+      closingDate: site.closingDate ? new Date(site.closingDate) : undefined
+    }))
+  }),
+  challans: (challan: any) => ({
+    ...challan,
+    challanDate: new Date(challan.challanDate),
+    expectedReturnDate: challan.expectedReturnDate ? new Date(challan.expectedReturnDate) : undefined,
+    createdAt: new Date(challan.createdAt),
+    updatedAt: new Date(challan.updatedAt)
+  }),
+  deliveries: (delivery: any) => ({
+    ...delivery,
+    deliveryDate: new Date(delivery.deliveryDate),
+    createdAt: new Date(delivery.createdAt),
+    updatedAt: new Date(delivery.updatedAt)
+  }),
+  payments: (payment: any) => ({
+    ...payment,
+    paymentDate: new Date(payment.paymentDate),
+    allocations: payment.allocations && payment.allocations.map((allocation: any) => ({
+      ...allocation,
+      allocatedAt: new Date(allocation.allocatedAt)
+    })),
+    createdAt: new Date(payment.createdAt),
+    updatedAt: new Date(payment.updatedAt)
+  }),
+  billingCalculations: (calc: any) => ({
+    ...calc,
+    billingPeriod: calc.billingPeriod && {
+      ...calc.billingPeriod,
+      startDate: new Date(calc.billingPeriod.startDate),
+      endDate: new Date(calc.billingPeriod.endDate)
+    },
+    calculatedAt: new Date(calc.calculatedAt)
+  }),
+  rateCards: (card: any) => ({
+    ...card,
+    validFrom: card.validFrom ? new Date(card.validFrom) : undefined,
+    validTo: card.validTo ? new Date(card.validTo) : undefined,
+    rates: (card.rates || []).map((rate: any) => ({
+      ...rate,
+      validFrom: rate.validFrom ? new Date(rate.validFrom) : undefined,
+      validTo: rate.validTo ? new Date(rate.validTo) : undefined
+    })),
+    createdAt: new Date(card.createdAt),
+    updatedAt: new Date(card.updatedAt)
+  }),
+  accountEntries: (entry: any) => ({
+    ...entry,
+    entryDate: new Date(entry.entryDate),
+    createdAt: new Date(entry.createdAt)
+  }),
+  deposits: (deposit: any) => ({
+    ...deposit,
+    transactions: (deposit.transactions || []).map((transaction: any) => ({
+      ...transaction,
+      transactionDate: new Date(transaction.transactionDate),
+      createdAt: new Date(transaction.createdAt)
+    })),
+    openedAt: new Date(deposit.openedAt),
+    closedAt: deposit.closedAt ? new Date(deposit.closedAt) : undefined,
+    createdAt: new Date(deposit.createdAt),
+    updatedAt: new Date(deposit.updatedAt)
+  }),
+  damageAssessments: (assessment: any) => ({
+    ...assessment,
+    assessmentDate: new Date(assessment.assessmentDate),
+    createdAt: new Date(assessment.createdAt),
+    updatedAt: new Date(assessment.updatedAt)
+  }),
+  billingRuns: (run: any) => ({
+    ...run,
+    runDate: new Date(run.runDate),
+    invoices: (run.invoices || []).map((invoice: any) => ({
+      ...invoice,
+      cycleStart: new Date(invoice.cycleStart),
+      cycleEnd: new Date(invoice.cycleEnd),
+      periodStart: new Date(invoice.periodStart),
+      periodEnd: new Date(invoice.periodEnd)
+    })),
+    createdAt: new Date(run.createdAt)
+  }),
+  invoices: (invoice: any) => ({
+    ...invoice,
+    invoiceDate: new Date(invoice.invoiceDate),
+    billing: {
+      ...invoice.billing,
+      billingPeriod: {
+        ...invoice.billing.billingPeriod,
+        startDate: new Date(invoice.billing.billingPeriod.startDate),
+        endDate: new Date(invoice.billing.billingPeriod.endDate)
+      },
+      calculatedAt: new Date(invoice.billing.calculatedAt)
+    },
+    dueDate: new Date(invoice.dueDate),
+    finalizedAt: new Date(invoice.finalizedAt)
+  }),
+  invoiceNotes: (note: any) => ({
+    ...note,
+    noteDate: new Date(note.noteDate),
+    createdAt: new Date(note.createdAt)
+  }),
+  lateFeePolicies: (policy: any) => ({
+    ...policy,
+    createdAt: new Date(policy.createdAt),
+    updatedAt: new Date(policy.updatedAt)
+  }),
+  lateFeeCharges: (charge: any) => ({
+    ...charge,
+    dueDate: new Date(charge.dueDate),
+    assessedThrough: new Date(charge.assessedThrough),
+    createdAt: new Date(charge.createdAt)
+  }),
+  reminders: (reminder: any) => ({
+    ...reminder,
+    sentAt: new Date(reminder.sentAt)
+  }),
+  documentCounters: (counter: any) => ({
+    ...counter,
+    updatedAt: new Date(counter.updatedAt)
+  })
+};
+
+// Entity lists of a UserDataStore, in the order they are stored
+export const USER_DATA_ENTITIES = Object.keys(ENTITY_REVIVERS) as UserDataEntity[];
+
+/**
+ * Rebuild one stored record of an entity list
+ * @param entity - Entity list the record belongs to
+ * @param item - Stored record
+ * @returns Record with its dates restored
+ */
+export function reviveEntity(entity: UserDataEntity, item: any): any {
+  return ENTITY_REVIVERS[entity](item);
+}
+
+/**
+ * Rebuild the stored user profile and billing settings
+ * @param user - Stored user
+ * @returns User with its dates restored
+ */
+export function reviveUser(user: any): User {
+  return {
+    ...user,
+    billingConfig: {
+      ...user.billingConfig,
+      billingCycle: reviveBillingCycle(user.billingConfig && user.billingConfig.billingCycle)
+    },
+    createdAt: new Date(user.createdAt),
+    updatedAt: new Date(user.updatedAt)
+  };
+}
+
+/**
+ * Get the key a record is stored under within its entity list
+ * @param entity - Entity list the record belongs to
+ * @param item - Record
+ * @returns Record ID; counters are keyed by series and financial year, billing calculations by order
+ */
+export function getEntityKey(entity: UserDataEntity, item: any): string {
+  if (entity === 'documentCounters') {
+    return `${item.series}:${item.financialYear}`;
+  }
+  if (entity === 'billingCalculations') {
+    return item.orderId;
+  }
+  return item.id;
+}
+
+// Version a stored record has; records stored before versions were kept count as version 1
+function getStoredVersion(doc: any, entity: UserDataEntity, key: string, exists: boolean): number {
+  const versions = doc.recordVersions && doc.recordVersions[entity];
+  const version = versions && versions[key];
+  return version ? version.version : exists ? 1 : 0;
+}
+
+function setStoredVersion(doc: any, entity: UserDataEntity, key: string, version: RecordVersion | undefined): void {
+  doc.recordVersions = doc.recordVersions || {};
+  doc.recordVersions[entity] = doc.recordVersions[entity] || {};
+  if (version) {
+    doc.recordVersions[entity][key] = version;
+  } else {
+    delete doc.recordVersions[entity][key];
+  }
+}
+
+/**
+ * Give every record of stored user data its version, raising the version of
+ * records that are new or differ from the previously stored data
+ * @param previous - User data stored before, or null for a new user
+ * @param doc - User data about to be stored, updated in place
+ * @param now - Time of the write
+ */
+export function stampRecordVersions(previous: any | null, doc: any, now: Date): void {
+  const stamped: RecordVersions = {};
+  USER_DATA_ENTITIES.forEach(entity => {
+    const before = new Map<string, any>();
+    ((previous && previous[entity]) || []).forEach((item: any) => before.set(getEntityKey(entity, item), item));
+
+    const versions: { [key: string]: RecordVersion } = {};
+    (doc[entity] || []).forEach((item: any) => {
+      const key = getEntityKey(entity, item);
+      const old = before.get(key);
+      const oldVersion = previous ? getStoredVersion(previous, entity, key, old !== undefined) : 0;
+      const kept = old !== undefined && previous.recordVersions && previous.recordVersions[entity] &&
+        previous.recordVersions[entity][key];
+      versions[key] = kept && JSON.stringify(old) === JSON.stringify(item)
+        ? kept
+        : { version: oldVersion + 1, updatedAt: now };
+    });
+    stamped[entity] = versions;
+  });
+  doc.recordVersions = stamped;
+}
+
+/**
+ * Apply record-level changes to stored user data in place. Changes with a base
+ * version are only applied while the stored record is still at that version.
+ * @param doc - Stored user data, with versions stamped
+ * @param changes - Records created, updated or deleted, by entity list
+ * @param now - Time of the write
+ * @returns Number of records written or deleted, their new versions and the changes refused
+ */
+export function applyUserDataChanges(
+  doc: any,
+  changes: UserDataChanges,
+  now: Date
+): Required<Pick<SyncResult, 'recordsUpdated' | 'versions' | 'conflicts'>> {
+  const result = { recordsUpdated: 0, versions: {} as RecordVersions, conflicts: [] as WriteConflict[] };
+
+  USER_DATA_ENTITIES.forEach(entity => {
+    const entityChanges = changes[entity];
+    if (!entityChanges) {
+      return;
+    }
+
+    const items: any[] = [...(doc[entity] || [])];
+    const baseVersions = entityChanges.baseVersions || {};
+    const versions: { [key: string]: RecordVersion } = {};
+
+    // Refuse a change whose record is no longer at the version it was made from
+    const conflicts = (key: string, index: number): boolean => {
+      const stored = getStoredVersion(doc, entity, key, index !== -1);
+      if (baseVersions[key] === undefined || baseVersions[key] === stored) {
+        return false;
+      }
+      result.conflicts.push({
+        entity,
+        key,
+        baseVersion: baseVersions[key],
+        current: index !== -1 ? reviveEntity(entity, JSON.parse(JSON.stringify(items[index]))) : undefined,
+        currentVersion: index !== -1 ? reviveRecordVersion(doc.recordVersions[entity][key]) : undefined
+      });
+      return true;
+    };
+
+    const upserts: any[] = [...entityChanges.created, ...entityChanges.updated];
+    upserts.forEach(item => {
+      const key = getEntityKey(entity, item);
+      const index = items.findIndex(existing => getEntityKey(entity, existing) === key);
+      if (conflicts(key, index)) {
+        return;
+      }
+      if (index === -1) {
+        items.push(item);
+      } else {
+        items[index] = item;
+      }
+      versions[key] = { version: getStoredVersion(doc, entity, key, index !== -1) + 1, updatedAt: now };
+      setStoredVersion(doc, entity, key, versions[key]);
+      result.recordsUpdated++;
+    });
+
+    entityChanges.deleted.forEach(key => {
+      const index = items.findIndex(existing => getEntityKey(entity, existing) === key);
+      if (index === -1 || conflicts(key, index)) {
+        return;
+      }
+      items.splice(index, 1);
+      setStoredVersion(doc, entity, key, undefined);
+      result.recordsUpdated++;
+    });
+
+    doc[entity] = items;
+    result.versions[entity] = versions;
+  });
+
+  return result;
+}
+
+function reviveRecordVersion(version: any): RecordVersion {
+  return { version: version.version, updatedAt: new Date(version.updatedAt) };
+}
+
+/**
+ * Rebuild a UserDataStore from a stored document, such as a MongoDB document or parsed JSON
+ * @param doc - Stored user data
+ * @returns User data with its dates restored
+ */
+export function reviveUserDataStore(doc: any): UserDataStore {
+  const store: any = {
+    user: reviveUser(doc.user),
+    lastSync: new Date(doc.lastSync)
+  };
+  USER_DATA_ENTITIES.forEach(entity => {
+    store[entity] = (doc[entity] || []).map(ENTITY_REVIVERS[entity]);
+  });
+  if (doc.recordVersions) {
+    const versions: any = {};
+    Object.keys(doc.recordVersions).forEach(entity => {
+      versions[entity] = {};
+      Object.keys(doc.recordVersions[entity]).forEach(key => {
+        versions[entity][key] = reviveRecordVersion(doc.recordVersions[entity][key]);
+      });
+    });
+    store.recordVersions = versions;
+  }
+  return store;
+}
+
+/**
+ * Rebuild an outbox entry kept as JSON
+ * @param entry - Stored outbox entry
+ * @returns Entry with its records' dates restored
+ */
+export function reviveOutboxEntry(entry: any): OutboxEntry {
+  const revive = (record: any) => record && (entry.entity === 'user' ? reviveUser(record) : reviveEntity(entry.entity, record));
+  return {
+    ...entry,
+    record: revive(entry.record),
+    queuedAt: new Date(entry.queuedAt),
+    conflict: entry.conflict && {
+      ...entry.conflict,
+      local: revive(entry.conflict.local),
+      remote: revive(entry.conflict.remote),
+      localChangedAt: new Date(entry.conflict.localChangedAt),
+      remoteVersion: entry.conflict.remoteVersion && reviveRecordVersion(entry.conflict.remoteVersion)
+    }
+  };
+}
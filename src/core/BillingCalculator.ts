@@ -8,44 +8,199 @@ import {
   TaxConfig, 
   DiscountConfig, 
   BillingConfig, 
-  CalculationOptions 
+  CalculationOptions,
+  DailyRentalBalance,
+  RunningBalanceBilling,
+  RentalItem,
+  RateSlab,
+  RateSlabs,
+  RateResolver,
+  CalculationMethod,
+  DamageAssessment,
+  LateFeePolicy,
+  LateFeeCharge
 } from '../types';
-import { calculateDaysBetween, calculateBillingPeriod } from '../utils/dateUtils';
+import { RentalLedger } from './RentalLedger';
+import {
+  calculateDaysBetween,
+  calculateBillingPeriod,
+  formatDate,
+  startOfDay,
+  addDays
+} from '../utils/dateUtils';
 import { 
   roundTo, 
   calculateTax, 
   calculateDiscount, 
   addWithPrecision 
 } from '../utils/mathUtils';
+import { priceRentalWithSlabs } from '../utils/rateUtils';
+import { calculateLateFee } from '../utils/lateFeeUtils';
+
+// Units of an item issued on one day and returned together
+interface StockHolding {
+  balance: DailyRentalBalance; // Balance of the day the units were issued, for the item and rate
+  units: number;
+  issuedOn: Date;
+  returnedOn?: Date; // Undefined while the units are still out
+}
 
 /**
  * Main class for handling billing calculations
  */
 export class BillingCalculator {
   private config: BillingConfig;
+  private rateResolver?: RateResolver;
+  private getCatalogue: () => RentalItem[] = () => [];
 
   constructor(config: BillingConfig) {
     this.config = config;
   }
 
   /**
-   * Calculate billing for a rental order
+   * Set the lookup used to apply customer rate cards to rental orders
+   * @param resolver - Rate lookup, or undefined to bill at the order's rates
+   */
+  setRateResolver(resolver?: RateResolver): void {
+    this.rateResolver = resolver;
+  }
+
+  /**
+   * Set where rental items are looked up when no catalogue is passed, so their
+   * rate slabs and minimum rental periods apply
+   * @param getItems - Returns the rental items, or undefined to price at daily rates only
+   */
+  setItemCatalogue(getItems?: () => RentalItem[]): void {
+    this.getCatalogue = getItems || (() => []);
+  }
+
+  /**
+   * Calculate billing for a rental order.
+   * When a rate resolver is set, lines priced from a rate card or the item's own rate
+   * are billed at the customer's rate card; manual lines and lines without a rate
+   * source keep their daily rate.
    * @param order - Rental order
    * @param customer - Customer information
    * @param options - Calculation options
+   * @param catalogue - Rental items supplying names, rate slabs and minimum rental periods;
+   * defaults to the item catalogue
    * @returns BillingCalculation object
    */
   calculateRentalBilling(
     order: RentalOrder, 
     customer: Customer, 
-    options: CalculationOptions
+    options: CalculationOptions,
+    catalogue: RentalItem[] = this.getCatalogue()
   ): BillingCalculation {
     // Calculate billing period
     const billingPeriod = calculateBillingPeriod(order.deliveryDate, order.returnDate);
     
-    // Calculate items with daily rates
-    const billingItems = this.calculateRentalItems(order.items, billingPeriod.totalDays);
+    // Price items with the cheapest rate slabs the calculation method allows
+    const billingItems = this.calculateRentalItems(
+      order, 
+      billingPeriod.totalDays, 
+      options.method, 
+      catalogue
+    );
     
+    return this.buildCalculation(order.id, customer, billingPeriod, billingItems, options);
+  }
+
+  /**
+   * Calculate billing from the running stock balance a customer held over a period.
+   * Stock is charged at the rates fixed on its challans, so rate card changes do not
+   * reprice stock already issued. Each lot of stock is priced for as long as it was
+   * held, with the weekly and monthly slabs of the item or rate card its rate came
+   * from, and is charged at least the item's minimum rental period once it comes back.
+   * @param ledger - Rental ledger built from the customer's challans
+   * @param customer - Customer information
+   * @param startDate - First day of the billing period
+   * @param endDate - Last day of the billing period (inclusive)
+   * @param options - Calculation options
+   * @param siteId - Bill only the stock held at one of the customer's sites
+   * @param assessments - Damage assessments whose charges are added as separate lines
+   * @param lateFees - Late fee charges added as separate lines
+   * @returns Day-by-day breakdown together with the resulting BillingCalculation
+   */
+  calculateRunningBalanceBilling(
+    ledger: RentalLedger,
+    customer: Customer,
+    startDate: Date,
+    endDate: Date,
+    options: CalculationOptions,
+    siteId?: string,
+    assessments: DamageAssessment[] = [],
+    lateFees: LateFeeCharge[] = []
+  ): RunningBalanceBilling {
+    const start = startOfDay(startDate);
+    const end = startOfDay(endDate);
+    if (end < start) {
+      throw new Error('Billing period end date is before start date');
+    }
+
+    // Balances from the first movement show how long stock carried into the period was held
+    const movements = ledger.getMovements(customer.id, siteId);
+    const historyStart = movements.length > 0 && movements[0].date < start ? movements[0].date : start;
+    const history = ledger.getDailyBalances(
+      customer.id,
+      historyStart,
+      end,
+      this.config.roundingPrecision,
+      siteId
+    );
+    const dailyBalances = history.filter(balance => balance.date >= start);
+    const billingPeriod: BillingPeriod = {
+      startDate: start,
+      endDate: end,
+      totalDays: calculateDaysBetween(start, addDays(end, 1))
+    };
+    const balanceItems = this.priceHoldings(
+      this.calculateHoldings(history),
+      start,
+      end,
+      customer.id,
+      siteId,
+      options.method
+    );
+    const billingItems = [
+      ...balanceItems,
+      ...this.calculateAssessmentItems(assessments),
+      ...this.calculateLateFeeItems(lateFees)
+    ];
+    const scope = siteId ? `${customer.id}_${siteId}` : customer.id;
+    const orderId = `ledger_${scope}_${formatDate(start)}_${formatDate(end)}`;
+    const calculation = this.buildCalculation(orderId, customer, billingPeriod, billingItems, options);
+    if (siteId) {
+      calculation.siteId = siteId;
+    }
+
+    return {
+      customerId: customer.id,
+      siteId,
+      billingPeriod,
+      openingPositions: ledger.getPositions(customer.id, addDays(start, -1), siteId),
+      closingPositions: ledger.getPositions(customer.id, end, siteId),
+      dailyBalances,
+      calculation
+    };
+  }
+
+  /**
+   * Build a BillingCalculation from priced billing items
+   * @param orderId - Order or ledger reference
+   * @param customer - Customer information
+   * @param billingPeriod - Period covered by the items
+   * @param billingItems - Priced billing items
+   * @param options - Calculation options
+   * @returns BillingCalculation object
+   */
+  private buildCalculation(
+    orderId: string,
+    customer: Customer,
+    billingPeriod: BillingPeriod,
+    billingItems: BillingItem[],
+    options: CalculationOptions
+  ): BillingCalculation {
     // Calculate subtotal
     const subtotal = this.calculateSubtotal(billingItems);
     
@@ -60,7 +215,7 @@ export class BillingCalculator {
     const totalAmount = this.calculateTotal(subtotal, taxAmount, discountAmount);
     
     return {
-      orderId: order.id,
+      orderId,
       customerId: customer.id,
       billingPeriod,
       items: billingItems,
@@ -76,26 +231,285 @@ export class BillingCalculator {
   }
 
   /**
-   * Calculate billing items for rental order
-   * @param orderItems - Items in the rental order
+   * Calculate billing items for rental order.
+   * The calculation method sets the largest slab that may be used: 'daily' charges
+   * per day, 'weekly' adds weekly rates and 'monthly' adds monthly rates, and the
+   * cheapest combination is chosen. Durations are whole days, so 'hourly' charges per day.
+   * @param order - Rental order
    * @param totalDays - Total rental days
+   * @param method - Calculation method
+   * @param catalogue - Rental items supplying names and rate slabs
    * @returns Array of BillingItem objects
    */
-  private calculateRentalItems(orderItems: RentalOrderItem[], totalDays: number): BillingItem[] {
-    return orderItems.map(item => {
-      const subtotal = item.quantity * item.dailyRate * totalDays;
+  private calculateRentalItems(
+    order: RentalOrder, 
+    totalDays: number, 
+    method: CalculationMethod,
+    catalogue: RentalItem[]
+  ): BillingItem[] {
+    const allowedSlabs = this.getAllowedSlabs(method);
+
+    return order.items.map(item => {
+      const catalogueItem = catalogue.find(c => c.id === item.itemId);
+      const cardRate = this.findRateCardRate(item, order);
+      const slabs: RateSlabs = cardRate || {
+        dailyRate: item.dailyRate,
+        weeklyRate: catalogueItem && catalogueItem.weeklyRate,
+        monthlyRate: catalogueItem && catalogueItem.monthlyRate
+      };
+      const priced = priceRentalWithSlabs(
+        item.quantity,
+        totalDays,
+        slabs,
+        catalogueItem && catalogueItem.minimumRentalDays,
+        allowedSlabs
+      );
       
       return {
         itemId: item.itemId,
-        itemName: `Item ${item.itemId}`, // This would typically come from a catalog
+        itemName: catalogueItem ? catalogueItem.name : `Item ${item.itemId}`,
         quantity: item.quantity,
-        dailyRate: item.dailyRate,
+        dailyRate: slabs.dailyRate,
+        rateSource: cardRate ? cardRate.rateSource : item.rateSource,
+        rateCardId: cardRate && cardRate.rateCardId,
+        rateCardName: cardRate && cardRate.rateCardName,
         totalDays,
-        subtotal: roundTo(subtotal, this.config.roundingPrecision)
+        subtotal: roundTo(priced.amount, this.config.roundingPrecision),
+        chargedDays: priced.chargedDays,
+        slabBreakdown: priced.breakdown.map(usage => ({
+          ...usage,
+          amount: roundTo(usage.amount, this.config.roundingPrecision)
+        }))
       };
     });
   }
 
+  // Rate card rate for an order line priced from a rate card or the item. Lines without
+  // a rate source, e.g. orders from before rate cards, keep the rate typed on them.
+  private findRateCardRate(item: RentalOrderItem, order: RentalOrder) {
+    if (!this.rateResolver || (item.rateSource !== 'rate_card' && item.rateSource !== 'item')) {
+      return undefined;
+    }
+    const rate = this.rateResolver(item.itemId, order.customerId, undefined, order.deliveryDate);
+    return rate && rate.rateSource === 'rate_card' ? rate : undefined;
+  }
+
+  private getAllowedSlabs(method: CalculationMethod): RateSlab[] {
+    switch (method) {
+      case 'monthly':
+        return ['daily', 'weekly', 'monthly'];
+      case 'weekly':
+        return ['daily', 'weekly'];
+      default:
+        return ['daily'];
+    }
+  }
+
+  /**
+   * Split a daily balance breakdown into holdings: units of an item issued on one
+   * day and returned together. Returned stock is taken from what was issued last.
+   * @param balances - Day-by-day balances, in date order
+   * @returns Holdings, returned ones first
+   */
+  private calculateHoldings(balances: DailyRentalBalance[]): StockHolding[] {
+    const holdings: StockHolding[] = [];
+    const open = new Map<string, { level: number; stack: StockHolding[] }>();
+
+    balances.forEach(balance => {
+      const key = `${balance.itemId}@${balance.dailyRate}`;
+      const state = open.get(key) || { level: 0, stack: [] };
+      open.set(key, state);
+
+      const quantity = Math.max(0, balance.closingQuantity);
+      if (quantity > state.level) {
+        state.stack.push({ balance, units: quantity - state.level, issuedOn: new Date(balance.date) });
+        state.level = quantity;
+      }
+      while (state.level > quantity) {
+        const top = state.stack[state.stack.length - 1];
+        const units = Math.min(top.units, state.level - quantity);
+        if (units === top.units) {
+          state.stack.pop();
+        } else {
+          top.units -= units;
+        }
+        holdings.push({ ...top, units, returnedOn: new Date(balance.date) });
+        state.level -= units;
+      }
+    });
+
+    open.forEach(state => holdings.push(...state.stack));
+    return holdings;
+  }
+
+  /**
+   * Price the days of each holding that fall within a billing period. A holding
+   * charged at an item's catalogue rate, or at a rate card's rate, may use that
+   * item's or card's weekly and monthly rates; rates typed in by hand are charged
+   * per day. Holdings that came back are charged the item's minimum rental period,
+   * less the days they were held before the period. Holdings of an item priced
+   * alike are shown as one line.
+   * @param holdings - Holdings from calculateHoldings
+   * @param start - First day of the billing period
+   * @param end - Last day of the billing period
+   * @param customerId - Customer the stock is held by
+   * @param siteId - Site the stock is held at, if billing one site
+   * @param method - Calculation method
+   * @returns Array of BillingItem objects, in the order the stock was issued
+   */
+  private priceHoldings(
+    holdings: StockHolding[],
+    start: Date,
+    end: Date,
+    customerId: string,
+    siteId: string | undefined,
+    method: CalculationMethod
+  ): BillingItem[] {
+    const catalogue = this.getCatalogue();
+    const allowedSlabs = this.getAllowedSlabs(method);
+    const lines = new Map<string, { holding: StockHolding; units: number; from: Date; to: Date; minimumDays: number }>();
+
+    holdings
+      .slice()
+      .sort((a, b) => a.issuedOn.getTime() - b.issuedOn.getTime())
+      .forEach(holding => {
+        const from = holding.issuedOn < start ? start : holding.issuedOn;
+        const lastDay = holding.returnedOn ? addDays(holding.returnedOn, -1) : end;
+        const to = lastDay > end ? end : lastDay;
+        if (to < from) {
+          return;
+        }
+
+        const catalogueItem = catalogue.find(c => c.id === holding.balance.itemId);
+        const daysBefore = holding.issuedOn < from ? calculateDaysBetween(holding.issuedOn, from) : 0;
+        const minimumDays = holding.returnedOn && catalogueItem && catalogueItem.minimumRentalDays
+          ? Math.max(0, catalogueItem.minimumRentalDays - daysBefore)
+          : 0;
+        const key = `${holding.balance.itemId}@${holding.balance.dailyRate}@${formatDate(from)}@${formatDate(to)}@${minimumDays}`;
+        const line = lines.get(key);
+        if (line) {
+          line.units += holding.units;
+        } else {
+          lines.set(key, { holding, units: holding.units, from, to, minimumDays });
+        }
+      });
+
+    return Array.from(lines.values()).map(({ holding, units, from, to, minimumDays }) => {
+      const balance = holding.balance;
+      const totalDays = calculateDaysBetween(from, addDays(to, 1));
+      const slabs = this.getBalanceSlabs(balance, customerId, siteId, holding.issuedOn, catalogue);
+      const priced = priceRentalWithSlabs(units, totalDays, slabs, minimumDays, allowedSlabs);
+
+      return {
+        itemId: balance.itemId,
+        itemName: balance.itemName,
+        quantity: units,
+        dailyRate: balance.dailyRate,
+        rateSource: balance.rateCardId ? 'rate_card' : undefined,
+        rateCardId: balance.rateCardId,
+        rateCardName: balance.rateCardName,
+        totalDays,
+        subtotal: roundTo(priced.amount, this.config.roundingPrecision),
+        periodStart: new Date(from),
+        periodEnd: new Date(to),
+        chargedDays: priced.chargedDays,
+        slabBreakdown: priced.breakdown.map(usage => ({
+          ...usage,
+          amount: roundTo(usage.amount, this.config.roundingPrecision)
+        }))
+      };
+    });
+  }
+
+  // Slabs for stock charged at a balance's rate; only the daily rate unless the rate
+  // is still the one its rate card or catalogue item gave when the stock was issued
+  private getBalanceSlabs(
+    balance: DailyRentalBalance,
+    customerId: string,
+    siteId: string | undefined,
+    issuedOn: Date,
+    catalogue: RentalItem[]
+  ): RateSlabs {
+    const slabs: RateSlabs = { dailyRate: balance.dailyRate };
+    if (balance.rateCardId) {
+      const cardRate = this.rateResolver && this.rateResolver(balance.itemId, customerId, siteId, issuedOn);
+      if (cardRate && cardRate.rateCardId === balance.rateCardId && cardRate.dailyRate === balance.dailyRate) {
+        slabs.weeklyRate = cardRate.weeklyRate;
+        slabs.monthlyRate = cardRate.monthlyRate;
+      }
+    } else {
+      const catalogueItem = catalogue.find(c => c.id === balance.itemId);
+      if (catalogueItem && catalogueItem.dailyRate === balance.dailyRate) {
+        slabs.weeklyRate = catalogueItem.weeklyRate;
+        slabs.monthlyRate = catalogueItem.monthlyRate;
+      }
+    }
+    return slabs;
+  }
+
+  /**
+   * Turn damage assessments into billing items: one line for the repair cost and
+   * one for the replacement value of each assessed item
+   * @param assessments - Damage assessments to charge
+   * @returns Array of BillingItem objects
+   */
+  private calculateAssessmentItems(assessments: DamageAssessment[]): BillingItem[] {
+    const items: BillingItem[] = [];
+
+    assessments.forEach(assessment => {
+      assessment.items.forEach(item => {
+        if (item.damagedQuantity > 0 && item.repairCost > 0) {
+          items.push({
+            itemId: item.itemId,
+            itemName: `${item.itemName} - damage (${assessment.returnChallanNumber})`,
+            quantity: item.damagedQuantity,
+            dailyRate: roundTo(item.repairCost / item.damagedQuantity, this.config.roundingPrecision),
+            totalDays: 1,
+            subtotal: item.repairCost,
+            chargeType: 'damage',
+            assessmentId: assessment.id
+          });
+        }
+        if (item.lostQuantity > 0 && item.lossCharge > 0) {
+          items.push({
+            itemId: item.itemId,
+            itemName: `${item.itemName} - lost (${assessment.returnChallanNumber})`,
+            quantity: item.lostQuantity,
+            dailyRate: item.replacementValue,
+            totalDays: 1,
+            subtotal: item.lossCharge,
+            chargeType: 'loss',
+            assessmentId: assessment.id
+          });
+        }
+      });
+    });
+
+    return items;
+  }
+
+  /**
+   * Turn late fee charges into billing items, one line per charge
+   * @param charges - Late fee charges
+   * @returns Array of BillingItem objects
+   */
+  private calculateLateFeeItems(charges: LateFeeCharge[]): BillingItem[] {
+    return charges
+      .filter(charge => charge.amount > 0)
+      .map(charge => ({
+        itemId: charge.sourceId,
+        itemName: charge.source === 'return'
+          ? `Late return fee - ${charge.sourceReference} (${charge.overdueDays} days overdue)`
+          : `Late payment fee - ${charge.sourceReference} (${charge.overdueDays} days overdue)`,
+        quantity: 1,
+        dailyRate: charge.amount,
+        totalDays: 1,
+        subtotal: charge.amount,
+        chargeType: 'late_fee' as const,
+        lateFeeChargeId: charge.id
+      }));
+  }
+
   /**
    * Calculate subtotal from billing items
    * @param items - Billing items
@@ -172,23 +586,50 @@ export class BillingCalculator {
   }
 
   /**
-   * Calculate late fees for overdue returns
+   * Calculate late fees for overdue returns. Without a policy, the configured
+   * lateFeeRate is charged per day on the order's daily value once
+   * gracePeriodDays have passed.
    * @param order - Rental order
    * @param actualReturnDate - Actual return date
+   * @param policy - Late fee policy to apply instead of the configured rate
    * @returns Late fee amount
    */
-  calculateLateFees(order: RentalOrder, actualReturnDate: Date): number {
-    if (actualReturnDate <= order.returnDate) return 0;
-    
-    const overdueDays = calculateDaysBetween(order.returnDate, actualReturnDate);
-    const dailyLateFee = this.config.lateFeeRate || 0.05; // Default 5% per day
+  calculateLateFees(order: RentalOrder, actualReturnDate: Date, policy?: LateFeePolicy): number {
+    const appliedPolicy = policy || this.getDefaultLateFeePolicy();
+    if (!appliedPolicy || actualReturnDate <= order.returnDate) return 0;
     
-    const subtotal = order.items.reduce((sum, item) => 
+    const dailyValue = order.items.reduce((sum, item) => 
       sum + (item.quantity * item.dailyRate), 0
     );
     
-    const lateFee = subtotal * dailyLateFee * overdueDays;
-    return roundTo(lateFee, this.config.roundingPrecision);
+    return calculateLateFee(
+      appliedPolicy,
+      dailyValue,
+      order.returnDate,
+      actualReturnDate,
+      undefined,
+      this.config.roundingPrecision
+    ).amount;
+  }
+
+  /**
+   * Get the late fee policy described by the configured lateFeeRate and gracePeriodDays
+   * @returns Percentage-per-day policy, or undefined when no late fee rate is configured
+   */
+  getDefaultLateFeePolicy(): LateFeePolicy | undefined {
+    if (!this.config.lateFeeRate) {
+      return undefined;
+    }
+    return {
+      id: 'default',
+      name: 'Default late fee',
+      method: 'percentage',
+      rate: this.config.lateFeeRate,
+      gracePeriodDays: this.config.gracePeriodDays,
+      isActive: true,
+      createdAt: new Date(0),
+      updatedAt: new Date(0)
+    };
   }
 
   /**
@@ -3,14 +3,73 @@ import {
   RentalItem, 
   Customer,
   BillingCalculation,
-  CalculationOptions
+  CalculationOptions,
+  RunningBalanceBilling,
+  ChallanOptions,
+  ChallanItemInput,
+  ReturnChallanItem,
+  GstInvoice,
+  GstInvoiceOptions,
+  StockOverride,
+  SiteStatement,
+  StockPosition,
+  EffectiveRate,
+  AccountEntry,
+  AccountStatement,
+  DocumentTemplate,
+  AllocationRequest,
+  InvoiceBalance,
+  PaymentAllocation,
+  Payment,
+  SecurityDeposit,
+  DepositTransaction,
+  DepositHeldReport,
+  AgingOptions,
+  AgingReport,
+  DunningConfig,
+  DueReminder,
+  ReminderChannel,
+  ReminderRecord,
+  DamageAssessment,
+  DamageAssessmentInput,
+  BillingCycle,
+  BillingRun,
+  BillingRunOptions,
+  Invoice,
+  InvoiceNote,
+  InvoiceNoteType,
+  DocumentSeries,
+  DocumentCounter,
+  NumberingSeriesConfig,
+  LateFeeCharge,
+  LateFeePolicy,
+  EntityChanges,
+  PendingChanges,
+  UserDataChanges,
+  WriteConflict
 } from '../types';
 import { BillingCalculator } from './BillingCalculator';
+import { ChangeTracker } from './ChangeTracker';
+import { RentalLedger } from './RentalLedger';
+import { GstInvoiceGenerator } from './GstInvoiceGenerator';
 import { RentalItemManager } from '../managers/RentalItemManager';
 import { CustomerManager } from '../managers/CustomerManager';
 import { ChallanManager } from '../managers/ChallanManager';
 import { DeliveryManager } from '../managers/DeliveryManager';
 import { PaymentManager } from '../managers/PaymentManager';
+import { RateCardManager } from '../managers/RateCardManager';
+import { AccountLedgerManager } from '../managers/AccountLedgerManager';
+import { DepositManager } from '../managers/DepositManager';
+import { DamageAssessmentManager } from '../managers/DamageAssessmentManager';
+import { BillingRunManager } from '../managers/BillingRunManager';
+import { InvoiceManager } from '../managers/InvoiceManager';
+import { DocumentNumberingManager } from '../managers/DocumentNumberingManager';
+import { LateFeeManager } from '../managers/LateFeeManager';
+import { DunningManager } from '../managers/DunningManager';
+import { DocumentRenderer } from '../documents/DocumentRenderer';
+import { InsufficientStockError } from '../errors';
+import { roundTo } from '../utils/mathUtils';
+import { addDays, startOfDay } from '../utils/dateUtils';
 
 export class BusinessManager {
   private dataStore: UserDataStore;
@@ -20,15 +79,79 @@ export class BusinessManager {
   private challanManager: ChallanManager;
   private deliveryManager: DeliveryManager;
   private paymentManager: PaymentManager;
+  private rateCardManager: RateCardManager;
+  private accountLedger: AccountLedgerManager;
+  private depositManager: DepositManager;
+  private assessmentManager: DamageAssessmentManager;
+  private billingRunManager: BillingRunManager;
+  private invoiceManager: InvoiceManager;
+  private lateFeeManager: LateFeeManager;
+  private dunningManager: DunningManager;
+  private numbering: DocumentNumberingManager;
+  private billingTracker: ChangeTracker<BillingCalculation>;
+  private syncedUser: string;
+  private pendingUser?: string;
 
   constructor(dataStore: UserDataStore) {
     this.dataStore = dataStore;
+    this.syncedUser = JSON.stringify(dataStore.user);
+    // Billing calculations are kept by order, like storage keys them
+    this.billingTracker = new ChangeTracker<BillingCalculation>(billing => billing.orderId, dataStore.billingCalculations);
     this.billingCalculator = new BillingCalculator(dataStore.user.billingConfig);
     this.itemManager = new RentalItemManager(dataStore.inventory);
     this.customerManager = new CustomerManager(this.billingCalculator, dataStore.customers);
     this.challanManager = new ChallanManager(dataStore.challans);
     this.deliveryManager = new DeliveryManager(dataStore.deliveries);
-    this.paymentManager = new PaymentManager(dataStore.payments);
+    this.paymentManager = new PaymentManager(
+      dataStore.payments,
+      dataStore.user.billingConfig.roundingPrecision
+    );
+    this.rateCardManager = new RateCardManager(dataStore.rateCards);
+    this.accountLedger = new AccountLedgerManager(
+      dataStore.accountEntries,
+      dataStore.user.billingConfig.roundingPrecision
+    );
+    this.depositManager = new DepositManager(
+      dataStore.deposits,
+      dataStore.user.billingConfig.roundingPrecision
+    );
+    this.assessmentManager = new DamageAssessmentManager(
+      dataStore.damageAssessments,
+      dataStore.user.billingConfig.roundingPrecision
+    );
+    this.billingRunManager = new BillingRunManager(
+      dataStore.billingRuns,
+      dataStore.user.billingConfig.roundingPrecision
+    );
+    this.invoiceManager = new InvoiceManager(
+      dataStore.invoices,
+      dataStore.invoiceNotes,
+      dataStore.user.billingConfig.roundingPrecision
+    );
+    this.lateFeeManager = new LateFeeManager(
+      dataStore.lateFeePolicies,
+      dataStore.lateFeeCharges,
+      dataStore.user.billingConfig.roundingPrecision
+    );
+    this.dunningManager = new DunningManager(
+      dataStore.reminders,
+      dataStore.user.billingConfig.dunning,
+      dataStore.user.billingConfig.roundingPrecision
+    );
+
+    this.numbering = new DocumentNumberingManager(
+      dataStore.documentCounters,
+      dataStore.user.billingConfig.documentNumbering
+    );
+    this.challanManager.setNumbering(this.numbering);
+    this.paymentManager.setNumbering(this.numbering);
+    this.invoiceManager.setNumbering(this.numbering);
+
+    // Challans and rental orders pick up customer rate cards and item rate slabs automatically
+    const resolveRate = this.resolveRate.bind(this);
+    this.challanManager.setRateResolver(resolveRate);
+    this.billingCalculator.setRateResolver(resolveRate);
+    this.billingCalculator.setItemCatalogue(() => this.itemManager.getAllItems(false));
   }
 
   // ===== MANAGER ACCESSORS =====
@@ -40,20 +163,112 @@ export class BusinessManager {
   get itemManagerInstance() { return this.itemManager; }
   get customerManagerInstance() { return this.customerManager; }
   get billingCalculatorInstance() { return this.billingCalculator; }
+  get rateCardManagerInstance() { return this.rateCardManager; }
+  get accountLedgerInstance() { return this.accountLedger; }
+  get depositManagerInstance() { return this.depositManager; }
+  get assessmentManagerInstance() { return this.assessmentManager; }
+  get billingRunManagerInstance() { return this.billingRunManager; }
+  get invoiceManagerInstance() { return this.invoiceManager; }
+  get lateFeeManagerInstance() { return this.lateFeeManager; }
+  get dunningManagerInstance() { return this.dunningManager; }
+  get numberingInstance() { return this.numbering; }
 
   // ===== ORCHESTRATION METHODS =====
 
-  // Create challan with customer validation
-  createChallan(customerId: string, items: any[], notes?: string) {
+  // Create challan with customer and stock validation; lines without a rate are priced from rate cards.
+  // Issuing beyond available stock needs options.stockOverride, which is recorded on the challan.
+  createChallan(customerId: string, items: ChallanItemInput[], notes?: string, options: ChallanOptions = {}) {
+    const customer = this.customerManager.getCustomer(customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    if (options.siteId) {
+      this.requireSite(customerId, options.siteId);
+    }
+
+    const shortfalls = this.itemManager.checkAvailability(items);
+    let stockOverride: StockOverride | undefined;
+    if (shortfalls.length > 0) {
+      if (!options.stockOverride) {
+        throw new InsufficientStockError(shortfalls);
+      }
+      stockOverride = { ...options.stockOverride, approvedAt: new Date(), shortfalls };
+    }
+
+    const challan = this.challanManager.createChallan(
+      customerId,
+      customer.name,
+      items,
+      notes,
+      { ...options, stockOverride }
+    );
+    challan.items.forEach(item => this.itemManager.issueStock(item.itemId, item.quantity));
+    return challan;
+  }
+
+  // Create return challan against one or more of the customer's issue challans
+  createReturnChallan(
+    customerId: string,
+    items: ReturnChallanItem[],
+    notes?: string,
+    options?: ChallanOptions
+  ) {
     const customer = this.customerManager.getCustomer(customerId);
     if (!customer) {
       throw new Error('Customer not found');
     }
 
-    return this.challanManager.createChallan(customerId, customer.name, items, notes);
+    const challan = this.challanManager.createReturnChallan(customerId, customer.name, items, notes, options);
+    challan.items.forEach(item => this.itemManager.returnStock(item.itemId, item.quantity));
+    return challan;
+  }
+
+  // Assess damage and loss on a return challan. Lost units are written off stock and,
+  // unless sendDamagedForRepair is false, damaged units go for repair. The charges are
+  // added to the customer's next running-balance billing.
+  assessReturn(
+    returnChallanId: string,
+    items: DamageAssessmentInput[],
+    options: { assessmentDate?: Date; assessedBy?: string; notes?: string; sendDamagedForRepair?: boolean } = {}
+  ): DamageAssessment {
+    const challan = this.challanManager.getChallan(returnChallanId);
+    if (!challan) {
+      throw new Error('Challan not found');
+    }
+
+    const assessment = this.assessmentManager.createAssessment(
+      challan,
+      items,
+      this.itemManager.getAllItems(false),
+      options
+    );
+    assessment.items.forEach(item => {
+      // The units were booked back into stock by the return challan
+      this.itemManager.markLost(item.itemId, item.lostQuantity, false);
+      if (options.sendDamagedForRepair !== false) {
+        this.itemManager.sendForRepair(item.itemId, item.damagedQuantity, false);
+      }
+    });
+    return assessment;
+  }
+
+  // Cancel an issue challan and release the stock still out against it
+  cancelChallan(challanId: string): boolean {
+    const challan = this.challanManager.getChallan(challanId);
+    if (!challan || challan.status === 'cancelled' || challan.challanType === 'return') {
+      return false;
+    }
+
+    const outstanding = this.challanManager.getOutstandingQuantities(challanId);
+    if (outstanding.some(q => q.returnedQuantity > 0)) {
+      throw new Error('Cannot cancel a challan with returns recorded against it');
+    }
+
+    outstanding.forEach(q => this.itemManager.returnStock(q.itemId, q.outstandingQuantity));
+    return this.challanManager.updateChallanStatus(challanId, 'cancelled');
   }
 
-  // Create delivery from challan
+  // Create delivery from challan; an empty address falls back to the challan's site address
   createDelivery(challanId: string, deliveryAddress: string, deliveryPerson: string) {
     const challan = this.challanManager.getChallan(challanId);
     if (!challan) {
@@ -67,12 +282,19 @@ export class BusinessManager {
       notes: ''
     }));
 
+    const site = challan.siteId ? this.customerManager.getSite(challan.siteId) : undefined;
+    const address = deliveryAddress || (site ? site.address : '');
+    if (!address) {
+      throw new Error('Delivery address is required');
+    }
+
     return this.deliveryManager.createDelivery(
       challanId, 
       challan.customerId, 
-      deliveryAddress, 
+      address, 
       deliveryPerson, 
-      items
+      items,
+      challan.siteId
     );
   }
 
@@ -89,12 +311,17 @@ export class BusinessManager {
       amount, 
       method, 
       referenceNumber, 
-      notes
+      notes,
+      challan.siteId
     );
   }
 
-  // Calculate billing for challan
-  calculateChallanBilling(challanId: string, options: CalculationOptions): BillingCalculation | null {
+  // Calculate billing for challan from its issue date up to the given date
+  calculateChallanBilling(
+    challanId: string,
+    options: CalculationOptions,
+    endDate: Date = new Date()
+  ): BillingCalculation | null {
     const challan = this.challanManager.getChallan(challanId);
     if (!challan) {
       return null;
@@ -105,28 +332,23 @@ export class BusinessManager {
       return null;
     }
 
-    // Convert challan to rental order format for billing calculation
-    const rentalOrder = {
-      id: challan.id,
-      customerId: challan.customerId,
-      customerName: challan.customerName,
-      orderDate: challan.challanDate,
-      deliveryDate: challan.challanDate,
-      returnDate: new Date(challan.challanDate.getTime() + 24 * 60 * 60 * 1000), // 1 day later
-      items: challan.items.map(item => ({
-        itemId: item.itemId,
-        quantity: item.quantity,
-        dailyRate: item.dailyRate,
-        totalDays: 1,
-        subtotal: item.quantity * item.dailyRate
-      })),
-      status: 'active' as const,
-      notes: challan.notes
-    };
+    // Only the return lines recorded against this challan reduce its balance
+    const returns = this.challanManager.getReturnChallans(challanId).map(returnChallan => ({
+      ...returnChallan,
+      items: returnChallan.items.filter(item => item.sourceChallanId === challanId)
+    }));
 
     try {
-      const billing = this.billingCalculator.calculateRentalBilling(rentalOrder, customer, options);
-      this.dataStore.billingCalculations.push(billing);
+      const ledger = new RentalLedger([challan, ...returns]);
+      const billing = this.billingCalculator.calculateRunningBalanceBilling(
+        ledger,
+        customer,
+        challan.challanDate,
+        endDate,
+        options
+      ).calculation;
+      billing.orderId = challan.id;
+      billing.siteId = challan.siteId;
       return billing;
     } catch (error) {
       console.error('Error calculating billing:', error);
@@ -134,15 +356,792 @@ export class BusinessManager {
     }
   }
 
+  // Calculate running-balance billing for everything a customer held over a period,
+  // together with damage, loss and late fee charges assessed up to its end
+  calculateCustomerBilling(
+    customerId: string,
+    startDate: Date,
+    endDate: Date,
+    options: CalculationOptions
+  ): RunningBalanceBilling {
+    const customer = this.customerManager.getCustomer(customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    return this.buildCustomerBilling(customer, startDate, endDate, options, endDate);
+  }
+
+  // Calculate running-balance billing for the stock held at one site,
+  // together with damage, loss and late fee charges assessed there up to its end
+  calculateSiteBilling(
+    siteId: string,
+    startDate: Date,
+    endDate: Date,
+    options: CalculationOptions
+  ): RunningBalanceBilling {
+    const site = this.customerManager.getSite(siteId);
+    if (!site) {
+      throw new Error('Site not found');
+    }
+    const customer = this.customerManager.getCustomer(site.customerId)!;
+
+    const ledger = new RentalLedger(this.challanManager.getChallansBySite(siteId));
+    return this.billingCalculator.calculateRunningBalanceBilling(
+      ledger,
+      customer,
+      startDate,
+      endDate,
+      options,
+      siteId,
+      this.assessmentManager.getUnbilledAssessments(customer.id, siteId, endDate),
+      this.lateFeeManager.getUnbilledCharges(customer.id, siteId, endDate)
+    );
+  }
+
+  // Produce a GST tax invoice for a billing calculation
+  createGstInvoice(billing: BillingCalculation, options: GstInvoiceOptions): GstInvoice {
+    const customer = this.customerManager.getCustomer(billing.customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const generator = new GstInvoiceGenerator(this.dataStore.user);
+    return generator.generateInvoice(
+      billing,
+      customer,
+      this.itemManager.getAllItems(false),
+      options
+    );
+  }
+
+  // Get the rental ledger across all challans
+  getRentalLedger(): RentalLedger {
+    return new RentalLedger(this.challanManager.getChallans());
+  }
+
+  // ===== BILLING RUNS =====
+
+  // Set the billing cycle a customer is billed on; undefined returns the customer
+  // to the business's default cycle
+  setBillingCycle(customerId: string, cycle: BillingCycle | undefined): boolean {
+    if (!this.customerManager.getCustomer(customerId)) {
+      throw new Error('Customer not found');
+    }
+    if (cycle) {
+      // Throws if the cycle is malformed
+      this.billingRunManager.getCyclePeriod(cycle, new Date());
+    }
+    return this.customerManager.updateCustomer(customerId, { billingCycle: cycle });
+  }
+
+  // Invoice every customer's billing cycle periods ending on or before runDate that
+  // have not been billed yet, catching up on periods a missed run left behind.
+  // Customers that could not be billed are listed in the run's skipped entries.
+  runBilling(
+    runDate: Date,
+    calculationOptions: CalculationOptions,
+    options: BillingRunOptions = {}
+  ): BillingRun {
+    const invoiceDate = options.invoiceDate || runDate;
+    return this.billingRunManager.runBilling(
+      this.customerManager.getAllCustomers(false),
+      runDate,
+      this.dataStore.user.billingConfig.billingCycle,
+      {
+        calculate: (customer, startDate, endDate, chargesUpTo) =>
+          this.buildCustomerBilling(customer, startDate, endDate, calculationOptions, chargesUpTo),
+        post: billing => this.finalizeInvoice(billing, invoiceDate),
+        isInvoiced: invoiceEntryId =>
+          !this.accountLedger.getAllEntries().some(e => e.reversesEntryId === invoiceEntryId),
+        getInvoices: customerId => this.invoiceManager.getInvoicesByCustomer(customerId),
+        getFirstRentalDate: customerId => {
+          const [first] = new RentalLedger(this.challanManager.getChallansByCustomer(customerId)).getMovements(customerId);
+          return first && first.date;
+        }
+      },
+      options
+    );
+  }
+
+  // ===== LATE FEES =====
+
+  // Assign a late fee policy to a customer; undefined returns the customer to the
+  // late fee set in the billing config
+  assignLateFeePolicy(customerId: string, policyId: string | undefined): boolean {
+    if (!this.customerManager.getCustomer(customerId)) {
+      throw new Error('Customer not found');
+    }
+    if (policyId && !this.lateFeeManager.getPolicy(policyId)) {
+      throw new Error('Late fee policy not found');
+    }
+    return this.customerManager.updateCustomer(customerId, { lateFeePolicyId: policyId });
+  }
+
+  // Charge a customer the late fees accrued up to asOf on stock kept past its expected
+  // return date and on invoices unpaid past their due date. Each call only charges what
+  // has accrued since the last one; the charges are billed on the next invoice.
+  assessLateFees(customerId: string, asOf: Date = new Date()): LateFeeCharge[] {
+    const customer = this.customerManager.getCustomer(customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+    const policy = this.getLateFeePolicy(customer);
+    if (!policy) {
+      return [];
+    }
+
+    const charges: LateFeeCharge[] = [];
+    const through = startOfDay(asOf);
+
+    // Stock counts as late on a day when it is still out at the start of it
+    this.challanManager.getChallansByCustomer(customerId)
+      .filter(c => c.challanType !== 'return' && c.status !== 'cancelled' && c.expectedReturnDate)
+      .forEach(challan => {
+        const returns = this.challanManager.getReturnChallans(challan.id)
+          .filter(r => r.status !== 'cancelled');
+        const overdueAmount = (date: Date) => challan.items.reduce((sum, item) => {
+          const returned = returns
+            .filter(r => startOfDay(r.challanDate) < date)
+            .reduce((qty, r) => qty + r.items
+              .filter(i => i.sourceChallanId === challan.id && i.itemId === item.itemId)
+              .reduce((total, i) => total + i.quantity, 0), 0);
+          return sum + Math.max(0, item.quantity - returned) * item.dailyRate;
+        }, 0);
+
+        const charge = this.lateFeeManager.assessCharge({
+          customerId,
+          siteId: challan.siteId,
+          source: 'return',
+          sourceId: challan.id,
+          sourceReference: challan.challanNumber,
+          dueDate: challan.expectedReturnDate!
+        }, policy, overdueAmount, through);
+        if (charge) {
+          charges.push(charge);
+        }
+      });
+
+    // An invoice counts as late on a day when it is still unpaid at the start of it
+    this.getInvoiceBalances(customerId, true)
+      .filter(balance => startOfDay(balance.dueDate) < through)
+      .forEach(balance => {
+        const overdueAmount = (date: Date) => this.getInvoiceBalanceOn(balance, date).outstandingAmount;
+        const charge = this.lateFeeManager.assessCharge({
+          customerId,
+          siteId: balance.siteId,
+          source: 'invoice',
+          sourceId: balance.invoiceId,
+          sourceReference: balance.reference,
+          dueDate: balance.dueDate
+        }, policy, overdueAmount, through);
+        if (charge) {
+          charges.push(charge);
+        }
+      });
+
+    return charges;
+  }
+
+  // ===== PAYMENT REMINDERS =====
+
+  // Register the channel payment reminders of its type are sent through
+  registerReminderChannel(channel: ReminderChannel): void {
+    this.dunningManager.registerChannel(channel);
+  }
+
+  // Change the reminder ladder, minimum amount or spacing between reminders
+  configureDunning(config: DunningConfig): void {
+    this.dunningManager.configure(config);
+    this.dataStore.user.billingConfig.dunning = this.dunningManager.getConfig();
+  }
+
+  // Work out which active customers are due a payment reminder
+  getDueReminders(asOf: Date = new Date()): DueReminder[] {
+    const customers = this.customerManager.getAllCustomers();
+    const invoices = customers.reduce(
+      (all, customer) => all.concat(this.getInvoiceBalances(customer.id)),
+      [] as InvoiceBalance[]
+    );
+    return this.dunningManager.getDueReminders(invoices, customers, asOf);
+  }
+
+  // Send every payment reminder that is due; failed sends are recorded and retried on the next run
+  async sendDueReminders(asOf: Date = new Date()): Promise<ReminderRecord[]> {
+    const { businessName, billingConfig } = this.dataStore.user;
+    const records: ReminderRecord[] = [];
+    for (const reminder of this.getDueReminders(asOf)) {
+      const customer = this.customerManager.getCustomer(reminder.customerId)!;
+      records.push(...await this.dunningManager.sendReminder(
+        reminder,
+        customer,
+        businessName,
+        billingConfig.currency,
+        asOf
+      ));
+    }
+    return records;
+  }
+
+  // ===== DOCUMENT NUMBERING =====
+
+  // Change the prefix, pattern or padding of a document number series
+  configureNumbering(series: DocumentSeries, config: NumberingSeriesConfig): void {
+    this.numbering.configureSeries(series, config);
+    this.dataStore.user.billingConfig.documentNumbering = this.numbering.getConfig();
+  }
+
+  // Bring in number counters saved by another device so its numbers are not issued again
+  mergeDocumentCounters(counters: DocumentCounter[]): void {
+    this.numbering.mergeCounters(counters);
+  }
+
+  // ===== RATE CARDS =====
+
+  // Assign a rate card to a customer, or to one of its sites when siteId is given.
+  // Pass undefined to go back to the customer's card or the item rates.
+  assignRateCard(customerId: string, rateCardId: string | undefined, siteId?: string): boolean {
+    if (!this.customerManager.getCustomer(customerId)) {
+      throw new Error('Customer not found');
+    }
+    if (rateCardId && !this.rateCardManager.getRateCard(rateCardId)) {
+      throw new Error('Rate card not found');
+    }
+
+    if (siteId) {
+      this.requireSite(customerId, siteId);
+      return this.customerManager.updateSite(siteId, { rateCardId });
+    }
+    return this.customerManager.updateCustomer(customerId, { rateCardId });
+  }
+
+  // Get the rate that applies to an item for a customer, and the rate card it comes from
+  resolveRate(
+    itemId: string,
+    customerId: string,
+    siteId?: string,
+    date: Date = new Date()
+  ): EffectiveRate | undefined {
+    const item = this.itemManager.getItem(itemId);
+    const customer = this.customerManager.getCustomer(customerId);
+    if (!item || !customer) {
+      return undefined;
+    }
+    return this.rateCardManager.resolveRate(item, customer, siteId, date);
+  }
+
+  // ===== CUSTOMER ACCOUNTS =====
+
+  // Post a billing calculation to the customer's account as an invoice.
+  // Damage, loss and late fee charges on it are marked billed, and any on-account
+  // credit the customer has is applied to it.
+  postInvoice(billing: BillingCalculation, invoiceNumber?: string, invoiceDate?: Date): AccountEntry {
+    if (!this.customerManager.getCustomer(billing.customerId)) {
+      throw new Error('Customer not found');
+    }
+
+    const assessmentIds = billing.items
+      .map(item => item.assessmentId)
+      .filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+    assessmentIds.forEach(id => {
+      const assessment = this.assessmentManager.getAssessment(id);
+      if (assessment && assessment.billingStatus === 'billed') {
+        throw new Error(`Damage charges for ${assessment.returnChallanNumber} were already billed on ${assessment.billedReference}`);
+      }
+    });
+
+    const lateFeeChargeIds = billing.items
+      .map(item => item.lateFeeChargeId)
+      .filter((id, index, ids): id is string => !!id && ids.indexOf(id) === index);
+    lateFeeChargeIds.forEach(id => {
+      const charge = this.lateFeeManager.getCharge(id);
+      if (charge && charge.billingStatus === 'billed') {
+        throw new Error(`Late fee on ${charge.sourceReference} was already billed on ${charge.billedReference}`);
+      }
+    });
+
+    const entry = this.accountLedger.postInvoice(billing, invoiceNumber, invoiceDate);
+    assessmentIds.forEach(id => this.assessmentManager.markBilled(id, entry.reference));
+    lateFeeChargeIds.forEach(id => this.lateFeeManager.markBilled(id, entry.reference));
+    this.applyOnAccountCredit(billing.customerId);
+    return entry;
+  }
+
+  // Finalize a billing calculation as the next numbered invoice and post it to the
+  // customer's account. A finalized invoice never changes; it is corrected with
+  // credit and debit notes. The due date defaults to the customer's payment terms.
+  finalizeInvoice(billing: BillingCalculation, invoiceDate: Date = new Date(), dueDate?: Date): Invoice {
+    const customer = this.customerManager.getCustomer(billing.customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const invoice = this.invoiceManager.finalizeInvoice(
+      billing,
+      invoiceDate,
+      dueDate || addDays(invoiceDate, this.getPaymentTermsDays(customer.id)),
+      invoiceNumber => this.postInvoice(billing, invoiceNumber, invoiceDate)
+    );
+    this.dataStore.billingCalculations.push(invoice.billing);
+    return invoice;
+  }
+
+  // Raise a credit note against a finalized invoice. Payments allocated to the
+  // invoice beyond what it now stands at go back to on-account credit.
+  createCreditNote(invoiceId: string, amount: number, reason: string, noteDate?: Date): InvoiceNote {
+    return this.createInvoiceNote(invoiceId, 'credit_note', amount, reason, noteDate);
+  }
+
+  // Raise a debit note adding to what is owed on a finalized invoice
+  createDebitNote(invoiceId: string, amount: number, reason: string, noteDate?: Date): InvoiceNote {
+    return this.createInvoiceNote(invoiceId, 'debit_note', amount, reason, noteDate);
+  }
+
+  // Reverse an invoice; payments allocated to it go back to on-account credit.
+  // Finalized invoices cannot be reversed and are corrected with credit notes instead.
+  reverseInvoice(invoiceId: string, reason: string): AccountEntry {
+    const invoice = this.accountLedger.getAllEntries().find(e => e.id === invoiceId && e.type === 'invoice');
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (this.invoiceManager.getInvoiceByAccountEntry(invoiceId)) {
+      throw new Error(`Invoice ${invoice.reference} is finalized; raise a credit note to correct it`);
+    }
+
+    const reversal = this.accountLedger.reverseEntry(invoiceId, reason);
+    this.assessmentManager.getAssessmentsByCustomer(invoice.customerId)
+      .filter(a => a.billingStatus === 'billed' && a.billedReference === invoice.reference)
+      .forEach(a => this.assessmentManager.markUnbilled(a.id));
+    this.lateFeeManager.getChargesByCustomer(invoice.customerId)
+      .filter(c => c.billingStatus === 'billed' && c.billedReference === invoice.reference)
+      .forEach(c => this.lateFeeManager.markUnbilled(c.id));
+    this.paymentManager.getAllocationsForInvoice(invoiceId)
+      .forEach(({ paymentId }) => this.paymentManager.clearAllocations(paymentId, invoiceId));
+    this.applyOnAccountCredit(invoice.customerId);
+    return reversal;
+  }
+
+  // Record a payment from a customer that is not tied to a challan, such as a
+  // lump sum covering several invoices or an advance
+  createCustomerPayment(
+    customerId: string,
+    amount: number,
+    method: Payment['paymentMethod'],
+    referenceNumber?: string,
+    notes?: string,
+    siteId?: string
+  ): Payment {
+    if (!this.customerManager.getCustomer(customerId)) {
+      throw new Error('Customer not found');
+    }
+    if (siteId) {
+      this.requireSite(customerId, siteId);
+    }
+    if (amount <= 0) {
+      throw new Error('Payment amount must be positive');
+    }
+
+    return this.paymentManager.createPayment(undefined, customerId, amount, method, referenceNumber, notes, siteId);
+  }
+
+  // Mark a payment as completed and credit it to the customer's account.
+  // The payment is allocated to the given invoices, or to the oldest outstanding ones when none are given.
+  completePayment(paymentId: string, allocations?: AllocationRequest[]): AccountEntry {
+    const payment = this.paymentManager.getPayment(paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    if (payment.status !== 'pending') {
+      throw new Error(`Cannot complete a ${payment.status} payment`);
+    }
+    if (payment.purpose === 'deposit') {
+      throw new Error('Security deposits are not credited to the customer account');
+    }
+
+    this.paymentManager.updatePaymentStatus(paymentId, 'completed');
+    const entry = this.accountLedger.postPayment(payment);
+    if (allocations) {
+      this.allocatePayment(paymentId, allocations);
+    } else {
+      this.paymentManager.autoAllocatePayment(paymentId, this.getInvoiceBalances(payment.customerId));
+    }
+    return entry;
+  }
+
+  // Replace a payment's allocations with manually chosen ones
+  allocatePayment(paymentId: string, allocations: AllocationRequest[]): PaymentAllocation[] {
+    const payment = this.paymentManager.getPayment(paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    return this.paymentManager.allocatePayment(
+      paymentId,
+      allocations,
+      this.getInvoiceBalances(payment.customerId, true)
+    );
+  }
+
+  // Apply a customer's on-account credit to outstanding invoices, oldest payments and invoices first
+  applyOnAccountCredit(customerId: string): PaymentAllocation[] {
+    const allocations: PaymentAllocation[] = [];
+    this.paymentManager.getPaymentsByCustomer(customerId)
+      .filter(p => 
+        p.status === 'completed' && 
+        p.purpose !== 'deposit' && 
+        this.paymentManager.getUnappliedAmount(p.id) > 0
+      )
+      .sort((a, b) => a.paymentDate.getTime() - b.paymentDate.getTime())
+      .forEach(payment => {
+        allocations.push(
+          ...this.paymentManager.autoAllocatePayment(payment.id, this.getInvoiceBalances(customerId))
+        );
+      });
+    return allocations;
+  }
+
+  // Get invoices with what has been allocated to them and what is still outstanding
+  // after their credit and debit notes
+  getInvoiceBalances(customerId: string, includeSettled: boolean = false): InvoiceBalance[] {
+    return this.accountLedger.getInvoiceEntries(customerId)
+      .map(entry => {
+        const invoice = this.invoiceManager.getInvoiceByAccountEntry(entry.id);
+        const notesAmount = invoice ? this.invoiceManager.getNotesAmount(invoice.id) : 0;
+        const allocatedAmount = this.paymentManager.getAllocatedAmount(entry.id);
+        return {
+          invoiceId: entry.id,
+          reference: entry.reference,
+          customerId: entry.customerId,
+          siteId: entry.siteId,
+          invoiceDate: entry.entryDate,
+          dueDate: invoice ? invoice.dueDate : addDays(entry.entryDate, this.getPaymentTermsDays(entry.customerId)),
+          amount: entry.debit,
+          notesAmount,
+          allocatedAmount,
+          outstandingAmount: roundTo(
+            entry.debit + notesAmount - allocatedAmount,
+            this.dataStore.user.billingConfig.roundingPrecision
+          )
+        };
+      })
+      .filter(balance => includeSettled || balance.outstandingAmount > 0);
+  }
+
+  // Get the payments a customer has not yet allocated to invoices
+  getOnAccountCredit(customerId: string): number {
+    return this.paymentManager.getOnAccountCredit(customerId);
+  }
+
+  // Refund a completed payment and debit it back to the customer's account
+  refundPayment(paymentId: string, refundDate?: Date): AccountEntry {
+    const payment = this.paymentManager.getPayment(paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    if (payment.status !== 'completed') {
+      throw new Error('Only completed payments can be refunded');
+    }
+    if (payment.purpose === 'deposit') {
+      throw new Error('Security deposits are refunded with refundDeposit');
+    }
+
+    const entry = this.accountLedger.postRefund(paymentId, refundDate);
+    this.paymentManager.clearAllocations(paymentId);
+    this.paymentManager.updatePaymentStatus(paymentId, 'refunded');
+    this.applyOnAccountCredit(payment.customerId);
+    return entry;
+  }
+
+  // Get what a customer owes at the end of a day
+  getCustomerBalance(customerId: string, asOf?: Date): number {
+    return this.accountLedger.getBalance(customerId, asOf);
+  }
+
+  // Get a customer's statement of account, optionally for one site
+  getAccountStatement(customerId: string, from: Date, to: Date, siteId?: string): AccountStatement {
+    if (!this.customerManager.getCustomer(customerId)) {
+      throw new Error('Customer not found');
+    }
+    return this.accountLedger.getStatement(customerId, from, to, siteId);
+  }
+
+  // Export a customer's statement of account as CSV
+  exportAccountStatementCSV(customerId: string, from: Date, to: Date, siteId?: string): string {
+    return this.accountLedger.exportStatementToCSV(this.getAccountStatement(customerId, from, to, siteId));
+  }
+
+  // Render a customer's statement of account as a PDF
+  renderAccountStatementPDF(
+    customerId: string,
+    from: Date,
+    to: Date,
+    siteId?: string,
+    template?: DocumentTemplate
+  ): Buffer {
+    const statement = this.getAccountStatement(customerId, from, to, siteId);
+    const customer = this.customerManager.getCustomer(customerId)!;
+    return new DocumentRenderer(this.dataStore.user, template).renderAccountStatement(statement, customer);
+  }
+
+  // Age what customers owed at the end of a day by days past invoice due dates
+  getAgingReport(asOf: Date = new Date(), options: AgingOptions = {}): AgingReport {
+    const cutoff = addDays(startOfDay(asOf), 1);
+    const customers = this.customerManager.getAllCustomers(false)
+      .filter(c => !options.customerIds || options.customerIds.indexOf(c.id) !== -1);
+    const invoices = customers.reduce((all, customer) => all.concat(
+      this.getInvoiceBalances(customer.id, true)
+        .filter(balance => balance.invoiceDate < cutoff)
+        .map(balance => this.getInvoiceBalanceOn(balance, cutoff))
+    ), [] as InvoiceBalance[]);
+
+    return this.paymentManager.getAgingReport(
+      invoices,
+      customers,
+      asOf,
+      options.bucketEdges,
+      options.includeZeroBalances
+    );
+  }
+
+  // Export an aging report of receivables as CSV
+  exportAgingReportCSV(asOf?: Date, options?: AgingOptions): string {
+    return this.paymentManager.exportAgingReportToCSV(this.getAgingReport(asOf, options));
+  }
+
+  // ===== SECURITY DEPOSITS =====
+
+  // Receive a security deposit from a customer, held for one of its sites when siteId is given
+  collectDeposit(
+    customerId: string,
+    amount: number,
+    method: Payment['paymentMethod'],
+    options: { siteId?: string; referenceNumber?: string; notes?: string; recordedBy?: string } = {}
+  ): SecurityDeposit {
+    if (!this.customerManager.getCustomer(customerId)) {
+      throw new Error('Customer not found');
+    }
+    if (options.siteId) {
+      this.requireSite(customerId, options.siteId);
+    }
+    if (amount <= 0) {
+      throw new Error('Deposit amount must be positive');
+    }
+    if (method === 'deposit') {
+      throw new Error('A deposit cannot be paid out of another deposit');
+    }
+
+    const receipt = this.paymentManager.createDepositReceipt(
+      customerId,
+      amount,
+      method,
+      options.referenceNumber,
+      options.notes,
+      options.siteId
+    );
+    const deposit = this.depositManager.collectDeposit(customerId, amount, options.siteId, {
+      transactionDate: receipt.paymentDate,
+      reference: options.referenceNumber,
+      paymentId: receipt.id,
+      recordedBy: options.recordedBy
+    });
+    receipt.depositId = deposit.id;
+    return deposit;
+  }
+
+  // Deduct damage, loss or other charges from a deposit. The deduction is credited
+  // to the customer's account as a payment and settles their oldest invoices.
+  deductFromDeposit(depositId: string, amount: number, reason: string, recordedBy?: string): DepositTransaction {
+    const deposit = this.depositManager.getDeposit(depositId);
+    if (!deposit) {
+      throw new Error('Deposit not found');
+    }
+    if (deposit.status !== 'held' || amount > deposit.heldAmount) {
+      throw new Error(`Cannot deduct ${amount}: only ${deposit.heldAmount} is held`);
+    }
+
+    const payment = this.paymentManager.createPayment(
+      undefined,
+      deposit.customerId,
+      amount,
+      'deposit',
+      undefined,
+      reason,
+      deposit.siteId
+    );
+    payment.depositId = depositId;
+    const transaction = this.depositManager.deductFromDeposit(depositId, amount, reason, {
+      paymentId: payment.id,
+      recordedBy
+    });
+    this.completePayment(payment.id);
+    return transaction;
+  }
+
+  // Refund what is left of a deposit, normally when the customer or site closes
+  refundDeposit(
+    depositId: string,
+    method: Payment['paymentMethod'],
+    options: { amount?: number; referenceNumber?: string; recordedBy?: string } = {}
+  ): DepositTransaction {
+    return this.depositManager.refundDeposit(depositId, method, options.amount, {
+      reference: options.referenceNumber,
+      recordedBy: options.recordedBy
+    });
+  }
+
+  // Report the security deposits held at the end of a day
+  getDepositHeldReport(asOf?: Date): DepositHeldReport {
+    return this.depositManager.getDepositHeldReport(this.customerManager.getAllCustomers(false), asOf);
+  }
+
+  // ===== SITES =====
+
+  // Get a statement of challans, deliveries, payments and billing for a site
+  getSiteStatement(siteId: string, from?: Date, to?: Date): SiteStatement | undefined {
+    return this.customerManager.getSiteStatement(siteId, {
+      challans: this.challanManager.getChallansBySite(siteId),
+      deliveries: this.deliveryManager.getDeliveriesBySite(siteId),
+      payments: this.paymentManager.getPaymentsBySite(siteId),
+      billingCalculations: this.dataStore.billingCalculations
+    }, from, to);
+  }
+
+  // Get the stock currently held at a site
+  getSiteOutstandingStock(siteId: string, asOf: Date = new Date()): StockPosition[] {
+    return this.customerManager.getSiteOutstandingStock(
+      siteId,
+      this.challanManager.getChallansBySite(siteId),
+      asOf
+    );
+  }
+
+  // Get statements for every active site of a customer
+  getCustomerSiteStatements(customerId: string, from?: Date, to?: Date): SiteStatement[] {
+    return this.customerManager.getSites(customerId)
+      .map(site => this.getSiteStatement(site.id, from, to))
+      .filter((statement): statement is SiteStatement => !!statement);
+  }
+
+  private requireSite(customerId: string, siteId: string) {
+    const site = this.customerManager.getSite(siteId);
+    if (!site || site.customerId !== customerId) {
+      throw new Error('Site not found for customer');
+    }
+    if (!site.isActive) {
+      throw new Error('Site is closed');
+    }
+    return site;
+  }
+
+  // Raise a credit or debit note and post it to the customer's account
+  private createInvoiceNote(
+    invoiceId: string,
+    noteType: InvoiceNoteType,
+    amount: number,
+    reason: string,
+    noteDate: Date = new Date()
+  ): InvoiceNote {
+    const note = this.invoiceManager.createNote(invoiceId, noteType, amount, reason, noteDate, (noteNumber, invoice) => {
+      const description = `${noteType === 'credit_note' ? 'Credit' : 'Debit'} note on ${invoice.invoiceNumber}: ${reason}`;
+      const options = { entryDate: noteDate, siteId: invoice.siteId, sourceId: invoice.id };
+      return noteType === 'credit_note'
+        ? this.accountLedger.postCreditNote(invoice.customerId, amount, noteNumber, description, options)
+        : this.accountLedger.postDebitNote(invoice.customerId, amount, noteNumber, description, options);
+    });
+
+    // Release allocations a credit note has left the invoice unable to absorb, then
+    // let on-account credit settle it again up to what it now stands at
+    const invoice = this.invoiceManager.getInvoice(invoiceId)!;
+    const balance = this.getInvoiceBalances(invoice.customerId, true)
+      .find(b => b.invoiceId === invoice.accountEntryId);
+    if (balance && balance.outstandingAmount < 0) {
+      this.paymentManager.getAllocationsForInvoice(invoice.accountEntryId)
+        .forEach(({ paymentId }) => this.paymentManager.clearAllocations(paymentId, invoice.accountEntryId));
+    }
+    this.applyOnAccountCredit(invoice.customerId);
+    return note;
+  }
+
+  // Running-balance billing for a customer, with damage and late fee charges assessed up to chargesUpTo
+  private buildCustomerBilling(
+    customer: Customer,
+    startDate: Date,
+    endDate: Date,
+    options: CalculationOptions,
+    chargesUpTo: Date
+  ): RunningBalanceBilling {
+    const ledger = new RentalLedger(this.challanManager.getChallansByCustomer(customer.id));
+    return this.billingCalculator.calculateRunningBalanceBilling(
+      ledger,
+      customer,
+      startDate,
+      endDate,
+      options,
+      undefined,
+      this.assessmentManager.getUnbilledAssessments(customer.id, undefined, chargesUpTo),
+      this.lateFeeManager.getUnbilledCharges(customer.id, undefined, chargesUpTo)
+    );
+  }
+
+  // What stood on an invoice at the start of a day, counting notes and payments dated before it
+  private getInvoiceBalanceOn(balance: InvoiceBalance, date: Date): InvoiceBalance {
+    const precision = this.dataStore.user.billingConfig.roundingPrecision;
+    const invoice = this.invoiceManager.getInvoiceByAccountEntry(balance.invoiceId);
+    const notesAmount = roundTo(
+      (invoice ? this.invoiceManager.getNotes(invoice.id) : [])
+        .filter(n => startOfDay(n.noteDate) < date)
+        .reduce((sum, n) => sum + (n.noteType === 'debit_note' ? n.totalAmount : -n.totalAmount), 0),
+      precision
+    );
+    const allocatedAmount = roundTo(
+      this.paymentManager.getAllocationsForInvoice(balance.invoiceId)
+        .filter(({ paymentId }) => startOfDay(this.paymentManager.getPayment(paymentId)!.paymentDate) < date)
+        .reduce((sum, { allocation }) => sum + allocation.amount, 0),
+      precision
+    );
+    return {
+      ...balance,
+      notesAmount,
+      allocatedAmount,
+      outstandingAmount: roundTo(balance.amount + notesAmount - allocatedAmount, precision)
+    };
+  }
+
+  // Days after the invoice date a customer's invoices fall due
+  private getPaymentTermsDays(customerId: string): number {
+    const customer = this.customerManager.getCustomer(customerId);
+    if (customer && customer.paymentTermsDays !== undefined) {
+      return customer.paymentTermsDays;
+    }
+    const terms = this.dataStore.user.billingConfig.paymentTermsDays;
+    return terms !== undefined ? terms : 30;
+  }
+
+  // The customer's own active late fee policy, or the one described by the billing config
+  private getLateFeePolicy(customer: Customer): LateFeePolicy | undefined {
+    const policy = customer.lateFeePolicyId ? this.lateFeeManager.getPolicy(customer.lateFeePolicyId) : undefined;
+    return policy && policy.isActive ? policy : this.billingCalculator.getDefaultLateFeePolicy();
+  }
+
   // ===== DATA SYNCHRONIZATION =====
 
   // Sync data from managers back to data store
   syncDataStore(): void {
-    this.dataStore.inventory = this.itemManager.getAllItems();
-    this.dataStore.customers = this.customerManager.getAllCustomers();
+    this.dataStore.inventory = this.itemManager.getAllItems(false);
+    this.dataStore.customers = this.customerManager.getAllCustomers(false);
     this.dataStore.challans = this.challanManager.getChallans();
     this.dataStore.deliveries = this.deliveryManager.getDeliveries();
     this.dataStore.payments = this.paymentManager.getPayments();
+    this.dataStore.rateCards = this.rateCardManager.getRateCards(false);
+    this.dataStore.accountEntries = this.accountLedger.getAllEntries();
+    this.dataStore.deposits = this.depositManager.getDeposits();
+    this.dataStore.damageAssessments = this.assessmentManager.getAssessments();
+    this.dataStore.billingRuns = this.billingRunManager.getRuns();
+    this.dataStore.invoices = this.invoiceManager.getInvoices();
+    this.dataStore.invoiceNotes = this.invoiceManager.getInvoiceNotes();
+    this.dataStore.lateFeePolicies = this.lateFeeManager.getPolicies(false);
+    this.dataStore.lateFeeCharges = this.lateFeeManager.getCharges();
+    this.dataStore.reminders = this.dunningManager.getReminders();
+    this.dataStore.documentCounters = this.numbering.getCounters();
     this.dataStore.lastSync = new Date();
   }
 
@@ -152,6 +1151,90 @@ export class BusinessManager {
     return { ...this.dataStore };
   }
 
+  // Replace all data with another data store, e.g. one loaded from storage. The
+  // loaded data counts as synced. Reminder channels and late fee methods registered
+  // earlier are kept; manager instances fetched before the call are left behind.
+  loadDataStore(dataStore: UserDataStore): void {
+    const channels = this.dunningManager.getChannels();
+    const methods = this.lateFeeManager.getMethods();
+
+    Object.assign(this, new BusinessManager(dataStore));
+
+    channels.forEach(channel => this.dunningManager.registerChannel(channel));
+    Object.keys(methods).forEach(method => this.lateFeeManager.registerMethod(method, methods[method]));
+    const resolveRate = this.resolveRate.bind(this);
+    this.challanManager.setRateResolver(resolveRate);
+    this.billingCalculator.setRateResolver(resolveRate);
+    this.billingCalculator.setItemCatalogue(() => this.itemManager.getAllItems(false));
+  }
+
+  // Get everything changed since the last sync, or since the data was loaded
+  getChanges(): PendingChanges {
+    const entities: UserDataChanges = {};
+    let count = 0;
+    const add = (entity: keyof UserDataChanges, changes: EntityChanges) => {
+      const size = changes.created.length + changes.updated.length + changes.deleted.length;
+      if (size > 0) {
+        entities[entity] = changes;
+        count += size;
+      }
+    };
+
+    add('inventory', this.itemManager.getChanges());
+    add('customers', this.customerManager.getChanges());
+    add('challans', this.challanManager.getChanges());
+    add('deliveries', this.deliveryManager.getChanges());
+    add('payments', this.paymentManager.getChanges());
+    add('rateCards', this.rateCardManager.getChanges());
+    add('accountEntries', this.accountLedger.getChanges());
+    add('deposits', this.depositManager.getChanges());
+    add('damageAssessments', this.assessmentManager.getChanges());
+    add('billingRuns', this.billingRunManager.getChanges());
+    add('invoices', this.invoiceManager.getInvoiceChanges());
+    add('invoiceNotes', this.invoiceManager.getNoteChanges());
+    add('lateFeePolicies', this.lateFeeManager.getPolicyChanges());
+    add('lateFeeCharges', this.lateFeeManager.getChargeChanges());
+    add('reminders', this.dunningManager.getChanges());
+    add('documentCounters', this.numbering.getChanges());
+    add('billingCalculations', this.billingTracker.getChanges(this.dataStore.billingCalculations));
+
+    const user = JSON.stringify(this.dataStore.user);
+    this.pendingUser = user !== this.syncedUser ? user : undefined;
+
+    return {
+      user: this.pendingUser ? this.dataStore.user : undefined,
+      entities,
+      count: count + (this.pendingUser ? 1 : 0)
+    };
+  }
+
+  // Record the changes last returned by getChanges as synced. Records storage
+  // refused as conflicts stay changed, so they are sent again.
+  markSynced(conflicts: WriteConflict[] = []): void {
+    const refused = (entity: keyof UserDataChanges) =>
+      conflicts.filter(conflict => conflict.entity === entity).map(conflict => conflict.key);
+
+    this.itemManager.markSynced(refused('inventory'));
+    this.customerManager.markSynced(refused('customers'));
+    this.challanManager.markSynced(refused('challans'));
+    this.deliveryManager.markSynced(refused('deliveries'));
+    this.paymentManager.markSynced(refused('payments'));
+    this.rateCardManager.markSynced(refused('rateCards'));
+    this.accountLedger.markSynced(refused('accountEntries'));
+    this.depositManager.markSynced(refused('deposits'));
+    this.assessmentManager.markSynced(refused('damageAssessments'));
+    this.billingRunManager.markSynced(refused('billingRuns'));
+    this.invoiceManager.markSynced(refused('invoices'), refused('invoiceNotes'));
+    this.lateFeeManager.markSynced(refused('lateFeePolicies'), refused('lateFeeCharges'));
+    this.dunningManager.markSynced(refused('reminders'));
+    this.numbering.markSynced(refused('documentCounters'));
+    this.billingTracker.markSynced(refused('billingCalculations'));
+    if (this.pendingUser) {
+      this.syncedUser = this.pendingUser;
+      this.pendingUser = undefined;
+    }
+  }
+
   // ===== BUSINESS STATISTICS =====
 
   // Get comprehensive business statistics
@@ -167,7 +1250,9 @@ export class BusinessManager {
       totalChallans: challanStats.totalChallans,
       pendingChallans: challanStats.pendingChallans,
       deliveredChallans: challanStats.deliveredChallans,
+      partiallyReturnedChallans: challanStats.partiallyReturnedChallans,
       returnedChallans: challanStats.returnedChallans,
+      returnChallans: challanStats.returnChallans,
       cancelledChallans: challanStats.cancelledChallans,
       challanTotalAmount: challanStats.totalAmount,
 
@@ -184,6 +1269,7 @@ export class BusinessManager {
       failedPayments: paymentStats.failedPayments,
       totalRevenue: paymentStats.totalAmount,
       pendingRevenue: paymentStats.pendingAmount,
+      depositsHeld: this.depositManager.getTotalHeld(),
 
       // Business overview
       totalCustomers,
@@ -201,6 +1287,15 @@ export class BusinessManager {
       this.paymentManager &&
       this.itemManager &&
       this.customerManager &&
+      this.rateCardManager &&
+      this.accountLedger &&
+      this.depositManager &&
+      this.assessmentManager &&
+      this.billingRunManager &&
+      this.invoiceManager &&
+      this.lateFeeManager &&
+      this.dunningManager &&
+      this.numbering &&
       this.billingCalculator
     );
   }
@@ -213,6 +1308,15 @@ export class BusinessManager {
       paymentManager: !!this.paymentManager,
       itemManager: !!this.itemManager,
       customerManager: !!this.customerManager,
+      rateCardManager: !!this.rateCardManager,
+      accountLedger: !!this.accountLedger,
+      depositManager: !!this.depositManager,
+      assessmentManager: !!this.assessmentManager,
+      billingRunManager: !!this.billingRunManager,
+      invoiceManager: !!this.invoiceManager,
+      lateFeeManager: !!this.lateFeeManager,
+      dunningManager: !!this.dunningManager,
+      numbering: !!this.numbering,
       billingCalculator: !!this.billingCalculator
     };
   }
@@ -0,0 +1,79 @@
+import { EntityChanges } from '../types';
+
+/**
+ * Finds the records of a list that were created, updated or deleted since it
+ * was last synced.
+ *
+ * Managers update records in place, so rather than flagging every change as it
+ * happens the tracker keeps each record as it was last synced, serialized, and
+ * compares the current list against that.
+ */
+export class ChangeTracker<T> {
+  private synced: Map<string, string> = new Map();
+  private pending: Map<string, string | null> = new Map();
+  private getKey: (record: T) => string;
+
+  constructor(getKey: (record: T) => string, records: T[] = []) {
+    this.getKey = getKey;
+    records.forEach(record => this.synced.set(getKey(record), JSON.stringify(record)));
+  }
+
+  /**
+   * Compare the current records against the last sync
+   * @param records - Current records
+   * @returns Records created, updated or deleted since then
+   */
+  getChanges(records: T[]): EntityChanges<T> {
+    const previous: { [key: string]: any } = {};
+    const changes: EntityChanges<T> = { created: [], updated: [], deleted: [], previous };
+    const current = new Map<string, string>();
+
+    records.forEach(record => {
+      const key = this.getKey(record);
+      const snapshot = JSON.stringify(record);
+      const synced = this.synced.get(key);
+      current.set(key, snapshot);
+      if (synced === undefined) {
+        changes.created.push(record);
+      } else if (synced !== snapshot) {
+        changes.updated.push(record);
+        previous[key] = JSON.parse(synced);
+      }
+    });
+
+    Array.from(this.synced.entries()).forEach(([key, synced]) => {
+      if (!current.has(key)) {
+        changes.deleted.push(key);
+        previous[key] = JSON.parse(synced);
+      }
+    });
+
+    // Remember the records as they were now, so changes made while they upload stay pending
+    this.pending = new Map();
+    changes.created.concat(changes.updated).forEach(record => {
+      const key = this.getKey(record);
+      this.pending.set(key, current.get(key)!);
+    });
+    changes.deleted.forEach(key => this.pending.set(key, null));
+
+    return changes;
+  }
+
+  /**
+   * Record the changes last returned by getChanges as synced
+   * @param refused - Keys of records storage refused; they stay changed
+   */
+  markSynced(refused: string[] = []): void {
+    Array.from(this.pending.entries()).forEach(([key, snapshot]) => {
+      if (refused.indexOf(key) !== -1) {
+        return;
+      }
+      if (snapshot === null) {
+        this.synced.delete(key);
+      } else {
+        this.synced.set(key, snapshot);
+      }
+    });
+    this.pending = new Map();
+  }
+}
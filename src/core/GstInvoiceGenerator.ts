@@ -0,0 +1,250 @@
+import {
+  User,
+  Customer,
+  RentalItem,
+  BillingCalculation,
+  GstInvoice,
+  GstInvoiceLine,
+  GstInvoiceOptions,
+  GstHsnSummary,
+  GstParty
+} from '../types';
+import {
+  isValidGstin,
+  isValidGstInvoiceNumber,
+  getStateCodeFromGstin,
+  getGstStateName,
+  isUtgstTerritory
+} from '../utils/gstUtils';
+import { roundTo, addWithPrecision } from '../utils/mathUtils';
+import { formatDate } from '../utils/dateUtils';
+
+// SAC 9973: leasing or rental services without operator
+const DEFAULT_RENTAL_SAC = '997319';
+
+/**
+ * Produces GST tax invoices from billing calculations.
+ *
+ * Tax is split into CGST and SGST (or UTGST) when the place of supply is in
+ * the supplier's state, and charged as IGST otherwise.
+ */
+export class GstInvoiceGenerator {
+  private user: User;
+
+  constructor(user: User) {
+    this.user = user;
+  }
+
+  /**
+   * Generate a GST tax invoice
+   * @param calculation - Billing calculation to invoice
+   * @param customer - Recipient of the supply
+   * @param items - Rental item catalogue used for HSN/SAC codes, units and GST rates
+   * @param options - Invoice number, date and other invoice settings
+   * @returns GstInvoice object
+   */
+  generateInvoice(
+    calculation: BillingCalculation,
+    customer: Customer,
+    items: RentalItem[],
+    options: GstInvoiceOptions
+  ): GstInvoice {
+    if (calculation.customerId !== customer.id) {
+      throw new Error('Billing calculation belongs to a different customer');
+    }
+    if (!isValidGstInvoiceNumber(options.invoiceNumber)) {
+      throw new Error(`Invalid GST invoice number: ${options.invoiceNumber}`);
+    }
+
+    const precision = this.user.billingConfig.roundingPrecision;
+    const supplier = this.buildSupplier();
+    const recipient = this.buildRecipient(customer);
+    const supplyType = supplier.stateCode === recipient.stateCode ? 'intra_state' : 'inter_state';
+    const discounts = this.allocateDiscount(calculation, precision);
+
+    const lines: GstInvoiceLine[] = calculation.items.map((billingItem, index) => {
+      const item = items.find(i => i.id === billingItem.itemId);
+      const gstRate = customer.taxExempt
+        ? 0
+        : (item && item.gstRate !== undefined ? item.gstRate : this.user.billingConfig.defaultTaxRate);
+      const taxableValue = roundTo(billingItem.subtotal - discounts[index], precision);
+
+      let cgstRate = 0;
+      let sgstRate = 0;
+      let igstRate = 0;
+      if (supplyType === 'intra_state') {
+        cgstRate = gstRate / 2;
+        sgstRate = gstRate / 2;
+      } else {
+        igstRate = gstRate;
+      }
+
+      const cgstAmount = roundTo(taxableValue * cgstRate, precision);
+      const sgstAmount = roundTo(taxableValue * sgstRate, precision);
+      const igstAmount = roundTo(taxableValue * igstRate, precision);
+
+      // Damage, loss and late fee lines keep their own description
+      const isCharge = !!billingItem.chargeType && billingItem.chargeType !== 'rental';
+      let description = item && !isCharge ? item.name : billingItem.itemName;
+      if (billingItem.periodStart && billingItem.periodEnd) {
+        description += ` (${formatDate(billingItem.periodStart)} to ${formatDate(billingItem.periodEnd)})`;
+      }
+
+      return {
+        serialNumber: index + 1,
+        itemId: billingItem.itemId,
+        description,
+        hsnSacCode: (item && item.hsnSacCode) || options.defaultHsnSacCode || DEFAULT_RENTAL_SAC,
+        quantity: billingItem.quantity,
+        unit: item ? item.unit : 'piece',
+        rate: billingItem.dailyRate,
+        totalDays: billingItem.totalDays,
+        grossAmount: billingItem.subtotal,
+        discountAmount: discounts[index],
+        taxableValue,
+        gstRate,
+        cgstRate,
+        cgstAmount,
+        sgstRate,
+        sgstAmount,
+        igstRate,
+        igstAmount,
+        totalAmount: addWithPrecision([taxableValue, cgstAmount, sgstAmount, igstAmount], precision)
+      };
+    });
+
+    const totalTaxableValue = addWithPrecision(lines.map(l => l.taxableValue), precision);
+    const totalCgst = addWithPrecision(lines.map(l => l.cgstAmount), precision);
+    const totalSgst = addWithPrecision(lines.map(l => l.sgstAmount), precision);
+    const totalIgst = addWithPrecision(lines.map(l => l.igstAmount), precision);
+    const totalTax = addWithPrecision([totalCgst, totalSgst, totalIgst], precision);
+    const exactTotal = addWithPrecision([totalTaxableValue, totalTax], precision);
+    const invoiceTotal = options.roundToRupee === false ? exactTotal : Math.round(exactTotal);
+
+    return {
+      invoiceNumber: options.invoiceNumber,
+      invoiceDate: options.invoiceDate || new Date(),
+      orderId: calculation.orderId,
+      supplier,
+      recipient,
+      placeOfSupply: { stateCode: recipient.stateCode, stateName: recipient.stateName },
+      supplyType,
+      stateTaxLabel: isUtgstTerritory(supplier.stateCode) ? 'UTGST' : 'SGST',
+      reverseCharge: options.reverseCharge || false,
+      billingPeriod: calculation.billingPeriod,
+      lines,
+      hsnSummary: this.summariseByHsn(lines, precision),
+      totalTaxableValue,
+      totalCgst,
+      totalSgst,
+      totalIgst,
+      totalTax,
+      roundOff: roundTo(invoiceTotal - exactTotal, precision),
+      invoiceTotal,
+      currency: calculation.currency,
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Update the business details used as the invoice supplier
+   * @param user - Business user
+   */
+  setUser(user: User): void {
+    this.user = user;
+  }
+
+  // Private utility methods
+  private buildSupplier(): GstParty {
+    const gstin = this.user.gstin;
+    if (!gstin || !isValidGstin(gstin)) {
+      throw new Error('A valid business GSTIN is required to issue a tax invoice');
+    }
+
+    const stateCode = this.user.stateCode || getStateCodeFromGstin(gstin);
+    return {
+      name: this.user.businessName,
+      address: this.user.businessAddress,
+      gstin: gstin.toUpperCase(),
+      stateCode,
+      stateName: this.resolveStateName(stateCode)
+    };
+  }
+
+  private buildRecipient(customer: Customer): GstParty {
+    if (customer.gstin && !isValidGstin(customer.gstin)) {
+      throw new Error(`Invalid GSTIN for customer ${customer.name}: ${customer.gstin}`);
+    }
+
+    const stateCode = customer.placeOfSupply ||
+      (customer.gstin ? getStateCodeFromGstin(customer.gstin) : undefined);
+    if (!stateCode) {
+      throw new Error(`Place of supply is unknown for customer ${customer.name}`);
+    }
+
+    return {
+      name: customer.name,
+      address: customer.address,
+      gstin: customer.gstin ? customer.gstin.toUpperCase() : undefined,
+      stateCode,
+      stateName: this.resolveStateName(stateCode)
+    };
+  }
+
+  private resolveStateName(stateCode: string): string {
+    const stateName = getGstStateName(stateCode);
+    if (!stateName) {
+      throw new Error(`Unknown GST state code: ${stateCode}`);
+    }
+    return stateName;
+  }
+
+  // Spread the invoice-level discount over the lines in proportion to their value
+  private allocateDiscount(calculation: BillingCalculation, precision: number): number[] {
+    const discounts = calculation.items.map(() => 0);
+    if (calculation.discountAmount <= 0 || calculation.subtotal <= 0) {
+      return discounts;
+    }
+
+    let allocated = 0;
+    calculation.items.forEach((item, index) => {
+      if (index === calculation.items.length - 1) {
+        discounts[index] = roundTo(calculation.discountAmount - allocated, precision);
+        return;
+      }
+      discounts[index] = roundTo(
+        calculation.discountAmount * item.subtotal / calculation.subtotal,
+        precision
+      );
+      allocated += discounts[index];
+    });
+
+    return discounts;
+  }
+
+  private summariseByHsn(lines: GstInvoiceLine[], precision: number): GstHsnSummary[] {
+    const summary = new Map<string, GstHsnSummary>();
+
+    lines.forEach(line => {
+      const key = `${line.hsnSacCode}@${line.gstRate}`;
+      const entry = summary.get(key) || {
+        hsnSacCode: line.hsnSacCode,
+        gstRate: line.gstRate,
+        taxableValue: 0,
+        cgstAmount: 0,
+        sgstAmount: 0,
+        igstAmount: 0,
+        totalTax: 0
+      };
+
+      entry.taxableValue = roundTo(entry.taxableValue + line.taxableValue, precision);
+      entry.cgstAmount = roundTo(entry.cgstAmount + line.cgstAmount, precision);
+      entry.sgstAmount = roundTo(entry.sgstAmount + line.sgstAmount, precision);
+      entry.igstAmount = roundTo(entry.igstAmount + line.igstAmount, precision);
+      entry.totalTax = roundTo(entry.cgstAmount + entry.sgstAmount + entry.igstAmount, precision);
+      summary.set(key, entry);
+    });
+
+    return Array.from(summary.values());
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  Challan,
+  StockMovement,
+  StockPosition,
+  DailyRentalBalance
+} from '../types';
+import { addDays, startOfDay } from '../utils/dateUtils';
+import { roundTo } from '../utils/mathUtils';
+
+/**
+ * Tracks the stock each customer holds by replaying issue and return challans.
+ * Stock can be looked at for a customer as a whole or for one of its sites.
+ *
+ * Every challan becomes a set of stock movements: issue challans add quantity
+ * on site, return challans take it away. Stock is held per item and daily
+ * rate, so items issued at different rates are billed independently.
+ *
+ * A day is charged at the quantity on site at the end of that day: stock
+ * issued on a day is charged for that day, stock returned on a day is not.
+ */
+export class RentalLedger {
+  private movements: StockMovement[] = [];
+
+  constructor(challans?: Challan[]) {
+    if (challans) {
+      challans.forEach(challan => this.addChallan(challan));
+    }
+  }
+
+  /**
+   * Record the stock movements of a challan
+   * @param challan - Issue or return challan
+   */
+  addChallan(challan: Challan): void {
+    if (challan.status === 'cancelled') {
+      return;
+    }
+
+    const sign = challan.challanType === 'return' ? -1 : 1;
+    challan.items.forEach(item => {
+      this.movements.push({
+        challanId: challan.id,
+        challanNumber: challan.challanNumber,
+        customerId: challan.customerId,
+        siteId: challan.siteId,
+        date: startOfDay(challan.challanDate),
+        itemId: item.itemId,
+        itemName: item.itemName,
+        dailyRate: item.dailyRate,
+        rateCardId: item.rateCardId,
+        rateCardName: item.rateCardName,
+        quantity: sign * item.quantity
+      });
+    });
+
+    this.movements.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Get stock movements for a customer
+   * @param customerId - Customer ID
+   * @param siteId - Limit to one site of the customer
+   * @returns Movements in date order
+   */
+  getMovements(customerId: string, siteId?: string): StockMovement[] {
+    return this.movements.filter(m => 
+      m.customerId === customerId && (!siteId || m.siteId === siteId)
+    );
+  }
+
+  /**
+   * Get the stock a customer holds at the end of a day
+   * @param customerId - Customer ID
+   * @param asOf - Day to evaluate
+   * @param siteId - Limit to one site of the customer
+   * @returns Positions with a non-zero quantity
+   */
+  getPositions(customerId: string, asOf: Date, siteId?: string): StockPosition[] {
+    const cutoff = startOfDay(asOf).getTime();
+    const positions = new Map<string, StockPosition>();
+
+    this.getMovements(customerId, siteId)
+      .filter(m => m.date.getTime() <= cutoff)
+      .forEach(m => this.applyMovement(positions, m));
+
+    return Array.from(positions.values()).filter(p => p.quantity !== 0);
+  }
+
+  /**
+   * Build a day-by-day breakdown of the stock a customer held and its rental charge
+   * @param customerId - Customer ID
+   * @param startDate - First day to charge
+   * @param endDate - Last day to charge (inclusive)
+   * @param precision - Decimal places for rounding amounts
+   * @param siteId - Limit to one site of the customer
+   * @returns One entry per day, item and rate with stock on site or moving
+   */
+  getDailyBalances(
+    customerId: string,
+    startDate: Date,
+    endDate: Date,
+    precision: number = 2,
+    siteId?: string
+  ): DailyRentalBalance[] {
+    const start = startOfDay(startDate);
+    const end = startOfDay(endDate);
+    const movements = this.getMovements(customerId, siteId);
+    const positions = new Map<string, StockPosition>();
+    const balances: DailyRentalBalance[] = [];
+
+    // Carry in everything that happened before the period
+    let index = 0;
+    while (index < movements.length && movements[index].date < start) {
+      this.applyMovement(positions, movements[index]);
+      index++;
+    }
+
+    for (let day = start; day <= end; day = addDays(day, 1)) {
+      const dayMovements: StockMovement[] = [];
+      while (index < movements.length && movements[index].date.getTime() === day.getTime()) {
+        dayMovements.push(movements[index]);
+        index++;
+      }
+
+      const opening = new Map<string, number>();
+      positions.forEach((position, key) => opening.set(key, position.quantity));
+      dayMovements.forEach(m => this.applyMovement(positions, m));
+
+      positions.forEach((position, key) => {
+        const moved = dayMovements.filter(m => this.positionKey(m) === key);
+        const openingQuantity = opening.get(key) || 0;
+        if (openingQuantity === 0 && position.quantity === 0 && moved.length === 0) {
+          return;
+        }
+
+        const issuedQuantity = moved
+          .filter(m => m.quantity > 0)
+          .reduce((sum, m) => sum + m.quantity, 0);
+        const returnedQuantity = moved
+          .filter(m => m.quantity < 0)
+          .reduce((sum, m) => sum - m.quantity, 0);
+        const chargeableQuantity = Math.max(0, position.quantity);
+
+        balances.push({
+          date: new Date(day),
+          itemId: position.itemId,
+          itemName: position.itemName,
+          dailyRate: position.dailyRate,
+          rateCardId: position.rateCardId,
+          rateCardName: position.rateCardName,
+          openingQuantity,
+          issuedQuantity,
+          returnedQuantity,
+          closingQuantity: position.quantity,
+          amount: roundTo(chargeableQuantity * position.dailyRate, precision),
+          challanIds: moved
+            .map(m => m.challanId)
+            .filter((id, i, ids) => ids.indexOf(id) === i)
+        });
+      });
+    }
+
+    return balances;
+  }
+
+  // Private utility methods
+  private applyMovement(positions: Map<string, StockPosition>, movement: StockMovement): void {
+    const key = this.positionKey(movement);
+    const position = positions.get(key);
+    if (position) {
+      position.quantity += movement.quantity;
+      return;
+    }
+
+    positions.set(key, {
+      customerId: movement.customerId,
+      itemId: movement.itemId,
+      itemName: movement.itemName,
+      dailyRate: movement.dailyRate,
+      rateCardId: movement.rateCardId,
+      rateCardName: movement.rateCardName,
+      quantity: movement.quantity
+    });
+  }
+
+  private positionKey(movement: StockMovement): string {
+    return `${movement.itemId}@${movement.dailyRate}`;
+  }
+}
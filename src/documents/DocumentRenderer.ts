@@ -0,0 +1,550 @@
+import {
+  User,
+  Customer,
+  Challan,
+  Delivery,
+  BillingCalculation,
+  GstInvoice,
+  AccountStatement,
+  DocumentTemplate,
+  InvoiceRenderOptions
+} from '../types';
+import { PdfWriter } from './PdfWriter';
+import { formatDate } from '../utils/dateUtils';
+import { amountToWords, formatAmount } from '../utils/formatUtils';
+
+interface TableColumn {
+  header: string;
+  width: number; // Fraction of the content width
+  align?: 'left' | 'right' | 'center';
+}
+
+interface PageLayout {
+  writer: PdfWriter;
+  y: number;
+}
+
+const MARGIN = 40;
+const FOOTER_SPACE = 70;
+const ROW_PADDING = 4;
+const BODY_SIZE = 9;
+
+/**
+ * Renders challans, delivery notes, invoices and statements of account as PDF documents.
+ *
+ * Every document carries the business header from the User, an item table
+ * and totals. Logos, titles, colours and terms come from the template so each
+ * business can brand its own documents.
+ */
+export class DocumentRenderer {
+  private user: User;
+  private template: DocumentTemplate;
+
+  constructor(user: User, template: DocumentTemplate = {}) {
+    this.user = user;
+    this.template = template;
+  }
+
+  /**
+   * Render an issue or return challan
+   * @param challan - Challan to render
+   * @param customer - Customer details for the address block
+   * @returns PDF file contents
+   */
+  renderChallan(challan: Challan, customer?: Customer): Buffer {
+    const currency = this.user.billingConfig.currency;
+    const isReturn = challan.challanType === 'return';
+    const titles = this.template.titles || {};
+    const title = isReturn
+      ? titles.returnChallan || 'Return Challan'
+      : titles.challan || 'Delivery Challan';
+
+    const layout = this.startDocument(title, [
+      ['Challan No', challan.challanNumber],
+      ['Date', formatDate(challan.challanDate)],
+      ['Status', challan.status]
+    ]);
+    this.drawParty(layout, isReturn ? 'Received From' : 'Issued To', this.customerLines(customer, challan.customerName));
+
+    this.drawTable(layout, [
+      { header: '#', width: 0.06, align: 'center' },
+      { header: 'Item', width: 0.46 },
+      { header: 'Qty', width: 0.14, align: 'right' },
+      { header: 'Rate / Day', width: 0.16, align: 'right' },
+      { header: 'Value / Day', width: 0.18, align: 'right' }
+    ], challan.items.map((item, index) => [
+      `${index + 1}`,
+      item.notes ? `${item.itemName}\n${item.notes}` : item.itemName,
+      `${item.quantity}`,
+      formatAmount(item.dailyRate, currency),
+      formatAmount(item.quantity * item.dailyRate, currency)
+    ]));
+
+    const totalQuantity = challan.items.reduce((sum, item) => sum + item.quantity, 0);
+    this.drawTotals(layout, [
+      ['Total Quantity', `${totalQuantity}`, false],
+      ['Total Value / Day', formatAmount(challan.totalAmount, currency), true]
+    ]);
+    this.drawAmountInWords(layout, challan.totalAmount, currency);
+    this.drawNotes(layout, challan.notes);
+    return this.finishDocument(layout);
+  }
+
+  /**
+   * Render a delivery as a delivery note
+   * @param delivery - Delivery to render
+   * @param customer - Customer details for the address block
+   * @returns PDF file contents
+   */
+  renderDeliveryNote(delivery: Delivery, customer?: Customer): Buffer {
+    const title = (this.template.titles || {}).deliveryNote || 'Delivery Note';
+    const layout = this.startDocument(title, [
+      ['Delivery No', delivery.id],
+      ['Date', formatDate(delivery.deliveryDate)],
+      ['Status', delivery.status]
+    ]);
+
+    const recipient = this.customerLines(customer, customer ? customer.name : delivery.customerId);
+    this.drawParty(layout, 'Deliver To', [recipient[0], delivery.deliveryAddress, `Delivered by: ${delivery.deliveryPerson}`]);
+
+    this.drawTable(layout, [
+      { header: '#', width: 0.06, align: 'center' },
+      { header: 'Item', width: 0.44 },
+      { header: 'Qty', width: 0.14, align: 'right' },
+      { header: 'Condition', width: 0.14, align: 'center' },
+      { header: 'Notes', width: 0.22 }
+    ], delivery.items.map((item, index) => [
+      `${index + 1}`,
+      item.itemName,
+      `${item.quantity}`,
+      item.condition,
+      item.notes || ''
+    ]));
+
+    const totalQuantity = delivery.items.reduce((sum, item) => sum + item.quantity, 0);
+    this.drawTotals(layout, [['Total Quantity', `${totalQuantity}`, true]]);
+    this.drawNotes(layout, delivery.notes);
+    this.drawSignature(layout, 'Received by', delivery.customerSignature);
+    return this.finishDocument(layout);
+  }
+
+  /**
+   * Render a billing calculation as a tax invoice
+   * @param calculation - Billing calculation to render
+   * @param customer - Customer being billed
+   * @param options - Invoice number and date
+   * @returns PDF file contents
+   */
+  renderInvoice(
+    calculation: BillingCalculation,
+    customer: Customer,
+    options: InvoiceRenderOptions = {}
+  ): Buffer {
+    const currency = calculation.currency;
+    const title = (this.template.titles || {}).invoice || 'Tax Invoice';
+    const layout = this.startDocument(title, [
+      ['Invoice No', options.invoiceNumber || calculation.orderId],
+      ['Date', formatDate(options.invoiceDate || calculation.calculatedAt)],
+      ['Period', `${formatDate(calculation.billingPeriod.startDate)} to ${formatDate(calculation.billingPeriod.endDate)}`]
+    ]);
+    this.drawParty(layout, 'Bill To', this.customerLines(customer, customer.name));
+
+    this.drawTable(layout, [
+      { header: '#', width: 0.06, align: 'center' },
+      { header: 'Description', width: 0.40 },
+      { header: 'Qty', width: 0.11, align: 'right' },
+      { header: 'Days', width: 0.09, align: 'right' },
+      { header: 'Rate / Day', width: 0.15, align: 'right' },
+      { header: 'Amount', width: 0.19, align: 'right' }
+    ], calculation.items.map((item, index) => [
+      `${index + 1}`,
+      item.periodStart && item.periodEnd
+        ? `${item.itemName}\n${formatDate(item.periodStart)} to ${formatDate(item.periodEnd)}`
+        : item.itemName,
+      `${item.quantity}`,
+      item.chargeType && item.chargeType !== 'rental' ? '' : `${item.totalDays}`,
+      formatAmount(item.dailyRate, currency),
+      formatAmount(item.subtotal, currency)
+    ]));
+
+    const totals: [string, string, boolean][] = [['Subtotal', formatAmount(calculation.subtotal, currency), false]];
+    if (calculation.discountAmount > 0) {
+      totals.push([`Discount (${this.percent(calculation.discountRate)})`, `-${formatAmount(calculation.discountAmount, currency)}`, false]);
+    }
+    if (calculation.taxAmount > 0) {
+      totals.push([`Tax (${this.percent(calculation.taxRate)})`, formatAmount(calculation.taxAmount, currency), false]);
+    }
+    totals.push([`Total (${currency})`, formatAmount(calculation.totalAmount, currency), true]);
+
+    this.drawTotals(layout, totals);
+    this.drawAmountInWords(layout, calculation.totalAmount, currency);
+    return this.finishDocument(layout);
+  }
+
+  /**
+   * Render a GST tax invoice
+   * @param invoice - GST invoice to render
+   * @returns PDF file contents
+   */
+  renderGstInvoice(invoice: GstInvoice): Buffer {
+    const currency = invoice.currency;
+    const isIntraState = invoice.supplyType === 'intra_state';
+    const title = (this.template.titles || {}).invoice || 'Tax Invoice';
+    const layout = this.startDocument(title, [
+      ['Invoice No', invoice.invoiceNumber],
+      ['Date', formatDate(invoice.invoiceDate)],
+      ['Place of Supply', `${invoice.placeOfSupply.stateName} (${invoice.placeOfSupply.stateCode})`],
+      ['Reverse Charge', invoice.reverseCharge ? 'Yes' : 'No']
+    ]);
+
+    const recipient = invoice.recipient;
+    this.drawParty(layout, 'Bill To', [
+      recipient.name,
+      recipient.address || '',
+      recipient.gstin ? `GSTIN: ${recipient.gstin}` : 'Unregistered',
+      `State: ${recipient.stateName} (${recipient.stateCode})`
+    ]);
+
+    this.drawTable(layout, [
+      { header: '#', width: 0.05, align: 'center' },
+      { header: 'Description', width: 0.27 },
+      { header: 'HSN/SAC', width: 0.1, align: 'center' },
+      { header: 'Qty', width: 0.08, align: 'right' },
+      { header: 'Days', width: 0.07, align: 'right' },
+      { header: 'Taxable', width: 0.14, align: 'right' },
+      { header: 'GST %', width: 0.08, align: 'right' },
+      { header: 'Tax', width: 0.1, align: 'right' },
+      { header: 'Total', width: 0.11, align: 'right' }
+    ], invoice.lines.map(line => [
+      `${line.serialNumber}`,
+      `${line.description}\n@ ${formatAmount(line.rate, currency)} / ${line.unit} / day`,
+      line.hsnSacCode,
+      `${line.quantity}`,
+      `${line.totalDays}`,
+      formatAmount(line.taxableValue, currency),
+      this.percent(line.gstRate),
+      formatAmount(line.cgstAmount + line.sgstAmount + line.igstAmount, currency),
+      formatAmount(line.totalAmount, currency)
+    ]));
+
+    const totals: [string, string, boolean][] = [
+      ['Taxable Value', formatAmount(invoice.totalTaxableValue, currency), false]
+    ];
+    if (isIntraState) {
+      totals.push(['CGST', formatAmount(invoice.totalCgst, currency), false]);
+      totals.push([invoice.stateTaxLabel, formatAmount(invoice.totalSgst, currency), false]);
+    } else {
+      totals.push(['IGST', formatAmount(invoice.totalIgst, currency), false]);
+    }
+    if (invoice.roundOff !== 0) {
+      totals.push(['Round Off', formatAmount(invoice.roundOff, currency), false]);
+    }
+    totals.push([`Invoice Total (${currency})`, formatAmount(invoice.invoiceTotal, currency), true]);
+
+    this.drawTotals(layout, totals);
+    this.drawAmountInWords(layout, invoice.invoiceTotal, currency);
+
+    this.drawTable(layout, [
+      { header: 'HSN/SAC', width: 0.2 },
+      { header: 'Taxable Value', width: 0.2, align: 'right' },
+      { header: 'GST %', width: 0.12, align: 'right' },
+      { header: isIntraState ? `CGST + ${invoice.stateTaxLabel}` : 'IGST', width: 0.24, align: 'right' },
+      { header: 'Total Tax', width: 0.24, align: 'right' }
+    ], invoice.hsnSummary.map(summary => [
+      summary.hsnSacCode,
+      formatAmount(summary.taxableValue, currency),
+      this.percent(summary.gstRate),
+      isIntraState
+        ? `${formatAmount(summary.cgstAmount, currency)} + ${formatAmount(summary.sgstAmount, currency)}`
+        : formatAmount(summary.igstAmount, currency),
+      formatAmount(summary.totalTax, currency)
+    ]));
+
+    this.drawSignature(layout, `For ${invoice.supplier.name}`);
+    return this.finishDocument(layout);
+  }
+
+  /**
+   * Render a customer's statement of account
+   * @param statement - Statement to render
+   * @param customer - Customer the statement is for
+   * @returns PDF file contents
+   */
+  renderAccountStatement(statement: AccountStatement, customer: Customer): Buffer {
+    const currency = this.user.billingConfig.currency;
+    const site = statement.siteId ? (customer.sites || []).find(s => s.id === statement.siteId) : undefined;
+    const title = (this.template.titles || {}).accountStatement || 'Statement of Account';
+    const meta: [string, string][] = [
+      ['Period', `${formatDate(statement.from)} to ${formatDate(statement.to)}`],
+      ['Date', formatDate(statement.generatedAt)]
+    ];
+    if (site) {
+      meta.push(['Site', site.name]);
+    }
+
+    const layout = this.startDocument(title, meta);
+    this.drawParty(layout, 'Account Of', this.customerLines(customer, customer.name));
+
+    const balance = (amount: number) => amount < 0
+      ? `${formatAmount(-amount, currency)} Cr`
+      : `${formatAmount(amount, currency)} Dr`;
+    this.drawTable(layout, [
+      { header: 'Date', width: 0.13 },
+      { header: 'Reference', width: 0.16 },
+      { header: 'Description', width: 0.29 },
+      { header: 'Debit', width: 0.13, align: 'right' },
+      { header: 'Credit', width: 0.13, align: 'right' },
+      { header: 'Balance', width: 0.16, align: 'right' }
+    ], [
+      [formatDate(statement.from), '', 'Opening balance', '', '', balance(statement.openingBalance)],
+      ...statement.lines.map(line => [
+        formatDate(line.entryDate),
+        line.reference,
+        line.description,
+        line.debit ? formatAmount(line.debit, currency) : '',
+        line.credit ? formatAmount(line.credit, currency) : '',
+        balance(line.balance)
+      ])
+    ]);
+
+    this.drawTotals(layout, [
+      ['Opening Balance', balance(statement.openingBalance), false],
+      ['Total Debits', formatAmount(statement.totalDebits, currency), false],
+      ['Total Credits', formatAmount(statement.totalCredits, currency), false],
+      [`Closing Balance (${currency})`, balance(statement.closingBalance), true]
+    ]);
+    return this.finishDocument(layout);
+  }
+
+  /**
+   * Replace the template used for subsequent documents
+   * @param template - Document template
+   */
+  setTemplate(template: DocumentTemplate): void {
+    this.template = template;
+  }
+
+  // Private layout methods
+  private startDocument(title: string, meta: [string, string][]): PageLayout {
+    const writer = new PdfWriter();
+    writer.addPage();
+    const layout: PageLayout = { writer, y: MARGIN };
+    const accent = this.accent();
+    const logo = this.template.logo;
+
+    let textLeft = MARGIN;
+    if (logo) {
+      writer.jpeg(logo.data, MARGIN, MARGIN, logo.width, logo.height);
+      textLeft += logo.width + 10;
+    }
+
+    let y = MARGIN + 14;
+    writer.text(textLeft, y, this.user.businessName, { font: 'bold', size: 15, color: accent });
+    const details = [
+      this.user.businessAddress || '',
+      this.user.phone ? `Phone: ${this.user.phone}` : '',
+      this.user.email,
+      this.user.gstin ? `GSTIN: ${this.user.gstin}` : ''
+    ].filter(line => line);
+    details.forEach(detail => {
+      writer.wrapText(detail, 250, 'regular', BODY_SIZE).forEach(line => {
+        y += 12;
+        writer.text(textLeft, y, line, { size: BODY_SIZE });
+      });
+    });
+
+    const right = writer.width - MARGIN;
+    let metaY = MARGIN + 16;
+    writer.text(right - 220, metaY, title.toUpperCase(), { font: 'bold', size: 16, color: accent, align: 'right', width: 220 });
+    meta.forEach(([label, value]) => {
+      metaY += 13;
+      writer.text(right - 220, metaY, `${label}: ${value}`, { size: BODY_SIZE, align: 'right', width: 220 });
+    });
+
+    layout.y = Math.max(y, metaY, logo ? MARGIN + logo.height : 0) + 12;
+    writer.line(MARGIN, layout.y, right, layout.y, { lineWidth: 1, strokeColor: accent });
+    layout.y += 16;
+    return layout;
+  }
+
+  private drawParty(layout: PageLayout, label: string, lines: string[]): void {
+    const { writer } = layout;
+    writer.text(MARGIN, layout.y, label.toUpperCase(), { font: 'bold', size: 8, color: this.accent() });
+    lines.filter(line => line).forEach((line, index) => {
+      writer.wrapText(line, 300, index === 0 ? 'bold' : 'regular', BODY_SIZE + 1).forEach(wrapped => {
+        layout.y += 13;
+        writer.text(MARGIN, layout.y, wrapped, { font: index === 0 ? 'bold' : 'regular', size: BODY_SIZE + 1 });
+      });
+    });
+    layout.y += 18;
+  }
+
+  private drawTable(layout: PageLayout, columns: TableColumn[], rows: string[][]): void {
+    const { writer } = layout;
+    const contentWidth = writer.width - MARGIN * 2;
+    const widths = columns.map(column => column.width * contentWidth);
+    const lineHeight = BODY_SIZE + 3;
+
+    const drawHeader = () => {
+      writer.rect(MARGIN, layout.y, contentWidth, lineHeight + ROW_PADDING * 2, { fillColor: this.accent() });
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        writer.text(x + ROW_PADDING, layout.y + ROW_PADDING + BODY_SIZE, column.header, {
+          font: 'bold', size: BODY_SIZE, color: '#ffffff', align: column.align, width: widths[index] - ROW_PADDING * 2
+        });
+        x += widths[index];
+      });
+      layout.y += lineHeight + ROW_PADDING * 2;
+    };
+
+    this.ensureSpace(layout, (lineHeight + ROW_PADDING * 2) * 2);
+    drawHeader();
+
+    rows.forEach(row => {
+      const cells = row.map((cell, index) =>
+        writer.wrapText(cell, widths[index] - ROW_PADDING * 2, 'regular', BODY_SIZE)
+      );
+      const rowHeight = Math.max(...cells.map(lines => lines.length)) * lineHeight + ROW_PADDING * 2;
+      if (this.ensureSpace(layout, rowHeight)) {
+        drawHeader();
+      }
+
+      let x = MARGIN;
+      cells.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => {
+          writer.text(x + ROW_PADDING, layout.y + ROW_PADDING + BODY_SIZE + lineIndex * lineHeight, line, {
+            size: BODY_SIZE, align: columns[index].align, width: widths[index] - ROW_PADDING * 2,
+            color: lineIndex > 0 ? '#555555' : '#000000'
+          });
+        });
+        x += widths[index];
+      });
+
+      layout.y += rowHeight;
+      writer.line(MARGIN, layout.y, MARGIN + contentWidth, layout.y, { strokeColor: '#cccccc' });
+    });
+
+    layout.y += 10;
+  }
+
+  private drawTotals(layout: PageLayout, totals: [string, string, boolean][]): void {
+    const { writer } = layout;
+    const right = writer.width - MARGIN;
+    this.ensureSpace(layout, totals.length * 15);
+
+    totals.forEach(([label, value, emphasise]) => {
+      layout.y += 14;
+      const font = emphasise ? 'bold' : 'regular';
+      writer.text(right - 260, layout.y, label, { font, size: BODY_SIZE + 1, align: 'right', width: 150 });
+      writer.text(right - 110, layout.y, value, { font, size: BODY_SIZE + 1, align: 'right', width: 110 });
+    });
+    layout.y += 14;
+  }
+
+  private drawAmountInWords(layout: PageLayout, amount: number, currency: string): void {
+    if (this.template.showAmountInWords === false) {
+      return;
+    }
+
+    const { writer } = layout;
+    const lines = writer.wrapText(amountToWords(amount, currency), writer.width - MARGIN * 2 - 90, 'regular', BODY_SIZE);
+    this.ensureSpace(layout, lines.length * 12 + 10);
+    writer.text(MARGIN, layout.y + 10, 'Amount in words:', { font: 'bold', size: BODY_SIZE });
+    lines.forEach((line, index) => {
+      writer.text(MARGIN + 90, layout.y + 10 + index * 12, line, { size: BODY_SIZE });
+    });
+    layout.y += lines.length * 12 + 16;
+  }
+
+  private drawNotes(layout: PageLayout, notes?: string): void {
+    if (!notes) {
+      return;
+    }
+    this.drawParagraphs(layout, 'Notes', [notes]);
+  }
+
+  private drawParagraphs(layout: PageLayout, heading: string, paragraphs: string[]): void {
+    const { writer } = layout;
+    this.ensureSpace(layout, 30);
+    layout.y += 10;
+    writer.text(MARGIN, layout.y, heading, { font: 'bold', size: BODY_SIZE, color: this.accent() });
+
+    paragraphs.forEach(paragraph => {
+      writer.wrapText(paragraph, writer.width - MARGIN * 2, 'regular', BODY_SIZE - 1).forEach(line => {
+        this.ensureSpace(layout, 12);
+        layout.y += 11;
+        writer.text(MARGIN, layout.y, line, { size: BODY_SIZE - 1, color: '#333333' });
+      });
+    });
+    layout.y += 6;
+  }
+
+  private drawSignature(layout: PageLayout, label: string, signature?: string): void {
+    const { writer } = layout;
+    const right = writer.width - MARGIN;
+    this.ensureSpace(layout, 60);
+    layout.y += 40;
+    if (signature) {
+      writer.text(right - 180, layout.y - 6, signature, { size: BODY_SIZE, align: 'center', width: 180 });
+    }
+    writer.line(right - 180, layout.y, right, layout.y);
+    writer.text(right - 180, layout.y + 12, label, { size: BODY_SIZE, align: 'center', width: 180 });
+    layout.y += 20;
+  }
+
+  private finishDocument(layout: PageLayout): Buffer {
+    const { writer } = layout;
+
+    if (this.template.terms && this.template.terms.length > 0) {
+      this.drawParagraphs(layout, 'Terms & Conditions', this.template.terms.map((term, i) => `${i + 1}. ${term}`));
+    }
+    if (this.template.signatureLabel) {
+      this.drawSignature(layout, this.template.signatureLabel);
+    }
+
+    const pageCount = writer.pageCount;
+    for (let page = 0; page < pageCount; page++) {
+      writer.setPage(page);
+      const footerY = writer.height - MARGIN + 10;
+      writer.line(MARGIN, footerY - 12, writer.width - MARGIN, footerY - 12, { strokeColor: '#cccccc' });
+      if (this.template.footerText) {
+        writer.text(MARGIN, footerY, this.template.footerText, { size: 8, color: '#555555' });
+      }
+      writer.text(writer.width - MARGIN - 100, footerY, `Page ${page + 1} of ${pageCount}`, {
+        size: 8, color: '#555555', align: 'right', width: 100
+      });
+    }
+
+    return writer.toBuffer();
+  }
+
+  // Start a new page when the next block would run into the footer
+  private ensureSpace(layout: PageLayout, height: number): boolean {
+    if (layout.y + height <= layout.writer.height - FOOTER_SPACE) {
+      return false;
+    }
+    layout.writer.addPage();
+    layout.y = MARGIN;
+    return true;
+  }
+
+  private customerLines(customer: Customer | undefined, fallbackName: string): string[] {
+    if (!customer) {
+      return [fallbackName];
+    }
+    return [
+      customer.name,
+      customer.address || '',
+      customer.phone ? `Phone: ${customer.phone}` : '',
+      customer.gstin ? `GSTIN: ${customer.gstin}` : ''
+    ];
+  }
+
+  private percent(rate: number): string {
+    return `${Math.round(rate * 10000) / 100}%`;
+  }
+
+  private accent(): string {
+    return this.template.accentColor || '#1f4e79';
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Minimal PDF writer for generated business documents.
+ *
+ * Supports text in the built-in Helvetica fonts, lines, rectangles and JPEG
+ * images, which is all the document templates need. It has no dependencies
+ * and never touches the network, so documents can be produced offline.
+ *
+ * Coordinates are in points measured from the top-left corner of the page.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: string; // Hex colour, e.g. '#1f4e79'
+  align?: 'left' | 'right' | 'center';
+  width?: number; // Box width used for right and centre alignment
+}
+
+export interface PdfShapeOptions {
+  lineWidth?: number;
+  strokeColor?: string;
+  fillColor?: string;
+}
+
+interface PdfImage {
+  name: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+  colorSpace: string;
+}
+
+// Glyph widths (per 1000 em) for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export class PdfWriter {
+  private pages: string[][] = [];
+  private currentPage: number = -1;
+  private images: PdfImage[] = [];
+  private pageWidth: number;
+  private pageHeight: number;
+
+  constructor(pageWidth: number = A4_WIDTH, pageHeight: number = A4_HEIGHT) {
+    this.pageWidth = pageWidth;
+    this.pageHeight = pageHeight;
+  }
+
+  get width(): number { return this.pageWidth; }
+  get height(): number { return this.pageHeight; }
+  get pageCount(): number { return this.pages.length; }
+
+  /**
+   * Start a new page; subsequent drawing goes to it
+   * @returns Zero-based index of the new page
+   */
+  addPage(): number {
+    this.pages.push([]);
+    this.currentPage = this.pages.length - 1;
+    return this.currentPage;
+  }
+
+  /**
+   * Select the page subsequent drawing goes to
+   * @param index - Zero-based page index
+   */
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`Page ${index} does not exist`);
+    }
+    this.currentPage = index;
+  }
+
+  /**
+   * Draw a single line of text with its baseline at y
+   */
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const font = options.font || 'regular';
+    const size = options.size || 10;
+    const textWidth = this.measureText(value, font, size);
+
+    let left = x;
+    if (options.align === 'right') {
+      left = x + (options.width || 0) - textWidth;
+    } else if (options.align === 'center') {
+      left = x + ((options.width || 0) - textWidth) / 2;
+    }
+
+    this.write(
+      `BT ${this.fillColor(options.color || '#000000')} /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ` +
+      `${this.num(left)} ${this.num(this.pageHeight - y)} Td (${this.escape(value)}) Tj ET`
+    );
+  }
+
+  /**
+   * Draw a straight line
+   */
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions = {}): void {
+    this.write(
+      `${this.num(options.lineWidth || 0.5)} w ${this.strokeColor(options.strokeColor || '#000000')} ` +
+      `${this.num(x1)} ${this.num(this.pageHeight - y1)} m ${this.num(x2)} ${this.num(this.pageHeight - y2)} l S`
+    );
+  }
+
+  /**
+   * Draw a rectangle with its top-left corner at (x, y)
+   */
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}): void {
+    const path = `${this.num(x)} ${this.num(this.pageHeight - y - height)} ${this.num(width)} ${this.num(height)} re`;
+    if (options.fillColor && options.strokeColor) {
+      this.write(`${this.num(options.lineWidth || 0.5)} w ${this.fillColor(options.fillColor)} ${this.strokeColor(options.strokeColor)} ${path} B`);
+    } else if (options.fillColor) {
+      this.write(`${this.fillColor(options.fillColor)} ${path} f`);
+    } else {
+      this.write(`${this.num(options.lineWidth || 0.5)} w ${this.strokeColor(options.strokeColor || '#000000')} ${path} S`);
+    }
+  }
+
+  /**
+   * Draw a JPEG image with its top-left corner at (x, y)
+   * @param data - JPEG file contents
+   */
+  jpeg(data: Uint8Array, x: number, y: number, width: number, height: number): void {
+    let image = this.images.find(i => i.data === data);
+    if (!image) {
+      image = { name: `Im${this.images.length + 1}`, data, ...this.readJpegInfo(data) };
+      this.images.push(image);
+    }
+
+    this.write(
+      `q ${this.num(width)} 0 0 ${this.num(height)} ${this.num(x)} ${this.num(this.pageHeight - y - height)} cm ` +
+      `/${image.name} Do Q`
+    );
+  }
+
+  /**
+   * Measure the width of a line of text
+   */
+  measureText(value: string, font: PdfFont = 'regular', size: number = 10): number {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+    return total * size / 1000;
+  }
+
+  /**
+   * Break text into lines that fit within a width
+   */
+  wrapText(value: string, maxWidth: number, font: PdfFont = 'regular', size: number = 10): string[] {
+    const lines: string[] = [];
+
+    value.split('\n').forEach(paragraph => {
+      let current = '';
+      paragraph.split(' ').forEach(word => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && this.measureText(candidate, font, size) > maxWidth) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = candidate;
+        }
+      });
+      lines.push(current);
+    });
+
+    return lines;
+  }
+
+  /**
+   * Serialise the document
+   * @returns PDF file contents
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+
+    const chunks: Buffer[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const push = (chunk: Buffer) => {
+      chunks.push(chunk);
+      length += chunk.length;
+    };
+    const object = (id: number, body: string | Buffer[]) => {
+      offsets[id] = length;
+      push(Buffer.from(`${id} 0 obj\n`, 'latin1'));
+      if (typeof body === 'string') {
+        push(Buffer.from(body, 'latin1'));
+      } else {
+        body.forEach(part => push(part));
+      }
+      push(Buffer.from('\nendobj\n', 'latin1'));
+    };
+    const stream = (dictionary: string, data: Buffer): Buffer[] => [
+      Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream', 'latin1')
+    ];
+
+    // Object layout: 1 catalog, 2 page tree, 3-4 fonts, then images, then page/content pairs
+    const firstImageId = 5;
+    const firstPageId = firstImageId + this.images.length;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+    const xObjects = this.images.map((image, index) => `/${image.name} ${firstImageId + index} 0 R`).join(' ');
+
+    push(Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1'));
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    this.images.forEach((image, index) => {
+      object(firstImageId + index, stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+        Buffer.from(image.data)
+      ));
+    });
+
+    this.pages.forEach((operators, index) => {
+      const pageId = pageIds[index];
+      object(pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.num(this.pageWidth)} ${this.num(this.pageHeight)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> ` +
+        `/Contents ${pageId + 1} 0 R >>`
+      );
+      object(pageId + 1, stream('', Buffer.from(operators.join('\n'), 'latin1')));
+    });
+
+    const objectCount = firstPageId + this.pages.length * 2;
+    const xrefOffset = length;
+    let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objectCount; id++) {
+      xref += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+    }
+    xref += `trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    push(Buffer.from(xref, 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+
+  // Private utility methods
+  private write(operator: string): void {
+    if (this.pages.length === 0) {
+      this.addPage();
+    }
+    this.pages[this.currentPage].push(operator);
+  }
+
+  private num(value: number): string {
+    return (Math.round(value * 100) / 100).toString();
+  }
+
+  private escape(value: string): string {
+    let result = '';
+    for (let i = 0; i < value.length; i++) {
+      const char = value.charAt(i);
+      const code = value.charCodeAt(i);
+      if (char === '\\' || char === '(' || char === ')') {
+        result += `\\${char}`;
+      } else if (code < 32 || code > 255) {
+        // Outside WinAnsi: the standard fonts cannot draw it
+        result += '?';
+      } else {
+        result += char;
+      }
+    }
+    return result;
+  }
+
+  private rgb(hex: string): string {
+    const value = hex.replace('#', '');
+    const channels = [0, 2, 4].map(i => parseInt(value.substr(i, 2), 16) / 255);
+    return channels.map(c => this.num(isNaN(c) ? 0 : c)).join(' ');
+  }
+
+  private fillColor(hex: string): string {
+    return `${this.rgb(hex)} rg`;
+  }
+
+  private strokeColor(hex: string): string {
+    return `${this.rgb(hex)} RG`;
+  }
+
+  // Read dimensions and colour space from the JPEG start-of-frame marker
+  private readJpegInfo(data: Uint8Array): { width: number; height: number; colorSpace: string } {
+    if (data[0] !== 0xff || data[1] !== 0xd8) {
+      throw new Error('Logo image must be a JPEG file');
+    }
+
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+      const marker = data[offset + 1];
+      const segmentLength = (data[offset + 2] << 8) + data[offset + 3];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf &&
+        marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+      if (isStartOfFrame) {
+        const components = data[offset + 9];
+        return {
+          height: (data[offset + 5] << 8) + data[offset + 6],
+          width: (data[offset + 7] << 8) + data[offset + 8],
+          colorSpace: components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB'
+        };
+      }
+      offset += 2 + segmentLength;
+    }
+
+    throw new Error('Could not read JPEG dimensions');
+  }
+}
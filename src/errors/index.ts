@@ -0,0 +1,57 @@
+// Error classes raised by the business managers
+
+import { StockShortfall } from '../types';
+
+/**
+ * Base class for errors raised by the library, carrying a stable code
+ * callers can switch on
+ */
+export class BillProMaxError extends Error {
+  readonly code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    // Restore the prototype chain, which is lost when targeting ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Raised when a challan asks for more stock than is available
+ */
+export class InsufficientStockError extends BillProMaxError {
+  readonly shortfalls: StockShortfall[];
+
+  constructor(shortfalls: StockShortfall[]) {
+    const summary = shortfalls
+      .map(s => `${s.itemName} (requested ${s.requested}, available ${s.available})`)
+      .join(', ');
+    super(`Insufficient stock: ${summary}`, 'INSUFFICIENT_STOCK');
+    this.shortfalls = shortfalls;
+  }
+}
+
+/**
+ * Raised when a client has not authenticated, or its token is invalid or
+ * has expired
+ */
+export class AuthenticationError extends BillProMaxError {
+  constructor(message: string, code: 'UNAUTHENTICATED' | 'INVALID_TOKEN' | 'TOKEN_EXPIRED' = 'UNAUTHENTICATED') {
+    super(message, code);
+  }
+}
+
+/**
+ * Raised when an authenticated account asks for a business's data it may
+ * not read
+ */
+export class AuthorizationError extends BillProMaxError {
+  readonly userId: string;
+
+  constructor(userId: string) {
+    super(`Not authorized to access user ${userId}`, 'FORBIDDEN');
+    this.userId = userId;
+  }
+}
@@ -6,11 +6,24 @@ import { RentalItemManager } from './managers/RentalItemManager';
 import { CustomerManager } from './managers/CustomerManager';
 import { BusinessManager } from './core/BusinessManager';
 import { MongoDBManager } from './cloud/MongoDBManager';
+import { OfflineSyncManager } from './cloud/OfflineSyncManager';
 import { WebSocketManager } from './cloud/WebSocketManager';
+import { getEntityKey, USER_DATA_ENTITIES } from './cloud/userDataSerialization';
+import {
+  CloudStorageConfig,
+  CloudStorageManager,
+  EntityChanges,
+  OfflineSyncOptions,
+  RecordVersions,
+  SyncResult,
+  UserDataChanges
+} from './types';
 
 // Core classes
 export { BillingCalculator } from './core/BillingCalculator';
 export { BusinessManager } from './core/BusinessManager';
+export { RentalLedger } from './core/RentalLedger';
+export { GstInvoiceGenerator } from './core/GstInvoiceGenerator';
 
 // Business entity managers
 export { RentalItemManager } from './managers/RentalItemManager';
@@ -18,17 +31,50 @@ export { CustomerManager } from './managers/CustomerManager';
 export { ChallanManager } from './managers/ChallanManager';
 export { DeliveryManager } from './managers/DeliveryManager';
 export { PaymentManager } from './managers/PaymentManager';
+export { RateCardManager } from './managers/RateCardManager';
+export { AccountLedgerManager } from './managers/AccountLedgerManager';
+export { DepositManager } from './managers/DepositManager';
+export { DamageAssessmentManager } from './managers/DamageAssessmentManager';
+export { BillingRunManager } from './managers/BillingRunManager';
+export { InvoiceManager } from './managers/InvoiceManager';
+export { DocumentNumberingManager } from './managers/DocumentNumberingManager';
+export { LateFeeManager } from './managers/LateFeeManager';
+export { DunningManager } from './managers/DunningManager';
+
+// Document rendering
+export { DocumentRenderer } from './documents/DocumentRenderer';
+export { PdfWriter } from './documents/PdfWriter';
+
+// Messaging
+export { LocalReminderChannel } from './messaging/LocalReminderChannel';
 
 // Cloud storage classes
 export { MongoDBManager } from './cloud/MongoDBManager';
+export { JsonFileStorageManager } from './cloud/JsonFileStorageManager';
+export { SqliteStorageManager } from './cloud/SqliteStorageManager';
+export { OfflineSyncManager } from './cloud/OfflineSyncManager';
+export { JsonFileOutboxStore } from './cloud/JsonFileOutboxStore';
 export { WebSocketManager } from './cloud/WebSocketManager';
+export { HmacTokenVerifier } from './cloud/HmacTokenVerifier';
+export { reviveUserDataStore, reviveEntity, getEntityKey, USER_DATA_ENTITIES } from './cloud/userDataSerialization';
+// Exported so authors of other storage adapters can check them against the same suite
+export { runStorageConformanceSuite } from './cloud/storageConformance';
 
 // Types
 export * from './types';
 
+// Errors
+export * from './errors';
+
 // Utility functions
 export * from './utils/dateUtils';
 export * from './utils/mathUtils';
+export * from './utils/gstUtils';
+export * from './utils/formatUtils';
+export * from './utils/rateUtils';
+export * from './utils/csvUtils';
+export * from './utils/lateFeeUtils';
+export * from './utils/jsonPatch';
 
 // Default configuration
 export const DEFAULT_BILLING_CONFIG = {
@@ -37,7 +83,8 @@ export const DEFAULT_BILLING_CONFIG = {
   defaultDiscountRate: 0.00, // 0%
   roundingPrecision: 2,
   lateFeeRate: 0.05, // 5% per day
-  gracePeriodDays: 3
+  gracePeriodDays: 3,
+  paymentTermsDays: 30
 };
 
 // Factory function to create a billing calculator with default config
@@ -51,6 +98,8 @@ export function createBillingSystem(config?: Partial<typeof DEFAULT_BILLING_CONF
   const billingCalculator = createBillingCalculator(config);
   const itemManager = new RentalItemManager();
   const customerManager = new CustomerManager(billingCalculator);
+  // Price orders with the items' rate slabs and minimum rental periods
+  billingCalculator.setItemCatalogue(() => itemManager.getAllItems(false));
   
   return {
     billingCalculator,
@@ -59,40 +108,109 @@ export function createBillingSystem(config?: Partial<typeof DEFAULT_BILLING_CONF
   };
 }
 
-// Factory function to create a cloud-enabled business system
+// Factory function to create a cloud-enabled business system. Pass any storage
+// adapter, or a MongoDB config to store in MongoDB.
 export function createCloudBusinessSystem(
   userData: any, 
-  mongoConfig?: any
+  storage?: CloudStorageManager | CloudStorageConfig
 ) {
   const businessManager = new BusinessManager(userData);
   
-  let mongoManager: MongoDBManager | null = null;
-  if (mongoConfig) {
-    mongoManager = new MongoDBManager(mongoConfig);
+  let storageManager: CloudStorageManager | null = null;
+  if (storage) {
+    storageManager = 'saveUserData' in storage ? storage : new MongoDBManager(storage);
   }
+  const syncedUsers = new Set<string>();
+  // Versions of the stored records as last loaded or written, by user
+  const knownVersions = new Map<string, RecordVersions>();
+
+  // Send each change with the version it was made from, so storage refuses it when
+  // someone else changed the record since
+  const withBaseVersions = (userId: string, entities: UserDataChanges): UserDataChanges => {
+    const known = knownVersions.get(userId) || {};
+    const result: { [entity: string]: EntityChanges } = {};
+    USER_DATA_ENTITIES.forEach(entity => {
+      const changes: EntityChanges | undefined = entities[entity];
+      if (!changes) {
+        return;
+      }
+      const versions = known[entity] || {};
+      const baseVersions: { [key: string]: number } = {};
+      changes.created.forEach(record => {
+        baseVersions[getEntityKey(entity, record)] = 0;
+      });
+      changes.updated.map(record => getEntityKey(entity, record)).concat(changes.deleted).forEach(key => {
+        if (versions[key]) {
+          baseVersions[key] = versions[key].version;
+        }
+      });
+      result[entity] = { ...changes, baseVersions };
+    });
+    return result as UserDataChanges;
+  };
+
+  const rememberVersions = (userId: string, versions: RecordVersions = {}) => {
+    const known: any = knownVersions.get(userId) || {};
+    Object.keys(versions).forEach(entity => {
+      known[entity] = { ...known[entity], ...(versions as any)[entity] };
+    });
+    knownVersions.set(userId, known);
+  };
   
   return {
     businessManager,
-    mongoManager,
-    // Helper method to sync with cloud
+    storageManager,
+    mongoManager: storageManager instanceof MongoDBManager ? storageManager : null,
+    // Helper method to sync with cloud. The first sync for a user uploads
+    // everything; later ones only push what changed since the last sync.
     async syncToCloud(userId: string) {
-      if (mongoManager) {
-        const dataStore = businessManager.getDataStore();
-        return await mongoManager.saveUserData(userId, dataStore);
+      if (storageManager) {
+        const changes = businessManager.getChanges();
+        let result: SyncResult | undefined;
+        if (syncedUsers.has(userId)) {
+          result = await storageManager.updateUserData(
+            userId,
+            changes.user ? { user: changes.user } : {},
+            withBaseVersions(userId, changes.entities)
+          );
+          rememberVersions(userId, result.versions);
+        }
+        // Nothing was written for a user missing from storage, e.g. deleted elsewhere.
+        // Changes refused as conflicts must not be forced over the stored data.
+        const conflicts = result && result.conflicts ? result.conflicts : [];
+        if (!result || (changes.count > 0 && result.recordsUpdated === 0 && conflicts.length === 0 &&
+          !(await storageManager.loadUserData(userId)))) {
+          result = await storageManager.saveUserData(userId, businessManager.getDataStore());
+          const stored = await storageManager.loadUserData(userId);
+          knownVersions.set(userId, (stored && stored.recordVersions) || {});
+        }
+        // Refused changes stay pending and are reported in the result; createOfflineSync merges them
+        businessManager.markSynced(result.conflicts || []);
+        syncedUsers.add(userId);
+        return result;
       }
-      throw new Error('MongoDB manager not configured');
+      throw new Error('Storage manager not configured');
     },
     // Helper method to load from cloud
     async loadFromCloud(userId: string) {
-      if (mongoManager) {
-        const dataStore = await mongoManager.loadUserData(userId);
+      if (storageManager) {
+        const dataStore = await storageManager.loadUserData(userId);
         if (dataStore) {
           // Update the business manager with cloud data
-          Object.assign(businessManager, { dataStore });
+          businessManager.loadDataStore(dataStore);
+          knownVersions.set(userId, dataStore.recordVersions || {});
+          syncedUsers.add(userId);
         }
         return dataStore;
       }
-      throw new Error('MongoDB manager not configured');
+      throw new Error('Storage manager not configured');
+    },
+    // Helper to keep working while offline and sync when back online
+    createOfflineSync(userId: string, options?: OfflineSyncOptions) {
+      if (storageManager) {
+        return new OfflineSyncManager(businessManager, storageManager, userId, options);
+      }
+      throw new Error('Storage manager not configured');
     }
   };
 }
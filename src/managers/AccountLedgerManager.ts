@@ -0,0 +1,398 @@
+import {
+  AccountEntry,
+  AccountEntryType,
+  AccountStatement,
+  AccountStatementLine,
+  BillingCalculation,
+  Payment,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { startOfDay, addDays, formatDate } from '../utils/dateUtils';
+import { roundTo } from '../utils/mathUtils';
+import { toCsv } from '../utils/csvUtils';
+
+/**
+ * Keeps each customer's account: what was invoiced, paid, credited and adjusted.
+ *
+ * Every entry is either a debit (the customer owes more) or a credit (the
+ * customer owes less), so the balance at any point is the sum of debits less
+ * credits up to that point. Entries are never edited; mistakes are corrected
+ * by reversing an entry or posting an adjustment.
+ */
+export class AccountLedgerManager {
+  private entries: AccountEntry[] = [];
+  private precision: number;
+  private tracker: ChangeTracker<AccountEntry>;
+
+  constructor(entries?: AccountEntry[], precision: number = 2) {
+    if (entries) {
+      this.entries = [...entries];
+    }
+    this.precision = precision;
+    this.tracker = new ChangeTracker<AccountEntry>(e => e.id, this.entries);
+  }
+
+  /**
+   * Post an invoice to the customer's account as a debit
+   * @param billing - Billing calculation being invoiced
+   * @param reference - Invoice number; defaults to the billing order ID
+   * @param entryDate - Invoice date
+   * @returns Posted entry
+   */
+  postInvoice(billing: BillingCalculation, reference?: string, entryDate: Date = new Date()): AccountEntry {
+    if (this.findPosted('invoice', billing.orderId)) {
+      throw new Error(`Billing ${billing.orderId} has already been invoiced`);
+    }
+
+    const period = `${formatDate(billing.billingPeriod.startDate)} to ${formatDate(billing.billingPeriod.endDate)}`;
+    return this.addEntry({
+      customerId: billing.customerId,
+      siteId: billing.siteId,
+      type: 'invoice',
+      entryDate,
+      reference: reference || billing.orderId,
+      sourceId: billing.orderId,
+      description: `Rental charges ${period}`,
+      debit: billing.totalAmount,
+      credit: 0
+    });
+  }
+
+  /**
+   * Post a received payment to the customer's account as a credit
+   * @param payment - Completed payment
+   * @returns Posted entry
+   */
+  postPayment(payment: Payment): AccountEntry {
+    if (payment.status !== 'completed') {
+      throw new Error('Only completed payments can be posted');
+    }
+    if (this.findPosted('payment', payment.id)) {
+      throw new Error(`Payment ${payment.id} has already been posted`);
+    }
+
+    return this.addEntry({
+      customerId: payment.customerId,
+      siteId: payment.siteId,
+      type: 'payment',
+      entryDate: payment.paymentDate,
+      reference: payment.referenceNumber || payment.id,
+      sourceId: payment.id,
+      description: `Payment received (${payment.paymentMethod.replace('_', ' ')})`,
+      debit: 0,
+      credit: payment.amount
+    });
+  }
+
+  /**
+   * Post the refund of a payment as a debit that reverses its credit
+   * @param paymentId - Payment ID
+   * @param entryDate - Refund date
+   * @returns Posted entry
+   */
+  postRefund(paymentId: string, entryDate: Date = new Date()): AccountEntry {
+    if (this.findPosted('refund', paymentId)) {
+      throw new Error(`Payment ${paymentId} has already been refunded`);
+    }
+    const posted = this.findPosted('payment', paymentId);
+    if (!posted) {
+      throw new Error(`Payment ${paymentId} has not been posted`);
+    }
+
+    return this.addEntry({
+      customerId: posted.customerId,
+      siteId: posted.siteId,
+      type: 'refund',
+      entryDate,
+      reference: posted.reference,
+      sourceId: paymentId,
+      reversesEntryId: posted.id,
+      description: 'Payment refunded',
+      debit: posted.credit,
+      credit: 0
+    });
+  }
+
+  /**
+   * Post a credit note reducing what the customer owes
+   * @param customerId - Customer ID
+   * @param amount - Amount credited
+   * @param reference - Credit note number
+   * @param description - Reason for the credit
+   * @param options - Entry date and site
+   * @returns Posted entry
+   */
+  postCreditNote(
+    customerId: string,
+    amount: number,
+    reference: string,
+    description: string,
+    options: { entryDate?: Date; siteId?: string; sourceId?: string } = {}
+  ): AccountEntry {
+    if (amount <= 0) {
+      throw new Error('Credit note amount must be positive');
+    }
+
+    return this.addEntry({
+      customerId,
+      siteId: options.siteId,
+      type: 'credit_note',
+      entryDate: options.entryDate || new Date(),
+      reference,
+      sourceId: options.sourceId,
+      description,
+      debit: 0,
+      credit: amount
+    });
+  }
+
+  /**
+   * Post a debit note adding to what the customer owes
+   * @param customerId - Customer ID
+   * @param amount - Amount debited
+   * @param reference - Debit note number
+   * @param description - Reason for the debit
+   * @param options - Entry date and site
+   * @returns Posted entry
+   */
+  postDebitNote(
+    customerId: string,
+    amount: number,
+    reference: string,
+    description: string,
+    options: { entryDate?: Date; siteId?: string; sourceId?: string } = {}
+  ): AccountEntry {
+    if (amount <= 0) {
+      throw new Error('Debit note amount must be positive');
+    }
+
+    return this.addEntry({
+      customerId,
+      siteId: options.siteId,
+      type: 'debit_note',
+      entryDate: options.entryDate || new Date(),
+      reference,
+      sourceId: options.sourceId,
+      description,
+      debit: amount,
+      credit: 0
+    });
+  }
+
+  /**
+   * Post a manual adjustment
+   * @param customerId - Customer ID
+   * @param amount - Positive to charge the customer, negative to credit them
+   * @param description - Reason for the adjustment
+   * @param options - Entry date, reference and site
+   * @returns Posted entry
+   */
+  postAdjustment(
+    customerId: string,
+    amount: number,
+    description: string,
+    options: { entryDate?: Date; reference?: string; siteId?: string } = {}
+  ): AccountEntry {
+    if (amount === 0) {
+      throw new Error('Adjustment amount must not be zero');
+    }
+
+    return this.addEntry({
+      customerId,
+      siteId: options.siteId,
+      type: 'adjustment',
+      entryDate: options.entryDate || new Date(),
+      reference: options.reference || 'ADJ',
+      description,
+      debit: amount > 0 ? amount : 0,
+      credit: amount < 0 ? -amount : 0
+    });
+  }
+
+  /**
+   * Reverse an entry by posting an adjustment for the opposite amount
+   * @param entryId - Entry to reverse
+   * @param description - Reason for the reversal
+   * @param entryDate - Reversal date
+   * @returns Posted reversal
+   */
+  reverseEntry(entryId: string, description: string, entryDate: Date = new Date()): AccountEntry {
+    const entry = this.entries.find(e => e.id === entryId);
+    if (!entry) {
+      throw new Error('Account entry not found');
+    }
+    if (this.entries.some(e => e.reversesEntryId === entryId)) {
+      throw new Error(`Entry ${entry.reference} has already been reversed`);
+    }
+
+    return this.addEntry({
+      customerId: entry.customerId,
+      siteId: entry.siteId,
+      type: 'adjustment',
+      entryDate,
+      reference: entry.reference,
+      sourceId: entry.sourceId,
+      reversesEntryId: entry.id,
+      description,
+      debit: entry.credit,
+      credit: entry.debit
+    });
+  }
+
+  /**
+   * Get a customer's entries in posting order
+   * @param customerId - Customer ID
+   * @param siteId - Limit to one site of the customer
+   * @returns Entries sorted by date
+   */
+  getEntries(customerId: string, siteId?: string): AccountEntry[] {
+    return this.entries
+      .filter(e => e.customerId === customerId && (!siteId || e.siteId === siteId))
+      .sort((a, b) => 
+        a.entryDate.getTime() - b.entryDate.getTime() || 
+        a.createdAt.getTime() - b.createdAt.getTime()
+      );
+  }
+
+  /**
+   * Get a customer's invoices that have not been reversed
+   * @param customerId - Customer ID
+   * @returns Invoice entries sorted by date
+   */
+  getInvoiceEntries(customerId: string): AccountEntry[] {
+    return this.getEntries(customerId).filter(e => 
+      e.type === 'invoice' && !this.entries.some(r => r.reversesEntryId === e.id)
+    );
+  }
+
+  /**
+   * Get what a customer owes at the end of a day
+   * @param customerId - Customer ID
+   * @param asOf - Day to evaluate
+   * @param siteId - Limit to one site of the customer
+   * @returns Balance; negative when the customer is in credit
+   */
+  getBalance(customerId: string, asOf: Date = new Date(), siteId?: string): number {
+    const cutoff = addDays(startOfDay(asOf), 1);
+    return this.sumBalance(this.getEntries(customerId, siteId).filter(e => e.entryDate < cutoff));
+  }
+
+  /**
+   * Get a statement of account for a period
+   * @param customerId - Customer ID
+   * @param from - First day of the statement
+   * @param to - Last day of the statement (inclusive)
+   * @param siteId - Limit to one site of the customer
+   * @returns Statement with opening, running and closing balances
+   */
+  getStatement(customerId: string, from: Date, to: Date, siteId?: string): AccountStatement {
+    const start = startOfDay(from);
+    const end = addDays(startOfDay(to), 1);
+    if (end <= start) {
+      throw new Error('Statement end date is before start date');
+    }
+
+    const entries = this.getEntries(customerId, siteId);
+    const openingBalance = this.sumBalance(entries.filter(e => e.entryDate < start));
+
+    let balance = openingBalance;
+    const lines: AccountStatementLine[] = entries
+      .filter(e => e.entryDate >= start && e.entryDate < end)
+      .map(entry => {
+        balance = roundTo(balance + entry.debit - entry.credit, this.precision);
+        return {
+          entryId: entry.id,
+          entryDate: entry.entryDate,
+          type: entry.type,
+          reference: entry.reference,
+          description: entry.description,
+          debit: entry.debit,
+          credit: entry.credit,
+          balance
+        };
+      });
+
+    return {
+      customerId,
+      siteId,
+      from: start,
+      to: startOfDay(to),
+      openingBalance,
+      lines,
+      totalDebits: roundTo(lines.reduce((sum, line) => sum + line.debit, 0), this.precision),
+      totalCredits: roundTo(lines.reduce((sum, line) => sum + line.credit, 0), this.precision),
+      closingBalance: balance,
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Export a statement of account as CSV
+   * @param statement - Statement to export
+   * @returns CSV text with opening and closing balance rows
+   */
+  exportStatementToCSV(statement: AccountStatement): string {
+    return toCsv(
+      ['Date', 'Type', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'],
+      [
+        [statement.from, '', '', 'Opening balance', '', '', statement.openingBalance],
+        ...statement.lines.map(line => [
+          line.entryDate,
+          line.type,
+          line.reference,
+          line.description,
+          line.debit || '',
+          line.credit || '',
+          line.balance
+        ]),
+        [statement.to, '', '', 'Closing balance', statement.totalDebits, statement.totalCredits, statement.closingBalance]
+      ]
+    );
+  }
+
+  // Private utility methods
+  private generateId(): string {
+    return `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private addEntry(entry: Omit<AccountEntry, 'id' | 'createdAt'>): AccountEntry {
+    const posted: AccountEntry = {
+      ...entry,
+      id: this.generateId(),
+      debit: roundTo(entry.debit, this.precision),
+      credit: roundTo(entry.credit, this.precision),
+      createdAt: new Date()
+    };
+    this.entries.push(posted);
+    return posted;
+  }
+
+  private findPosted(type: AccountEntryType, sourceId: string): AccountEntry | undefined {
+    // A reversed posting no longer counts, so it can be posted again
+    return this.entries.find(e => 
+      e.type === type && 
+      e.sourceId === sourceId && 
+      !this.entries.some(r => r.reversesEntryId === e.id)
+    );
+  }
+
+  private sumBalance(entries: AccountEntry[]): number {
+    return roundTo(entries.reduce((sum, e) => sum + e.debit - e.credit, 0), this.precision);
+  }
+
+  // Get entries created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<AccountEntry> {
+    return this.tracker.getChanges(this.entries);
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+
+  // Get current entries array (for BusinessManager to sync)
+  getAllEntries(): AccountEntry[] {
+    return this.entries;
+  }
+}
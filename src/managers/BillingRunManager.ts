@@ -0,0 +1,340 @@
+import {
+  BillingCalculation,
+  BillingCycle,
+  BillingPeriod,
+  BillingRun,
+  BillingRunInvoice,
+  BillingRunOptions,
+  BillingRunSkip,
+  Customer,
+  Invoice,
+  RunningBalanceBilling,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { addDays, calculateDaysBetween, formatDate, startOfDay } from '../utils/dateUtils';
+import { roundTo } from '../utils/mathUtils';
+
+interface BillingRunHandlers {
+  // Running-balance billing for a customer, with damage charges assessed up to chargesUpTo
+  calculate: (customer: Customer, startDate: Date, endDate: Date, chargesUpTo: Date) => RunningBalanceBilling;
+  // Finalize a billing calculation as an invoice
+  post: (billing: BillingCalculation) => Invoice;
+  // Whether a posted invoice still stands, i.e. has not been reversed
+  isInvoiced: (invoiceEntryId: string) => boolean;
+  // Every invoice finalized for a customer, including those raised by hand
+  getInvoices: (customerId: string) => Invoice[];
+  // First day a customer had stock out, which billing catches up from
+  getFirstRentalDate: (customerId: string) => Date | undefined;
+}
+
+// A stretch of days a customer has already been invoiced for
+interface BilledPeriod {
+  periodStart: Date;
+  periodEnd: Date;
+  reference?: string;
+  partial?: boolean; // Set when only some of the stock was invoiced, e.g. one site or one challan
+}
+
+const CALENDAR_MONTH: BillingCycle = { type: 'monthly', startDay: 1 };
+
+/**
+ * Runs recurring billing for customers on monthly or fortnightly cycles.
+ *
+ * Each run bills every customer's cycle periods that have ended by the run date,
+ * from the running stock balance, so rentals that started in earlier periods
+ * keep being billed until the stock comes back. Periods a missed run should
+ * have billed are caught up on the next one. The first and last periods of a
+ * rental are prorated to the days stock was actually held.
+ * Days already billed by an earlier run or invoiced by hand are skipped, and
+ * only the days around them are billed, so a run can safely be repeated.
+ */
+export class BillingRunManager {
+  private runs: BillingRun[] = [];
+  private precision: number;
+  private tracker: ChangeTracker<BillingRun>;
+
+  constructor(runs?: BillingRun[], precision: number = 2) {
+    if (runs) {
+      this.runs = [...runs];
+    }
+    this.precision = precision;
+    this.tracker = new ChangeTracker<BillingRun>(r => r.id, this.runs);
+  }
+
+  /**
+   * Get the billing cycle period a day falls in
+   * @param cycle - Billing cycle
+   * @param date - Day in the period
+   * @returns Period, with its end day inclusive
+   */
+  getCyclePeriod(cycle: BillingCycle, date: Date): BillingPeriod {
+    const day = startOfDay(date);
+    let start: Date;
+    let end: Date;
+
+    if (cycle.type === 'fortnightly') {
+      if (!cycle.anchorDate) {
+        throw new Error('A fortnightly billing cycle needs an anchor date');
+      }
+      const anchor = startOfDay(cycle.anchorDate);
+      const daysFromAnchor = Math.round((day.getTime() - anchor.getTime()) / (1000 * 3600 * 24));
+      start = addDays(anchor, Math.floor(daysFromAnchor / 14) * 14);
+      end = addDays(start, 13);
+    } else {
+      const startDay = cycle.startDay !== undefined ? cycle.startDay : 1;
+      if (startDay < 1 || startDay > 28 || Math.floor(startDay) !== startDay) {
+        throw new Error('A monthly billing cycle must start on a day from 1 to 28');
+      }
+      const monthOffset = day.getDate() >= startDay ? 0 : -1;
+      start = new Date(day.getFullYear(), day.getMonth() + monthOffset, startDay);
+      end = addDays(new Date(day.getFullYear(), day.getMonth() + monthOffset + 1, startDay), -1);
+    }
+
+    return {
+      startDate: start,
+      endDate: end,
+      totalDays: calculateDaysBetween(start, addDays(end, 1))
+    };
+  }
+
+  /**
+   * Get the last billing cycle period that has ended by a day
+   * @param cycle - Billing cycle
+   * @param asOf - Day the period must have ended by
+   * @returns Period, with its end day inclusive
+   */
+  getLastCompletedPeriod(cycle: BillingCycle, asOf: Date): BillingPeriod {
+    const current = this.getCyclePeriod(cycle, asOf);
+    if (current.endDate.getTime() === startOfDay(asOf).getTime()) {
+      return current;
+    }
+    return this.getCyclePeriod(cycle, addDays(current.startDate, -1));
+  }
+
+  /**
+   * Bill every customer's completed cycle periods that have not been billed yet
+   * @param customers - Customers to bill
+   * @param runDate - Day the run is for
+   * @param defaultCycle - Cycle for customers without their own
+   * @param handlers - Billing calculation, invoice posting and reversal lookup
+   * @param options - Customers to limit the run to and whether it is a dry run
+   * @returns Run summary with the invoices raised and the customers skipped
+   */
+  runBilling(
+    customers: Customer[],
+    runDate: Date,
+    defaultCycle: BillingCycle | undefined,
+    handlers: BillingRunHandlers,
+    options: BillingRunOptions = {}
+  ): BillingRun {
+    const run: BillingRun = {
+      id: this.generateId(),
+      runDate: startOfDay(runDate),
+      dryRun: !!options.dryRun,
+      invoices: [],
+      skipped: [],
+      totalAmount: 0,
+      createdAt: new Date()
+    };
+
+    const customerIds = options.customerIds || customers.map(c => c.id);
+    customerIds.forEach(customerId => {
+      const customer = customers.find(c => c.id === customerId);
+      const skip = (reason: BillingRunSkip['reason'], detail: string) => {
+        run.skipped.push({ customerId, customerName: customer ? customer.name : customerId, reason, detail });
+      };
+
+      if (!customer) {
+        skip('not_found', 'Customer not found');
+        return;
+      }
+      if (!customer.isActive) {
+        skip('inactive', 'Customer is inactive');
+        return;
+      }
+
+      try {
+        const billingCycle = customer.billingCycle || defaultCycle || CALENDAR_MONTH;
+        const lastPeriod = this.getLastCompletedPeriod(billingCycle, runDate);
+        const billedPeriods = this.getBilledPeriods(customer.id, handlers);
+        const periods = this.getPeriodsSince(billingCycle, handlers.getFirstRentalDate(customer.id), lastPeriod);
+
+        periods.forEach(cycle => {
+          const isLast = cycle === lastPeriod;
+          const billed = billedPeriods
+            .filter(invoice => invoice.periodStart <= cycle.endDate && invoice.periodEnd >= cycle.startDate);
+          const alreadyBilled = () => skip(
+            'already_billed',
+            `${formatDate(cycle.startDate)} to ${formatDate(cycle.endDate)} was billed on ${billed.map(i => i.reference).join(', ')}`
+          );
+
+          // A run bills all of a customer's stock together, so it cannot leave out a site or challan invoiced by hand
+          const partlyBilled = billed.filter(invoice => invoice.partial);
+          if (partlyBilled.length > 0) {
+            skip(
+              'already_billed',
+              `Part of ${formatDate(cycle.startDate)} to ${formatDate(cycle.endDate)} was invoiced by hand ` +
+              `on ${partlyBilled.map(i => i.reference).join(', ')}; bill the rest by hand`
+            );
+            return;
+          }
+
+          // Bill the days around anything already billed, e.g. a customer invoice raised by hand mid-period
+          const gaps = this.getUnbilledGaps(cycle, billed);
+          let invoiced = 0;
+          gaps.forEach((gap, index) => {
+            // Charges assessed after the last gap still belong to the period
+            const chargesUpTo = index === gaps.length - 1 ? cycle.endDate : gap.endDate;
+            let billing = handlers.calculate(customer, gap.startDate, gap.endDate, chargesUpTo);
+            if (billing.calculation.items.length === 0) {
+              return;
+            }
+            const heldDays = billing.dailyBalances
+              .filter(balance => balance.closingQuantity > 0)
+              .map(balance => balance.date.getTime());
+
+            // Prorate to the days stock was held when it went out or came back part way through
+            const periodStart = heldDays.length ? new Date(Math.min(...heldDays)) : gap.startDate;
+            const periodEnd = heldDays.length ? new Date(Math.max(...heldDays)) : gap.endDate;
+            if (periodStart.getTime() !== gap.startDate.getTime() || periodEnd.getTime() !== gap.endDate.getTime()) {
+              billing = handlers.calculate(customer, periodStart, periodEnd, chargesUpTo);
+            }
+
+            const invoice = run.dryRun ? undefined : handlers.post(billing.calculation);
+            run.invoices.push({
+              customerId: customer.id,
+              customerName: customer.name,
+              cycleStart: cycle.startDate,
+              cycleEnd: cycle.endDate,
+              periodStart,
+              periodEnd,
+              prorated: periodStart > cycle.startDate || periodEnd < cycle.endDate,
+              orderId: billing.calculation.orderId,
+              invoiceId: invoice && invoice.id,
+              invoiceEntryId: invoice && invoice.accountEntryId,
+              reference: invoice && invoice.invoiceNumber,
+              amount: billing.calculation.totalAmount
+            });
+            invoiced++;
+          });
+
+          // Earlier periods with nothing left to bill were accounted for by earlier runs
+          if (invoiced > 0 || !isLast) {
+            return;
+          }
+          if (billed.length > 0) {
+            alreadyBilled();
+          } else {
+            skip('no_rentals', `Nothing on rent or to charge from ${formatDate(cycle.startDate)} to ${formatDate(cycle.endDate)}`);
+          }
+        });
+      } catch (error) {
+        skip('error', error instanceof Error ? error.message : String(error));
+      }
+    });
+
+    run.totalAmount = roundTo(run.invoices.reduce((sum, invoice) => sum + invoice.amount, 0), this.precision);
+    if (!run.dryRun) {
+      this.runs.push(run);
+    }
+    return run;
+  }
+
+  /**
+   * Get a billing run by ID
+   * @param id - Run ID
+   * @returns Billing run or undefined if not found
+   */
+  getRun(id: string): BillingRun | undefined {
+    return this.runs.find(r => r.id === id);
+  }
+
+  /**
+   * Get the invoices billing runs have raised for a customer
+   * @param customerId - Customer ID
+   * @returns Run invoices, oldest period first
+   */
+  getCustomerInvoices(customerId: string): BillingRunInvoice[] {
+    const invoices: BillingRunInvoice[] = [];
+    this.runs.forEach(run => {
+      invoices.push(...run.invoices.filter(invoice => invoice.customerId === customerId));
+    });
+    return invoices.sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+  }
+
+  // Private utility methods
+  private generateId(): string {
+    return `billrun_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Cycle periods from the one a day falls in up to the last completed one; just the
+  // last when there is nothing earlier to catch up on
+  private getPeriodsSince(cycle: BillingCycle, from: Date | undefined, lastPeriod: BillingPeriod): BillingPeriod[] {
+    if (!from || startOfDay(from) >= lastPeriod.startDate) {
+      return [lastPeriod];
+    }
+
+    const periods: BillingPeriod[] = [];
+    let period = this.getCyclePeriod(cycle, from);
+    while (period.startDate < lastPeriod.startDate) {
+      periods.push(period);
+      period = this.getCyclePeriod(cycle, addDays(period.endDate, 1));
+    }
+    periods.push(lastPeriod);
+    return periods;
+  }
+
+  // Stretches of a period not covered by the periods already billed
+  private getUnbilledGaps(cycle: BillingPeriod, billed: BilledPeriod[]): { startDate: Date; endDate: Date }[] {
+    const gaps: { startDate: Date; endDate: Date }[] = [];
+    let start = cycle.startDate;
+    billed.forEach(invoice => {
+      if (invoice.periodStart > start) {
+        gaps.push({ startDate: start, endDate: addDays(startOfDay(invoice.periodStart), -1) });
+      }
+      if (invoice.periodEnd >= start) {
+        start = addDays(startOfDay(invoice.periodEnd), 1);
+      }
+    });
+    if (start <= cycle.endDate) {
+      gaps.push({ startDate: start, endDate: cycle.endDate });
+    }
+    return gaps;
+  }
+
+  // Periods invoiced by runs or by hand that have not since been reversed
+  private getBilledPeriods(customerId: string, handlers: BillingRunHandlers): BilledPeriod[] {
+    const runInvoices = this.getCustomerInvoices(customerId)
+      .filter(invoice => !!invoice.invoiceEntryId && handlers.isInvoiced(invoice.invoiceEntryId));
+    const runInvoiceIds = new Set(runInvoices.map(invoice => invoice.invoiceId));
+    const billed: BilledPeriod[] = [...runInvoices];
+
+    handlers.getInvoices(customerId)
+      .filter(invoice => !runInvoiceIds.has(invoice.id) && handlers.isInvoiced(invoice.accountEntryId))
+      .forEach(invoice => billed.push({
+        periodStart: startOfDay(invoice.billing.billingPeriod.startDate),
+        periodEnd: startOfDay(invoice.billing.billingPeriod.endDate),
+        reference: invoice.invoiceNumber,
+        // Customer-wide running-balance billing is the only kind that covers all the stock
+        partial: !!(invoice.siteId || invoice.billing.siteId) || invoice.billing.orderId.indexOf('ledger_') !== 0
+      }));
+
+    return billed.sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+  }
+
+  // Get billing runs created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<BillingRun> {
+    return this.tracker.getChanges(this.runs);
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+
+  // Get current billing runs array (for BusinessManager to sync)
+  getRuns(): BillingRun[] {
+    return this.runs;
+  }
+}
@@ -1,42 +1,242 @@
-import { Challan, ChallanItem, Customer } from '../types';
+import { 
+  Challan, 
+  ChallanItem, 
+  ChallanItemInput,
+  ChallanOptions, 
+  ReturnChallanItem, 
+  OutstandingQuantity,
+  RateResolver,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { DocumentNumberingManager } from './DocumentNumberingManager';
+import { startOfDay } from '../utils/dateUtils';
 
 export class ChallanManager {
   private challans: Challan[] = [];
+  private rateResolver?: RateResolver;
+  private numbering: DocumentNumberingManager = new DocumentNumberingManager();
+  private tracker: ChangeTracker<Challan>;
 
   constructor(challans?: Challan[]) {
     if (challans) {
       this.challans = [...challans];
     }
+    this.tracker = new ChangeTracker<Challan>(c => c.id, this.challans);
   }
 
   /**
-   * Create a new challan
+   * Set the lookup used to price challan lines entered without a daily rate
+   */
+  setRateResolver(resolver?: RateResolver): void {
+    this.rateResolver = resolver;
+  }
+
+  /**
+   * Set the number series challans and return challans are numbered from
+   */
+  setNumbering(numbering: DocumentNumberingManager): void {
+    this.numbering = numbering;
+  }
+
+  /**
+   * Create a new challan.
+   * Lines without a daily rate are priced from the customer's rate card, or the
+   * item's own rate when no card applies; typed-in rates are kept as manual rates.
    */
   createChallan(
     customerId: string, 
     customerName: string,
-    items: Omit<ChallanItem, 'itemName'>[], 
-    notes?: string
+    items: ChallanItemInput[], 
+    notes?: string,
+    options: ChallanOptions = {}
   ): Challan {
-    const challan: Challan = {
-      id: this.generateId(),
-      challanNumber: this.generateChallanNumber(),
-      customerId,
-      customerName,
-      challanDate: new Date(),
-      items: items.map(item => ({
-        ...item,
-        itemName: `Item ${item.itemId}`
-      })),
-      totalAmount: this.calculateChallanTotal(items),
-      status: 'pending',
-      notes,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+    const challanDate = options.challanDate || new Date();
+    if (options.expectedReturnDate && startOfDay(options.expectedReturnDate) < startOfDay(challanDate)) {
+      throw new Error('Expected return date is before the challan date');
+    }
+    const challanItems = items.map(item => 
+      this.priceChallanItem(item, customerId, options.siteId, challanDate)
+    );
+
+    return this.numbering.issue('challan', challanDate, challanNumber => {
+      const challan: Challan = {
+        id: this.generateId(),
+        challanNumber,
+        challanType: 'issue',
+        customerId,
+        customerName,
+        siteId: options.siteId,
+        challanDate,
+        items: challanItems,
+        totalAmount: this.calculateChallanTotal(challanItems),
+        status: 'pending',
+        stockOverride: options.stockOverride,
+        expectedReturnDate: options.expectedReturnDate,
+        notes,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      this.challans.push(challan);
+      return challan;
+    }, this.isNumberTaken);
+  }
+
+  /**
+   * Create a return challan recording stock returned against one or more issue challans.
+   * Throws if a line returns more than is outstanding on its source challan, or the
+   * return is dated before the challan it returns against.
+   */
+  createReturnChallan(
+    customerId: string,
+    customerName: string,
+    items: ReturnChallanItem[],
+    notes?: string,
+    options: ChallanOptions = {}
+  ): Challan {
+    if (items.length === 0) {
+      throw new Error('Return challan must have at least one item');
+    }
 
-    this.challans.push(challan);
-    return challan;
+    const challanDate = options.challanDate || new Date();
+    const requested = new Map<string, number>();
+    const returnItems: ChallanItem[] = items.map(item => {
+      if (item.quantity <= 0) {
+        throw new Error(`Return quantity for item ${item.itemId} must be positive`);
+      }
+
+      const source = this.challans.find(c => c.id === item.sourceChallanId);
+      if (!source || source.challanType === 'return') {
+        throw new Error(`Issue challan ${item.sourceChallanId} not found`);
+      }
+      if (source.customerId !== customerId) {
+        throw new Error(`Challan ${source.challanNumber} belongs to a different customer`);
+      }
+      if (source.status === 'cancelled') {
+        throw new Error(`Challan ${source.challanNumber} is cancelled`);
+      }
+      if (startOfDay(challanDate) < startOfDay(source.challanDate)) {
+        throw new Error(`Return date is before challan ${source.challanNumber} was issued`);
+      }
+
+      const sourceItem = source.items.find(i => i.itemId === item.itemId);
+      const outstanding = this.getOutstandingQuantities(source.id)
+        .find(o => o.itemId === item.itemId);
+      if (!sourceItem || !outstanding) {
+        throw new Error(`Item ${item.itemId} was not issued on challan ${source.challanNumber}`);
+      }
+
+      const key = `${source.id}:${item.itemId}`;
+      const total = (requested.get(key) || 0) + item.quantity;
+      if (total > outstanding.outstandingQuantity) {
+        throw new Error(
+          `Cannot return ${total} of item ${item.itemId} against challan ${source.challanNumber}: ` +
+          `only ${outstanding.outstandingQuantity} outstanding`
+        );
+      }
+      requested.set(key, total);
+
+      return {
+        itemId: item.itemId,
+        itemName: sourceItem.itemName,
+        quantity: item.quantity,
+        dailyRate: sourceItem.dailyRate,
+        rateSource: sourceItem.rateSource,
+        rateCardId: sourceItem.rateCardId,
+        rateCardName: sourceItem.rateCardName,
+        sourceChallanId: source.id,
+        notes: item.notes
+      };
+    });
+
+    const sourceChallanIds = returnItems
+      .map(item => item.sourceChallanId!)
+      .filter((id, index, ids) => ids.indexOf(id) === index);
+
+    // A return challan records stock coming back from a single site
+    const siteIds = sourceChallanIds
+      .map(id => this.challans.find(c => c.id === id)!.siteId)
+      .filter((id, index, ids) => ids.indexOf(id) === index);
+    if (siteIds.length > 1 || (options.siteId && siteIds[0] !== options.siteId)) {
+      throw new Error('All returned challans must belong to the same site as the return');
+    }
+
+    return this.numbering.issue('return_challan', challanDate, challanNumber => {
+      const challan: Challan = {
+        id: this.generateId(),
+        challanNumber,
+        challanType: 'return',
+        sourceChallanIds,
+        customerId,
+        customerName,
+        siteId: siteIds[0],
+        challanDate,
+        items: returnItems,
+        totalAmount: this.calculateChallanTotal(returnItems),
+        status: 'delivered',
+        notes,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      this.challans.push(challan);
+      sourceChallanIds.forEach(id => this.refreshReturnStatus(id));
+      return challan;
+    }, this.isNumberTaken);
+  }
+
+  /**
+   * Get issued, returned and outstanding quantities per item for an issue challan
+   */
+  getOutstandingQuantities(challanId: string): OutstandingQuantity[] {
+    const challan = this.challans.find(c => c.id === challanId);
+    if (!challan || challan.challanType === 'return') {
+      return [];
+    }
+
+    const quantities = new Map<string, OutstandingQuantity>();
+    challan.items.forEach(item => {
+      const existing = quantities.get(item.itemId);
+      if (existing) {
+        existing.issuedQuantity += item.quantity;
+        existing.outstandingQuantity += item.quantity;
+        return;
+      }
+      quantities.set(item.itemId, {
+        itemId: item.itemId,
+        itemName: item.itemName,
+        issuedQuantity: item.quantity,
+        returnedQuantity: 0,
+        outstandingQuantity: item.quantity
+      });
+    });
+
+    this.getReturnChallans(challanId)
+      .filter(c => c.status !== 'cancelled')
+      .forEach(returnChallan => {
+        returnChallan.items
+          .filter(item => item.sourceChallanId === challanId)
+          .forEach(item => {
+            const quantity = quantities.get(item.itemId);
+            if (quantity) {
+              quantity.returnedQuantity += item.quantity;
+              quantity.outstandingQuantity -= item.quantity;
+            }
+          });
+      });
+
+    return Array.from(quantities.values());
+  }
+
+  /**
+   * Get return challans, optionally only those recorded against an issue challan
+   */
+  getReturnChallans(sourceChallanId?: string): Challan[] {
+    return this.challans.filter(c => 
+      c.challanType === 'return' &&
+      (!sourceChallanId || (c.sourceChallanIds || []).indexOf(sourceChallanId) !== -1)
+    );
   }
 
   /**
@@ -68,7 +268,15 @@ export class ChallanManager {
   }
 
   /**
-   * Update challan status
+   * Get challans by site
+   */
+  getChallansBySite(siteId: string): Challan[] {
+    return this.challans.filter(c => c.siteId === siteId);
+  }
+
+  /**
+   * Update challan status.
+   * An issue challan is only marked returned once none of its stock is outstanding.
    */
   updateChallanStatus(challanId: string, status: Challan['status']): boolean {
     const challan = this.challans.find(c => c.id === challanId);
@@ -76,13 +284,18 @@ export class ChallanManager {
       return false;
     }
 
+    if (status === 'returned' && challan.challanType !== 'return' && this.getReturnTotals(challanId).outstanding > 0) {
+      return false;
+    }
+
     challan.status = status;
     challan.updatedAt = new Date();
     return true;
   }
 
   /**
-   * Update challan items
+   * Update challan items.
+   * Issue challans with returns recorded against them keep the items they were returned from.
    */
   updateChallanItems(challanId: string, items: ChallanItem[]): boolean {
     const challan = this.challans.find(c => c.id === challanId);
@@ -90,6 +303,10 @@ export class ChallanManager {
       return false;
     }
 
+    if (this.getReturnTotals(challanId).returned > 0) {
+      return false;
+    }
+
     challan.items = items;
     challan.totalAmount = this.calculateChallanTotal(items);
     challan.updatedAt = new Date();
@@ -119,7 +336,13 @@ export class ChallanManager {
       return false;
     }
 
-    this.challans.splice(index, 1);
+    // Issue challans with returns recorded against them must keep their history
+    if (this.getReturnChallans(challanId).length > 0) {
+      return false;
+    }
+
+    const [removed] = this.challans.splice(index, 1);
+    (removed.sourceChallanIds || []).forEach(id => this.refreshReturnStatus(id));
     return true;
   }
 
@@ -127,19 +350,24 @@ export class ChallanManager {
    * Get challan statistics
    */
   getChallanStats() {
-    const totalChallans = this.challans.length;
-    const pendingChallans = this.challans.filter(c => c.status === 'pending').length;
-    const deliveredChallans = this.challans.filter(c => c.status === 'delivered').length;
-    const returnedChallans = this.challans.filter(c => c.status === 'returned').length;
-    const cancelledChallans = this.challans.filter(c => c.status === 'cancelled').length;
-    const totalAmount = this.challans.reduce((sum, c) => sum + c.totalAmount, 0);
+    const issueChallans = this.challans.filter(c => c.challanType !== 'return');
+    const totalChallans = issueChallans.length;
+    const pendingChallans = issueChallans.filter(c => c.status === 'pending').length;
+    const deliveredChallans = issueChallans.filter(c => c.status === 'delivered').length;
+    const partiallyReturnedChallans = issueChallans.filter(c => c.status === 'partially_returned').length;
+    const returnedChallans = issueChallans.filter(c => c.status === 'returned').length;
+    const cancelledChallans = issueChallans.filter(c => c.status === 'cancelled').length;
+    const returnChallans = this.challans.length - issueChallans.length;
+    const totalAmount = issueChallans.reduce((sum, c) => sum + c.totalAmount, 0);
 
     return {
       totalChallans,
       pendingChallans,
       deliveredChallans,
+      partiallyReturnedChallans,
       returnedChallans,
       cancelledChallans,
+      returnChallans,
       totalAmount
     };
   }
@@ -173,18 +401,82 @@ export class ChallanManager {
     return `challan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private generateChallanNumber(): string {
-    const date = new Date();
-    const year = date.getFullYear();
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const count = this.challans.length + 1;
-    return `CH-${year}${month}-${count.toString().padStart(4, '0')}`;
+  // Numbers stay unique even when challans from another device carry numbers the counters have not reached
+  private isNumberTaken = (challanNumber: string): boolean => {
+    return this.challans.some(c => c.challanNumber === challanNumber);
+  };
+
+  // Use the typed-in rate, otherwise look one up
+  private priceChallanItem(
+    item: ChallanItemInput,
+    customerId: string,
+    siteId: string | undefined,
+    date: Date
+  ): ChallanItem {
+    const itemName = `Item ${item.itemId}`;
+    if (item.dailyRate !== undefined) {
+      return { ...item, itemName, dailyRate: item.dailyRate, rateSource: 'manual' };
+    }
+
+    const rate = this.rateResolver && this.rateResolver(item.itemId, customerId, siteId, date);
+    if (!rate) {
+      throw new Error(`No rate found for item ${item.itemId}; enter a daily rate`);
+    }
+
+    return {
+      ...item,
+      itemName,
+      dailyRate: rate.dailyRate,
+      rateSource: rate.rateSource,
+      rateCardId: rate.rateCardId,
+      rateCardName: rate.rateCardName
+    };
   }
 
-  private calculateChallanTotal(items: Omit<ChallanItem, 'itemName'>[]): number {
+  // Move an issue challan between delivered, partially returned and returned
+  private refreshReturnStatus(challanId: string): void {
+    const challan = this.challans.find(c => c.id === challanId);
+    if (!challan || challan.status === 'cancelled') {
+      return;
+    }
+
+    const { returned, outstanding } = this.getReturnTotals(challanId);
+    let status: Challan['status'];
+    if (returned === 0) {
+      status = challan.status === 'pending' ? 'pending' : 'delivered';
+    } else {
+      status = outstanding === 0 ? 'returned' : 'partially_returned';
+    }
+
+    if (status !== challan.status) {
+      challan.status = status;
+      challan.updatedAt = new Date();
+    }
+  }
+
+  // Quantities returned and still outstanding across all items of an issue challan
+  private getReturnTotals(challanId: string): { returned: number; outstanding: number } {
+    const quantities = this.getOutstandingQuantities(challanId);
+    return {
+      returned: quantities.reduce((sum, q) => sum + q.returnedQuantity, 0),
+      outstanding: quantities.reduce((sum, q) => sum + q.outstandingQuantity, 0)
+    };
+  }
+
+  private calculateChallanTotal(items: ChallanItem[]): number {
     return items.reduce((total, item) => total + (item.quantity * item.dailyRate), 0);
   }
 
+  // Get challans created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<Challan> {
+    return this.tracker.getChanges(this.challans);
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+
   // Get current challans array (for BusinessManager to sync)
   getChallans(): Challan[] {
     return this.challans;
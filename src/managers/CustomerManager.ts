@@ -1,5 +1,19 @@
-import { Customer, RentalOrder, BillingCalculation } from '../types';
+import { 
+  Customer, 
+  RentalOrder, 
+  BillingCalculation, 
+  Site, 
+  SiteStatement, 
+  StockPosition,
+  Challan,
+  Delivery,
+  Payment,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
 import { BillingCalculator } from '../core/BillingCalculator';
+import { RentalLedger } from '../core/RentalLedger';
+import { roundTo } from '../utils/mathUtils';
 
 /**
  * Manages customers and their operations
@@ -7,12 +21,14 @@ import { BillingCalculator } from '../core/BillingCalculator';
 export class CustomerManager {
   private customers: Map<string, Customer> = new Map();
   private billingCalculator: BillingCalculator;
+  private tracker: ChangeTracker<Customer>;
 
   constructor(billingCalculator: BillingCalculator, customers?: Customer[]) {
     this.billingCalculator = billingCalculator;
     if (customers) {
       customers.forEach(customer => this.addCustomer(customer));
     }
+    this.tracker = new ChangeTracker<Customer>(c => c.id, Array.from(this.customers.values()));
   }
 
   /**
@@ -115,6 +131,157 @@ export class CustomerManager {
     return this.updateCustomer(id, { taxExempt });
   }
 
+  /**
+   * Add a site (project) under a customer
+   * @param customerId - Customer ID
+   * @param site - Site details
+   * @returns Created site or undefined if the customer does not exist
+   */
+  addSite(
+    customerId: string, 
+    site: Omit<Site, 'id' | 'customerId' | 'isActive'> & { isActive?: boolean }
+  ): Site | undefined {
+    const customer = this.customers.get(customerId);
+    if (!customer) {
+      return undefined;
+    }
+
+    const newSite: Site = {
+      ...site,
+      id: this.generateSiteId(),
+      customerId,
+      isActive: site.isActive !== undefined ? site.isActive : true
+    };
+    this.updateCustomer(customerId, { sites: [...(customer.sites || []), newSite] });
+    return newSite;
+  }
+
+  /**
+   * Get a site by ID
+   * @param siteId - Site ID
+   * @returns Site or undefined if not found
+   */
+  getSite(siteId: string): Site | undefined {
+    let found: Site | undefined;
+    this.customers.forEach(customer => {
+      const site = (customer.sites || []).find(s => s.id === siteId);
+      if (site) {
+        found = site;
+      }
+    });
+    return found;
+  }
+
+  /**
+   * Get the sites of a customer
+   * @param customerId - Customer ID
+   * @param activeOnly - Return only active sites
+   * @returns Array of sites
+   */
+  getSites(customerId: string, activeOnly: boolean = true): Site[] {
+    const customer = this.customers.get(customerId);
+    const sites = customer ? customer.sites || [] : [];
+    return activeOnly ? sites.filter(site => site.isActive) : [...sites];
+  }
+
+  /**
+   * Update a site
+   * @param siteId - Site ID
+   * @param updates - Partial updates to apply
+   * @returns True if updated successfully
+   */
+  updateSite(siteId: string, updates: Partial<Omit<Site, 'id' | 'customerId'>>): boolean {
+    const site = this.getSite(siteId);
+    if (!site) {
+      return false;
+    }
+
+    const customer = this.customers.get(site.customerId)!;
+    const sites = (customer.sites || []).map(s => s.id === siteId ? { ...s, ...updates } : s);
+    return this.updateCustomer(customer.id, { sites });
+  }
+
+  /**
+   * Close a site once the project is finished
+   * @param siteId - Site ID
+   * @param closingDate - Date the site closed
+   * @returns True if closed successfully
+   */
+  closeSite(siteId: string, closingDate: Date = new Date()): boolean {
+    return this.updateSite(siteId, { closingDate, isActive: false });
+  }
+
+  /**
+   * Get the stock a site is holding
+   * @param siteId - Site ID
+   * @param challans - Challans of the customer
+   * @param asOf - Day to evaluate
+   * @returns Outstanding stock positions
+   */
+  getSiteOutstandingStock(siteId: string, challans: Challan[], asOf: Date = new Date()): StockPosition[] {
+    const site = this.getSite(siteId);
+    if (!site) {
+      return [];
+    }
+
+    const ledger = new RentalLedger(challans.filter(c => c.siteId === siteId));
+    return ledger.getPositions(site.customerId, asOf, siteId);
+  }
+
+  /**
+   * Build a statement of everything recorded against a site
+   * @param siteId - Site ID
+   * @param records - Challans, deliveries, payments and billing to draw from
+   * @param from - Include records on or after this date
+   * @param to - Include records on or before this date
+   * @returns Site statement or undefined if the site does not exist
+   */
+  getSiteStatement(
+    siteId: string,
+    records: {
+      challans: Challan[];
+      deliveries: Delivery[];
+      payments: Payment[];
+      billingCalculations: BillingCalculation[];
+    },
+    from?: Date,
+    to?: Date
+  ): SiteStatement | undefined {
+    const site = this.getSite(siteId);
+    if (!site) {
+      return undefined;
+    }
+
+    const inRange = (date: Date) => (!from || date >= from) && (!to || date <= to);
+    const siteChallans = records.challans.filter(c => c.siteId === siteId && inRange(c.challanDate));
+    const payments = records.payments.filter(p => p.siteId === siteId && inRange(p.paymentDate));
+    const billingCalculations = records.billingCalculations.filter(b => 
+      b.siteId === siteId && inRange(b.billingPeriod.endDate)
+    );
+
+    const totalBilled = roundTo(billingCalculations.reduce((sum, b) => sum + b.totalAmount, 0), 2);
+    const totalPaid = roundTo(payments
+      .filter(p => p.status === 'completed')
+      .reduce((sum, p) => sum + p.amount, 0), 2);
+
+    return {
+      customerId: site.customerId,
+      siteId,
+      siteName: site.name,
+      from,
+      to,
+      challans: siteChallans.filter(c => c.challanType !== 'return'),
+      returnChallans: siteChallans.filter(c => c.challanType === 'return'),
+      deliveries: records.deliveries.filter(d => d.siteId === siteId && inRange(d.deliveryDate)),
+      payments,
+      billingCalculations,
+      outstandingStock: this.getSiteOutstandingStock(siteId, records.challans, to || new Date()),
+      totalBilled,
+      totalPaid,
+      balance: roundTo(totalBilled - totalPaid, 2)
+    };
+  }
+
   /**
    * Search customers by name, email, or phone
    * @param query - Search query
@@ -232,6 +399,10 @@ export class CustomerManager {
     };
   }
 
+  private generateSiteId(): string {
+    return `site_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
   /**
    * Export customers to JSON
    * @returns JSON string of all customers
@@ -255,4 +426,14 @@ export class CustomerManager {
       return false;
     }
   }
+
+  // Get customers created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<Customer> {
+    return this.tracker.getChanges(Array.from(this.customers.values()));
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
 }
@@ -0,0 +1,217 @@
+import {
+  Challan,
+  RentalItem,
+  DamageAssessment,
+  DamageAssessmentInput,
+  DamageAssessmentItem,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { addDays, startOfDay } from '../utils/dateUtils';
+import { roundTo } from '../utils/mathUtils';
+
+/**
+ * Records damage and loss found when stock comes back on a return challan.
+ *
+ * A return challan lists everything that comes off rent, including units the
+ * customer could not give back. The assessment splits each returned line into
+ * damaged and lost units and prices them: damaged units at their repair cost,
+ * lost units at the item's replacement value. The charges stay unbilled until
+ * they are invoiced.
+ */
+export class DamageAssessmentManager {
+  private assessments: DamageAssessment[] = [];
+  private precision: number;
+  private tracker: ChangeTracker<DamageAssessment>;
+
+  constructor(assessments?: DamageAssessment[], precision: number = 2) {
+    if (assessments) {
+      this.assessments = [...assessments];
+    }
+    this.precision = precision;
+    this.tracker = new ChangeTracker<DamageAssessment>(a => a.id, this.assessments);
+  }
+
+  /**
+   * Assess the stock returned on a return challan
+   * @param returnChallan - Return challan the stock came back on
+   * @param inputs - Damaged and lost quantities per item
+   * @param catalogue - Rental items supplying names, repair charges and replacement values
+   * @param options - Assessment date, assessor and notes
+   * @returns Created assessment
+   */
+  createAssessment(
+    returnChallan: Challan,
+    inputs: DamageAssessmentInput[],
+    catalogue: RentalItem[],
+    options: { assessmentDate?: Date; assessedBy?: string; notes?: string } = {}
+  ): DamageAssessment {
+    if (returnChallan.challanType !== 'return') {
+      throw new Error(`Challan ${returnChallan.challanNumber} is not a return challan`);
+    }
+    if (this.getAssessmentByReturnChallan(returnChallan.id)) {
+      throw new Error(`Return challan ${returnChallan.challanNumber} has already been assessed`);
+    }
+
+    const items: DamageAssessmentItem[] = inputs.map(input => {
+      const damagedQuantity = input.damagedQuantity || 0;
+      const lostQuantity = input.lostQuantity || 0;
+      if (damagedQuantity < 0 || lostQuantity < 0 || (input.repairCost || 0) < 0) {
+        throw new Error(`Quantities and repair cost for item ${input.itemId} must not be negative`);
+      }
+
+      const returned = returnChallan.items
+        .filter(item => item.itemId === input.itemId)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      const assessed = inputs
+        .filter(i => i.itemId === input.itemId)
+        .reduce((sum, i) => sum + (i.damagedQuantity || 0) + (i.lostQuantity || 0), 0);
+      if (assessed > returned) {
+        throw new Error(
+          `Cannot assess ${assessed} of item ${input.itemId}: only ${returned} on challan ${returnChallan.challanNumber}`
+        );
+      }
+
+      const rentalItem = catalogue.find(item => item.id === input.itemId);
+      const replacementValue = rentalItem && rentalItem.replacementValue || 0;
+      const repairCost = input.repairCost !== undefined
+        ? input.repairCost
+        : damagedQuantity * (rentalItem && rentalItem.repairCharge || 0);
+
+      return {
+        itemId: input.itemId,
+        itemName: rentalItem ? rentalItem.name : `Item ${input.itemId}`,
+        damagedQuantity,
+        lostQuantity,
+        repairCost: roundTo(repairCost, this.precision),
+        replacementValue,
+        lossCharge: roundTo(lostQuantity * replacementValue, this.precision),
+        notes: input.notes
+      };
+    });
+
+    const assessment: DamageAssessment = {
+      id: this.generateId(),
+      returnChallanId: returnChallan.id,
+      returnChallanNumber: returnChallan.challanNumber,
+      customerId: returnChallan.customerId,
+      siteId: returnChallan.siteId,
+      assessmentDate: options.assessmentDate || new Date(),
+      items,
+      totalCharge: roundTo(
+        items.reduce((sum, item) => sum + item.repairCost + item.lossCharge, 0),
+        this.precision
+      ),
+      billingStatus: 'unbilled',
+      assessedBy: options.assessedBy,
+      notes: options.notes,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    this.assessments.push(assessment);
+    return assessment;
+  }
+
+  /**
+   * Get an assessment by ID
+   * @param id - Assessment ID
+   * @returns Assessment or undefined if not found
+   */
+  getAssessment(id: string): DamageAssessment | undefined {
+    return this.assessments.find(a => a.id === id);
+  }
+
+  /**
+   * Get the assessment of a return challan
+   * @param returnChallanId - Return challan ID
+   * @returns Assessment or undefined if the return has not been assessed
+   */
+  getAssessmentByReturnChallan(returnChallanId: string): DamageAssessment | undefined {
+    return this.assessments.find(a => a.returnChallanId === returnChallanId);
+  }
+
+  /**
+   * Get a customer's assessments
+   * @param customerId - Customer ID
+   * @returns Array of assessments
+   */
+  getAssessmentsByCustomer(customerId: string): DamageAssessment[] {
+    return this.assessments.filter(a => a.customerId === customerId);
+  }
+
+  /**
+   * Get assessments with charges still to be billed
+   * @param customerId - Customer ID
+   * @param siteId - Limit to one site of the customer
+   * @param upTo - Include only assessments made on or before this day
+   * @returns Unbilled assessments with a charge, oldest first
+   */
+  getUnbilledAssessments(customerId: string, siteId?: string, upTo?: Date): DamageAssessment[] {
+    const cutoff = upTo ? addDays(startOfDay(upTo), 1) : undefined;
+    return this.assessments
+      .filter(a =>
+        a.customerId === customerId &&
+        a.billingStatus === 'unbilled' &&
+        a.totalCharge > 0 &&
+        (!siteId || a.siteId === siteId) &&
+        (!cutoff || a.assessmentDate < cutoff)
+      )
+      .sort((a, b) => a.assessmentDate.getTime() - b.assessmentDate.getTime());
+  }
+
+  /**
+   * Mark an assessment's charges as billed
+   * @param id - Assessment ID
+   * @param reference - Invoice the charges were billed on
+   * @returns True if marked successfully
+   */
+  markBilled(id: string, reference: string): boolean {
+    const assessment = this.getAssessment(id);
+    if (!assessment || assessment.billingStatus === 'billed') {
+      return false;
+    }
+
+    assessment.billingStatus = 'billed';
+    assessment.billedReference = reference;
+    assessment.updatedAt = new Date();
+    return true;
+  }
+
+  /**
+   * Return billed charges to unbilled, e.g. when their invoice is reversed
+   * @param id - Assessment ID
+   * @returns True if updated successfully
+   */
+  markUnbilled(id: string): boolean {
+    const assessment = this.getAssessment(id);
+    if (!assessment || assessment.billingStatus === 'unbilled') {
+      return false;
+    }
+
+    assessment.billingStatus = 'unbilled';
+    assessment.billedReference = undefined;
+    assessment.updatedAt = new Date();
+    return true;
+  }
+
+  // Private utility methods
+  private generateId(): string {
+    return `assessment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Get assessments created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<DamageAssessment> {
+    return this.tracker.getChanges(this.assessments);
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+
+  // Get current assessments array (for BusinessManager to sync)
+  getAssessments(): DamageAssessment[] {
+    return this.assessments;
+  }
+}
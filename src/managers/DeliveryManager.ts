@@ -1,12 +1,15 @@
-import { Delivery, DeliveryItem, Challan } from '../types';
+import { Delivery, DeliveryItem, Challan, EntityChanges } from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
 
 export class DeliveryManager {
   private deliveries: Delivery[] = [];
+  private tracker: ChangeTracker<Delivery>;
 
   constructor(deliveries?: Delivery[]) {
     if (deliveries) {
       this.deliveries = [...deliveries];
     }
+    this.tracker = new ChangeTracker<Delivery>(d => d.id, this.deliveries);
   }
 
   /**
@@ -17,12 +20,14 @@ export class DeliveryManager {
     customerId: string,
     deliveryAddress: string,
     deliveryPerson: string,
-    items: Omit<DeliveryItem, 'itemName'>[]
+    items: Omit<DeliveryItem, 'itemName'>[],
+    siteId?: string
   ): Delivery {
     const delivery: Delivery = {
       id: this.generateId(),
       challanId,
       customerId,
+      siteId,
       deliveryDate: new Date(),
       deliveryAddress,
       items: items.map(item => ({
@@ -74,6 +79,13 @@ export class DeliveryManager {
     return this.deliveries.filter(d => d.customerId === customerId);
   }
 
+  /**
+   * Get deliveries by site
+   */
+  getDeliveriesBySite(siteId: string): Delivery[] {
+    return this.deliveries.filter(d => d.siteId === siteId);
+  }
+
   /**
    * Update delivery status
    */
@@ -230,6 +242,16 @@ export class DeliveryManager {
     return `delivery_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  // Get deliveries created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<Delivery> {
+    return this.tracker.getChanges(this.deliveries);
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+
   // Get current deliveries array (for BusinessManager to sync)
   getDeliveries(): Delivery[] {
     return this.deliveries;
@@ -0,0 +1,308 @@
+import {
+  SecurityDeposit,
+  DepositTransaction,
+  DepositTransactionType,
+  DepositHeldReport,
+  DepositHeldRow,
+  Customer,
+  Payment,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { addDays, startOfDay } from '../utils/dateUtils';
+import { roundTo } from '../utils/mathUtils';
+
+interface DepositTransactionOptions {
+  transactionDate?: Date;
+  reference?: string;
+  paymentId?: string;
+  paymentMethod?: Payment['paymentMethod'];
+  recordedBy?: string;
+}
+
+/**
+ * Manages security deposits held for customers or their sites.
+ *
+ * A deposit is money held on the customer's behalf, not revenue. It is built
+ * up by receipts, drawn down by deductions for damage and loss charges, and
+ * refunded when the customer or site closes. Every change is kept as a
+ * transaction so the deposit's history can be audited.
+ */
+export class DepositManager {
+  private deposits: SecurityDeposit[] = [];
+  private precision: number;
+  private tracker: ChangeTracker<SecurityDeposit>;
+
+  constructor(deposits?: SecurityDeposit[], precision: number = 2) {
+    if (deposits) {
+      this.deposits = [...deposits];
+    }
+    this.precision = precision;
+    this.tracker = new ChangeTracker<SecurityDeposit>(d => d.id, this.deposits);
+  }
+
+  /**
+   * Record a deposit received. Adds to the deposit already held for the
+   * customer or site, or opens a new one.
+   * @param customerId - Customer ID
+   * @param amount - Amount received
+   * @param siteId - Site the deposit is held for
+   * @param options - Date, reference, receipt payment and who recorded it
+   * @returns Updated deposit
+   */
+  collectDeposit(
+    customerId: string,
+    amount: number,
+    siteId?: string,
+    options: DepositTransactionOptions = {}
+  ): SecurityDeposit {
+    if (amount <= 0) {
+      throw new Error('Deposit amount must be positive');
+    }
+
+    let deposit = this.getHeldDeposit(customerId, siteId);
+    if (!deposit) {
+      deposit = {
+        id: this.generateId(),
+        customerId,
+        siteId,
+        status: 'held',
+        transactions: [],
+        heldAmount: 0,
+        openedAt: options.transactionDate || new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      this.deposits.push(deposit);
+    }
+
+    this.addTransaction(deposit, 'received', amount, options);
+    return deposit;
+  }
+
+  /**
+   * Deduct damage, loss or other charges from a deposit
+   * @param depositId - Deposit ID
+   * @param amount - Amount deducted
+   * @param reason - What the deduction is for
+   * @param options - Date, reference, payment the deduction was applied as and who recorded it
+   * @returns Deduction transaction
+   */
+  deductFromDeposit(
+    depositId: string,
+    amount: number,
+    reason: string,
+    options: DepositTransactionOptions = {}
+  ): DepositTransaction {
+    const deposit = this.requireHeldDeposit(depositId);
+    if (amount <= 0) {
+      throw new Error('Deduction amount must be positive');
+    }
+    if (amount > deposit.heldAmount) {
+      throw new Error(`Cannot deduct ${amount}: only ${deposit.heldAmount} is held`);
+    }
+
+    return this.addTransaction(deposit, 'deduction', amount, options, reason);
+  }
+
+  /**
+   * Refund a deposit. The deposit is closed once nothing is left held.
+   * @param depositId - Deposit ID
+   * @param paymentMethod - How the refund is paid out
+   * @param amount - Amount refunded; defaults to everything held
+   * @param options - Date, reference and who recorded it
+   * @returns Refund transaction
+   */
+  refundDeposit(
+    depositId: string,
+    paymentMethod: Payment['paymentMethod'],
+    amount?: number,
+    options: DepositTransactionOptions = {}
+  ): DepositTransaction {
+    const deposit = this.requireHeldDeposit(depositId);
+    const refundAmount = amount !== undefined ? amount : deposit.heldAmount;
+    if (refundAmount <= 0) {
+      throw new Error('Nothing is held to refund');
+    }
+    if (refundAmount > deposit.heldAmount) {
+      throw new Error(`Cannot refund ${refundAmount}: only ${deposit.heldAmount} is held`);
+    }
+
+    const transaction = this.addTransaction(deposit, 'refund', refundAmount, { ...options, paymentMethod });
+    if (deposit.heldAmount === 0) {
+      deposit.status = 'closed';
+      deposit.closedAt = transaction.transactionDate;
+    }
+    return transaction;
+  }
+
+  /**
+   * Get a deposit by ID
+   * @param depositId - Deposit ID
+   * @returns Deposit or undefined if not found
+   */
+  getDeposit(depositId: string): SecurityDeposit | undefined {
+    return this.deposits.find(d => d.id === depositId);
+  }
+
+  /**
+   * Get the deposit currently held for a customer, or for one of its sites
+   * @param customerId - Customer ID
+   * @param siteId - Site ID; omit for the customer-level deposit
+   * @returns Held deposit or undefined if none is open
+   */
+  getHeldDeposit(customerId: string, siteId?: string): SecurityDeposit | undefined {
+    return this.deposits.find(d =>
+      d.customerId === customerId && d.siteId === siteId && d.status === 'held'
+    );
+  }
+
+  /**
+   * Get a customer's deposits
+   * @param customerId - Customer ID
+   * @param heldOnly - Return only deposits still held
+   * @returns Array of deposits
+   */
+  getDepositsByCustomer(customerId: string, heldOnly: boolean = false): SecurityDeposit[] {
+    return this.deposits.filter(d =>
+      d.customerId === customerId && (!heldOnly || d.status === 'held')
+    );
+  }
+
+  /**
+   * Get the audit trail of a deposit
+   * @param depositId - Deposit ID
+   * @returns Transactions in the order they were recorded
+   */
+  getAuditTrail(depositId: string): DepositTransaction[] {
+    const deposit = this.getDeposit(depositId);
+    return deposit ? [...deposit.transactions] : [];
+  }
+
+  /**
+   * Get the total held across all deposits
+   * @returns Amount held
+   */
+  getTotalHeld(): number {
+    return roundTo(this.deposits.reduce((sum, d) => sum + d.heldAmount, 0), this.precision);
+  }
+
+  /**
+   * Report the deposits held at the end of a day
+   * @param customers - Customers used for names and site names
+   * @param asOf - Day to report on
+   * @returns Deposits with money held, largest first
+   */
+  getDepositHeldReport(customers: Customer[], asOf: Date = new Date()): DepositHeldReport {
+    const cutoff = addDays(startOfDay(asOf), 1);
+    const rows: DepositHeldRow[] = [];
+
+    this.deposits.forEach(deposit => {
+      const transactions = deposit.transactions.filter(t => t.transactionDate < cutoff);
+      if (transactions.length === 0) {
+        return;
+      }
+
+      const total = (type: DepositTransactionType) => roundTo(
+        transactions.filter(t => t.type === type).reduce((sum, t) => sum + t.amount, 0),
+        this.precision
+      );
+      const receivedAmount = total('received');
+      const deductedAmount = total('deduction');
+      const refundedAmount = total('refund');
+      const heldAmount = roundTo(receivedAmount - deductedAmount - refundedAmount, this.precision);
+      if (heldAmount <= 0) {
+        return;
+      }
+
+      const customer = customers.find(c => c.id === deposit.customerId);
+      const site = customer && deposit.siteId
+        ? (customer.sites || []).find(s => s.id === deposit.siteId)
+        : undefined;
+      rows.push({
+        depositId: deposit.id,
+        customerId: deposit.customerId,
+        customerName: customer ? customer.name : deposit.customerId,
+        siteId: deposit.siteId,
+        siteName: site ? site.name : undefined,
+        receivedAmount,
+        deductedAmount,
+        refundedAmount,
+        heldAmount,
+        lastTransactionDate: transactions
+          .map(t => t.transactionDate)
+          .reduce((latest, date) => date > latest ? date : latest)
+      });
+    });
+
+    rows.sort((a, b) => b.heldAmount - a.heldAmount);
+    return {
+      asOf: startOfDay(asOf),
+      rows,
+      totalHeld: roundTo(rows.reduce((sum, row) => sum + row.heldAmount, 0), this.precision)
+    };
+  }
+
+  // Private utility methods
+  private generateId(): string {
+    return `deposit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private generateTransactionId(): string {
+    return `deptxn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private requireHeldDeposit(depositId: string): SecurityDeposit {
+    const deposit = this.getDeposit(depositId);
+    if (!deposit) {
+      throw new Error('Deposit not found');
+    }
+    if (deposit.status !== 'held') {
+      throw new Error('Deposit is closed');
+    }
+    return deposit;
+  }
+
+  private addTransaction(
+    deposit: SecurityDeposit,
+    type: DepositTransactionType,
+    amount: number,
+    options: DepositTransactionOptions,
+    reason?: string
+  ): DepositTransaction {
+    const change = type === 'received' ? amount : -amount;
+    deposit.heldAmount = roundTo(deposit.heldAmount + change, this.precision);
+    deposit.updatedAt = new Date();
+
+    const transaction: DepositTransaction = {
+      id: this.generateTransactionId(),
+      type,
+      amount: roundTo(amount, this.precision),
+      balanceAfter: deposit.heldAmount,
+      transactionDate: options.transactionDate || new Date(),
+      reason,
+      reference: options.reference,
+      paymentId: options.paymentId,
+      paymentMethod: options.paymentMethod,
+      recordedBy: options.recordedBy,
+      createdAt: new Date()
+    };
+    deposit.transactions.push(transaction);
+    return transaction;
+  }
+
+  // Get deposits created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<SecurityDeposit> {
+    return this.tracker.getChanges(this.deposits);
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+
+  // Get current deposits array (for BusinessManager to sync)
+  getDeposits(): SecurityDeposit[] {
+    return this.deposits;
+  }
+}
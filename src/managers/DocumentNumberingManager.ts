@@ -0,0 +1,195 @@
+import {
+  DocumentCounter,
+  DocumentNumberingConfig,
+  DocumentSeries,
+  NumberingSeriesConfig,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+
+const DEFAULT_PREFIXES: Record<DocumentSeries, string> = {
+  challan: 'CH',
+  return_challan: 'RC',
+  invoice: 'INV',
+  receipt: 'RCPT',
+  credit_note: 'CN',
+  debit_note: 'DN'
+};
+
+const DEFAULT_PATTERN = '{prefix}/{fy}/{seq}';
+const DEFAULT_PADDING = 4;
+
+/**
+ * Issues document numbers from series that restart every Indian financial
+ * year (April to March), e.g. CH/24-25/0001.
+ *
+ * A number is only consumed once the document it was issued for has been
+ * created, so a failed create leaves no gap. Numbers already used by another
+ * writer are skipped rather than issued twice, and counters merged in from
+ * elsewhere only ever move forward.
+ */
+export class DocumentNumberingManager {
+  private counters: DocumentCounter[] = [];
+  private config: DocumentNumberingConfig;
+  private tracker: ChangeTracker<DocumentCounter>;
+
+  constructor(counters?: DocumentCounter[], config: DocumentNumberingConfig = {}) {
+    if (counters) {
+      this.counters = counters.map(counter => ({ ...counter }));
+    }
+    this.config = { ...config };
+    this.tracker = new ChangeTracker<DocumentCounter>(c => `${c.series}:${c.financialYear}`, this.counters);
+  }
+
+  /**
+   * Issue the next number in a series and create the document that carries it
+   * @param series - Number series
+   * @param documentDate - Document date; picks the financial year
+   * @param create - Creates the document with the number given
+   * @param isTaken - Whether a number is already on a document, e.g. one synced from another device
+   * @returns The created document
+   */
+  issue<T>(
+    series: DocumentSeries,
+    documentDate: Date,
+    create: (documentNumber: string) => T,
+    isTaken?: (documentNumber: string) => boolean
+  ): T {
+    const financialYear = this.getFinancialYear(documentDate);
+    const sequence = this.nextSequence(series, financialYear, isTaken);
+    const document = create(this.formatNumber(series, financialYear, sequence));
+
+    // Only consume the number once the document exists
+    const counter = this.getCounter(series, financialYear);
+    if (counter) {
+      counter.lastNumber = Math.max(counter.lastNumber, sequence);
+      counter.updatedAt = new Date();
+    } else {
+      this.counters.push({ series, financialYear, lastNumber: sequence, updatedAt: new Date() });
+    }
+    return document;
+  }
+
+  /**
+   * Preview the number the next document in a series would get, without using it
+   * @param series - Number series
+   * @param documentDate - Document date; picks the financial year
+   * @param isTaken - Whether a number is already on a document
+   * @returns Next document number
+   */
+  peekNext(series: DocumentSeries, documentDate: Date, isTaken?: (documentNumber: string) => boolean): string {
+    const financialYear = this.getFinancialYear(documentDate);
+    return this.formatNumber(series, financialYear, this.nextSequence(series, financialYear, isTaken));
+  }
+
+  /**
+   * Get the Indian financial year a date falls in
+   * @param date - Date
+   * @returns Financial year, e.g. 2024-25 for any day from 1 April 2024 to 31 March 2025
+   */
+  getFinancialYear(date: Date): string {
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${((startYear + 1) % 100).toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Format a document number
+   * @param series - Number series
+   * @param financialYear - Financial year, e.g. 2024-25
+   * @param sequence - Position in the series
+   * @returns Document number
+   */
+  formatNumber(series: DocumentSeries, financialYear: string, sequence: number): string {
+    const config = this.getSeriesConfig(series);
+    const startYear = financialYear.split('-')[0];
+    return config.pattern
+      .replace(/\{prefix\}/g, config.prefix)
+      .replace(/\{fyFull\}/g, financialYear)
+      .replace(/\{fy\}/g, `${startYear.slice(-2)}-${financialYear.split('-')[1]}`)
+      .replace(/\{seq\}/g, sequence.toString().padStart(config.padding, '0'));
+  }
+
+  /**
+   * Change the prefix, pattern or padding of a series. Numbers already issued keep their format.
+   * @param series - Number series
+   * @param config - Settings to change
+   */
+  configureSeries(series: DocumentSeries, config: NumberingSeriesConfig): void {
+    if (config.pattern !== undefined && config.pattern.indexOf('{seq}') === -1) {
+      throw new Error('A numbering pattern must contain {seq}');
+    }
+    if (config.padding !== undefined && (config.padding < 1 || Math.floor(config.padding) !== config.padding)) {
+      throw new Error('Numbering padding must be a positive whole number');
+    }
+    this.config[series] = { ...this.config[series], ...config };
+  }
+
+  /**
+   * Get the settings a series numbers with
+   * @param series - Number series
+   * @returns Prefix, pattern and padding with defaults filled in
+   */
+  getSeriesConfig(series: DocumentSeries): Required<NumberingSeriesConfig> {
+    const config = this.config[series] || {};
+    return {
+      prefix: config.prefix !== undefined ? config.prefix : DEFAULT_PREFIXES[series],
+      pattern: config.pattern || DEFAULT_PATTERN,
+      padding: config.padding || DEFAULT_PADDING
+    };
+  }
+
+  /**
+   * Bring in counters saved by another writer. A counter only moves forward,
+   * so numbers either side has issued are never issued again.
+   * @param counters - Counters to merge
+   */
+  mergeCounters(counters: DocumentCounter[]): void {
+    counters.forEach(incoming => {
+      const counter = this.getCounter(incoming.series, incoming.financialYear);
+      if (!counter) {
+        this.counters.push({ ...incoming });
+      } else if (incoming.lastNumber > counter.lastNumber) {
+        counter.lastNumber = incoming.lastNumber;
+        counter.updatedAt = new Date();
+      }
+    });
+  }
+
+  // Private utility methods
+  private getCounter(series: DocumentSeries, financialYear: string): DocumentCounter | undefined {
+    return this.counters.find(c => c.series === series && c.financialYear === financialYear);
+  }
+
+  private nextSequence(
+    series: DocumentSeries,
+    financialYear: string,
+    isTaken?: (documentNumber: string) => boolean
+  ): number {
+    const counter = this.getCounter(series, financialYear);
+    let sequence = (counter ? counter.lastNumber : 0) + 1;
+    while (isTaken && isTaken(this.formatNumber(series, financialYear, sequence))) {
+      sequence++;
+    }
+    return sequence;
+  }
+
+  // Get counters created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<DocumentCounter> {
+    return this.tracker.getChanges(this.counters);
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+
+  // Get current counters array (for BusinessManager to sync)
+  getCounters(): DocumentCounter[] {
+    return this.counters;
+  }
+
+  // Get current numbering settings (for BusinessManager to sync)
+  getConfig(): DocumentNumberingConfig {
+    return this.config;
+  }
+}
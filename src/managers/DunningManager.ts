@@ -0,0 +1,350 @@
+import {
+  Customer,
+  DueReminder,
+  DunningConfig,
+  DunningLevel,
+  DunningStep,
+  InvoiceBalance,
+  ReminderChannel,
+  ReminderChannelType,
+  ReminderRecord,
+  ReminderTemplate,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { addDays, formatDate, startOfDay } from '../utils/dateUtils';
+import { formatAmount, renderTemplate } from '../utils/formatUtils';
+import { roundTo } from '../utils/mathUtils';
+
+const DEFAULT_TEMPLATES: Record<DunningLevel, ReminderTemplate> = {
+  friendly: {
+    subject: 'Payment reminder from {businessName}',
+    body: 'Dear {customerName}, this is a friendly reminder that {currency} {amount} is overdue on ' +
+      'invoice {invoiceNumbers}. We would be grateful if you could arrange payment at your earliest ' +
+      'convenience. Thank you, {businessName}'
+  },
+  firm: {
+    subject: 'Overdue payment: {currency} {amount}',
+    body: 'Dear {customerName}, {currency} {amount} on invoice {invoiceNumbers} is now {daysPastDue} days ' +
+      'overdue. Please make payment immediately or contact us to discuss it. {businessName}'
+  },
+  final: {
+    subject: 'Final notice: {currency} {amount} overdue',
+    body: 'Dear {customerName}, this is a final notice. {currency} {amount} on invoice {invoiceNumbers} ' +
+      'has been overdue since {oldestDueDate}. Unless it is paid within 7 days we will suspend further ' +
+      'rentals and take steps to recover the amount. {businessName}'
+  }
+};
+
+const DEFAULT_STEPS: DunningStep[] = [
+  { level: 'friendly', daysPastDue: 1, channels: ['email'] },
+  { level: 'firm', daysPastDue: 15, channels: ['email', 'sms'] },
+  { level: 'final', daysPastDue: 30, channels: ['email', 'sms', 'whatsapp'] }
+];
+
+const DEFAULT_MIN_DAYS_BETWEEN = 7;
+
+/**
+ * Chases overdue invoices with payment reminders that escalate along a ladder
+ * of steps, e.g. friendly, then firm, then final.
+ *
+ * An invoice reaches a step once it is that many days past due. A customer is
+ * due a reminder when one of their invoices has reached a step it has not yet
+ * been reminded at, and the reminder covers everything they have overdue.
+ * Reminders go out through the channels registered for email, SMS or WhatsApp;
+ * only reminders that were sent count towards the history.
+ */
+export class DunningManager {
+  private reminders: ReminderRecord[] = [];
+  private config: DunningConfig;
+  private channels: Partial<Record<ReminderChannelType, ReminderChannel>> = {};
+  private precision: number;
+  private tracker: ChangeTracker<ReminderRecord>;
+
+  constructor(reminders?: ReminderRecord[], config: DunningConfig = {}, precision: number = 2) {
+    if (reminders) {
+      this.reminders = [...reminders];
+    }
+    this.validateConfig(config);
+    this.config = { ...config };
+    this.precision = precision;
+    this.tracker = new ChangeTracker<ReminderRecord>(r => r.id, this.reminders);
+  }
+
+  /**
+   * Register the channel reminders of its type are sent through, replacing any registered before
+   * @param channel - Email, SMS or WhatsApp channel
+   */
+  registerChannel(channel: ReminderChannel): void {
+    this.channels[channel.type] = channel;
+  }
+
+  /**
+   * Change the reminder ladder, minimum amount or spacing between reminders
+   * @param config - Settings to change
+   */
+  configure(config: DunningConfig): void {
+    const updated = { ...this.config, ...config };
+    this.validateConfig(updated);
+    this.config = updated;
+  }
+
+  /**
+   * Get the reminder ladder in the order it escalates
+   * @returns Steps with their days past due, channels and templates
+   */
+  getSteps(): DunningStep[] {
+    return (this.config.steps || DEFAULT_STEPS).map(step => ({
+      ...step,
+      template: step.template || DEFAULT_TEMPLATES[step.level]
+    }));
+  }
+
+  /**
+   * Work out which customers are due a reminder and at which step
+   * @param invoices - Outstanding invoice balances
+   * @param customers - Customers to consider
+   * @param asOf - Day the reminders would go out
+   * @returns Reminders due, customers with the most overdue first
+   */
+  getDueReminders(invoices: InvoiceBalance[], customers: Customer[], asOf: Date = new Date()): DueReminder[] {
+    const steps = this.getSteps();
+    const day = startOfDay(asOf);
+    const minDaysBetween = this.config.minDaysBetweenReminders !== undefined
+      ? this.config.minDaysBetweenReminders
+      : DEFAULT_MIN_DAYS_BETWEEN;
+    const due: DueReminder[] = [];
+
+    customers.forEach(customer => {
+      const overdue = invoices
+        .filter(i => i.customerId === customer.id && i.outstandingAmount > 0 && this.getDaysPastDue(i, day) > 0)
+        .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+      if (overdue.length === 0) {
+        return;
+      }
+
+      const overdueAmount = roundTo(overdue.reduce((sum, i) => sum + i.outstandingAmount, 0), this.precision);
+      if (this.config.minimumAmount && overdueAmount < this.config.minimumAmount) {
+        return;
+      }
+
+      const lastSent = this.getRemindersByCustomer(customer.id)
+        .filter(r => r.status === 'sent')
+        .reduce((latest: Date | undefined, r) => !latest || r.sentAt > latest ? r.sentAt : latest, undefined);
+      if (lastSent && startOfDay(addDays(lastSent, minDaysBetween)) > day) {
+        return;
+      }
+
+      // A reminder is due once an invoice reaches a step it was not reminded at, and
+      // goes out at the furthest step any overdue invoice has reached
+      const reached = overdue.map(invoice => this.getStepIndex(steps, this.getDaysPastDue(invoice, day)));
+      if (!overdue.some((invoice, i) => reached[i] > this.getRemindedStepIndex(steps, invoice.invoiceId))) {
+        return;
+      }
+      const stepIndex = Math.max(...reached);
+
+      due.push({
+        customerId: customer.id,
+        customerName: customer.name,
+        step: steps[stepIndex],
+        invoices: overdue,
+        overdueAmount,
+        daysPastDue: this.getDaysPastDue(overdue[0], day)
+      });
+    });
+
+    return due.sort((a, b) => b.overdueAmount - a.overdueAmount);
+  }
+
+  /**
+   * Fill in a due reminder's template
+   * @param reminder - Reminder due
+   * @param businessName - Business the reminder comes from
+   * @param currency - Currency code amounts are shown in
+   * @returns Subject and body ready to send
+   */
+  renderReminder(reminder: DueReminder, businessName: string, currency: string): ReminderTemplate {
+    const template = reminder.step.template || DEFAULT_TEMPLATES[reminder.step.level];
+    const values: Record<string, string | number> = {
+      customerName: reminder.customerName,
+      businessName,
+      amount: formatAmount(reminder.overdueAmount, currency, this.precision),
+      currency,
+      invoiceNumbers: reminder.invoices.map(i => i.reference).join(', '),
+      invoiceCount: reminder.invoices.length,
+      daysPastDue: reminder.daysPastDue,
+      oldestDueDate: formatDate(reminder.invoices[0].dueDate)
+    };
+
+    return {
+      subject: template.subject !== undefined ? renderTemplate(template.subject, values) : undefined,
+      body: renderTemplate(template.body, values)
+    };
+  }
+
+  /**
+   * Send a due reminder through each channel of its step and record the outcome.
+   * A channel that is not registered, or a customer with no address for it, is recorded as failed.
+   * @param reminder - Reminder due
+   * @param customer - Customer being reminded
+   * @param businessName - Business the reminder comes from
+   * @param currency - Currency code amounts are shown in
+   * @param sentAt - When the reminder goes out
+   * @returns One record per channel
+   */
+  async sendReminder(
+    reminder: DueReminder,
+    customer: Customer,
+    businessName: string,
+    currency: string,
+    sentAt: Date = new Date()
+  ): Promise<ReminderRecord[]> {
+    const message = this.renderReminder(reminder, businessName, currency);
+    const records: ReminderRecord[] = [];
+
+    for (const type of reminder.step.channels) {
+      const channel = this.channels[type];
+      const to = type === 'email' ? customer.email : customer.phone;
+      let error: string | undefined;
+
+      if (!channel) {
+        error = `No ${type} channel registered`;
+      } else if (!to) {
+        error = `Customer has no ${type === 'email' ? 'email address' : 'phone number'}`;
+      } else {
+        try {
+          await channel.send({
+            channel: type,
+            to,
+            subject: message.subject,
+            body: message.body,
+            customerId: customer.id,
+            level: reminder.step.level
+          });
+        } catch (sendError) {
+          error = sendError instanceof Error ? sendError.message : String(sendError);
+        }
+      }
+
+      const record: ReminderRecord = {
+        id: this.generateId(),
+        customerId: customer.id,
+        level: reminder.step.level,
+        channel: type,
+        to,
+        invoiceIds: reminder.invoices.map(i => i.invoiceId),
+        invoiceReferences: reminder.invoices.map(i => i.reference),
+        amount: reminder.overdueAmount,
+        daysPastDue: reminder.daysPastDue,
+        subject: message.subject,
+        body: message.body,
+        status: error ? 'failed' : 'sent',
+        error,
+        sentAt
+      };
+      this.reminders.push(record);
+      records.push(record);
+    }
+
+    return records;
+  }
+
+  /**
+   * Get the reminders sent or attempted to a customer
+   * @param customerId - Customer ID
+   * @returns Reminder history, oldest first
+   */
+  getRemindersByCustomer(customerId: string): ReminderRecord[] {
+    return this.reminders.filter(r => r.customerId === customerId);
+  }
+
+  /**
+   * Get the reminders that covered an invoice
+   * @param invoiceId - Account entry ID of the invoice
+   * @returns Reminder history, oldest first
+   */
+  getRemindersForInvoice(invoiceId: string): ReminderRecord[] {
+    return this.reminders.filter(r => r.invoiceIds.indexOf(invoiceId) !== -1);
+  }
+
+  // Private utility methods
+  private generateId(): string {
+    return `reminder_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private getDaysPastDue(invoice: InvoiceBalance, day: Date): number {
+    return Math.round((day.getTime() - startOfDay(invoice.dueDate).getTime()) / 86400000);
+  }
+
+  // Furthest step reached at a number of days past due, or -1 before the first
+  private getStepIndex(steps: DunningStep[], daysPastDue: number): number {
+    let index = -1;
+    steps.forEach((step, i) => {
+      if (daysPastDue >= step.daysPastDue) {
+        index = i;
+      }
+    });
+    return index;
+  }
+
+  // Furthest step an invoice has been reminded at, or -1 if it never has
+  private getRemindedStepIndex(steps: DunningStep[], invoiceId: string): number {
+    return this.getRemindersForInvoice(invoiceId)
+      .filter(r => r.status === 'sent')
+      .reduce((furthest, r) => Math.max(furthest, steps.map(s => s.level).indexOf(r.level)), -1);
+  }
+
+  private validateConfig(config: DunningConfig): void {
+    const steps = config.steps;
+    if (steps) {
+      if (steps.length === 0) {
+        throw new Error('A reminder ladder needs at least one step');
+      }
+      steps.forEach((step, index) => {
+        if (step.daysPastDue < 1) {
+          throw new Error('Reminders can only be sent once an invoice is past due');
+        }
+        if (index > 0 && step.daysPastDue <= steps[index - 1].daysPastDue) {
+          throw new Error('Reminder steps must be in ascending order of days past due');
+        }
+        if (steps.filter(s => s.level === step.level).length > 1) {
+          throw new Error(`Reminder level ${step.level} appears more than once`);
+        }
+        if (step.channels.length === 0) {
+          throw new Error(`Reminder step ${step.level} has no channels`);
+        }
+      });
+    }
+    if (config.minimumAmount !== undefined && config.minimumAmount < 0) {
+      throw new Error('Minimum reminder amount must not be negative');
+    }
+    if (config.minDaysBetweenReminders !== undefined && config.minDaysBetweenReminders < 0) {
+      throw new Error('Days between reminders must not be negative');
+    }
+  }
+
+  // Get reminders created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<ReminderRecord> {
+    return this.tracker.getChanges(this.reminders);
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+
+  // Get current reminders array (for BusinessManager to sync)
+  getReminders(): ReminderRecord[] {
+    return this.reminders;
+  }
+
+  // Get the channels registered (for BusinessManager to keep when reloading)
+  getChannels(): ReminderChannel[] {
+    return Object.keys(this.channels).map(type => this.channels[type as ReminderChannelType]!);
+  }
+
+  // Get current reminder settings (for BusinessManager to sync)
+  getConfig(): DunningConfig {
+    return this.config;
+  }
+}
@@ -0,0 +1,285 @@
+import {
+  AccountEntry,
+  BillingCalculation,
+  Invoice,
+  InvoiceNote,
+  InvoiceNoteType,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { roundTo } from '../utils/mathUtils';
+import { isSameDay } from '../utils/dateUtils';
+import { DocumentNumberingManager } from './DocumentNumberingManager';
+
+/**
+ * Manages finalized invoices and the credit and debit notes raised against them.
+ *
+ * Finalizing a billing calculation gives it the next invoice number and
+ * freezes it, so an issued invoice never changes. Corrections are made with
+ * credit notes, which reduce what is owed on an invoice, and debit notes,
+ * which add to it. Each note carries its own number and references the
+ * invoice it corrects.
+ */
+export class InvoiceManager {
+  private invoices: Invoice[] = [];
+  private notes: InvoiceNote[] = [];
+  private invoiceTracker: ChangeTracker<Invoice>;
+  private noteTracker: ChangeTracker<InvoiceNote>;
+  private precision: number;
+  private numbering: DocumentNumberingManager = new DocumentNumberingManager();
+
+  constructor(invoices?: Invoice[], notes?: InvoiceNote[], precision: number = 2) {
+    if (invoices) {
+      this.invoices = invoices.map(invoice => this.freeze({ ...invoice }));
+    }
+    if (notes) {
+      this.notes = notes.map(note => this.freeze({ ...note }));
+    }
+    this.precision = precision;
+    this.invoiceTracker = new ChangeTracker<Invoice>(i => i.id, this.invoices);
+    this.noteTracker = new ChangeTracker<InvoiceNote>(n => n.id, this.notes);
+  }
+
+  /**
+   * Set the number series invoices and notes are numbered from
+   * @param numbering - Document numbering shared with the other documents
+   */
+  setNumbering(numbering: DocumentNumberingManager): void {
+    this.numbering = numbering;
+  }
+
+  /**
+   * Finalize a billing calculation as a numbered invoice. The number is only
+   * used once the invoice has been posted, so a failed posting leaves no gap.
+   * @param billing - Billing calculation to invoice
+   * @param invoiceDate - Invoice date
+   * @param dueDate - Day payment is due
+   * @param post - Posts the invoice to the customer's account under the number given
+   * @returns Finalized invoice
+   */
+  finalizeInvoice(
+    billing: BillingCalculation,
+    invoiceDate: Date,
+    dueDate: Date,
+    post: (invoiceNumber: string) => AccountEntry
+  ): Invoice {
+    const existing = this.getInvoiceByOrderId(billing.orderId);
+    if (existing) {
+      throw new Error(`Billing ${billing.orderId} has already been invoiced as ${existing.invoiceNumber}`);
+    }
+    if (dueDate < invoiceDate && !isSameDay(dueDate, invoiceDate)) {
+      throw new Error('Invoice due date is before the invoice date');
+    }
+
+    return this.numbering.issue('invoice', invoiceDate, invoiceNumber => {
+      const entry = post(invoiceNumber);
+      const invoice: Invoice = {
+        id: this.generateId('invoice'),
+        invoiceNumber,
+        customerId: billing.customerId,
+        siteId: billing.siteId,
+        invoiceDate,
+        billing: {
+          ...billing,
+          items: billing.items.map(item => ({ ...item })),
+          billingPeriod: { ...billing.billingPeriod }
+        },
+        totalAmount: billing.totalAmount,
+        dueDate,
+        accountEntryId: entry.id,
+        finalizedAt: new Date()
+      };
+
+      this.invoices.push(this.freeze(invoice));
+      return invoice;
+    }, number => !!this.getInvoiceByNumber(number));
+  }
+
+  /**
+   * Raise a credit or debit note against an invoice
+   * @param invoiceId - Invoice ID
+   * @param noteType - Credit note to reduce what is owed, debit note to add to it
+   * @param amount - Note amount including tax
+   * @param reason - Why the invoice is being corrected
+   * @param noteDate - Note date
+   * @param post - Posts the note to the customer's account under the number given
+   * @returns Created note
+   */
+  createNote(
+    invoiceId: string,
+    noteType: InvoiceNoteType,
+    amount: number,
+    reason: string,
+    noteDate: Date,
+    post: (noteNumber: string, invoice: Invoice) => AccountEntry
+  ): InvoiceNote {
+    const invoice = this.getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    if (amount <= 0) {
+      throw new Error('Note amount must be positive');
+    }
+    if (!reason.trim()) {
+      throw new Error('A reason is required for a credit or debit note');
+    }
+    const adjustedTotal = this.getAdjustedTotal(invoiceId);
+    if (noteType === 'credit_note' && amount > adjustedTotal) {
+      throw new Error(`Cannot credit ${amount}: invoice ${invoice.invoiceNumber} stands at ${adjustedTotal}`);
+    }
+
+    // Split the amount into taxable value and tax in the invoice's proportions
+    const taxShare = invoice.totalAmount > 0 ? invoice.billing.taxAmount / invoice.totalAmount : 0;
+    const taxAmount = roundTo(amount * taxShare, this.precision);
+
+    return this.numbering.issue(noteType, noteDate, noteNumber => {
+      const entry = post(noteNumber, invoice);
+      const note: InvoiceNote = {
+        id: this.generateId('note'),
+        noteNumber,
+        noteType,
+        invoiceId,
+        invoiceNumber: invoice.invoiceNumber,
+        customerId: invoice.customerId,
+        siteId: invoice.siteId,
+        noteDate,
+        reason,
+        taxableAmount: roundTo(amount - taxAmount, this.precision),
+        taxAmount,
+        totalAmount: roundTo(amount, this.precision),
+        accountEntryId: entry.id,
+        createdAt: new Date()
+      };
+
+      this.notes.push(this.freeze(note));
+      return note;
+    }, number => this.notes.some(n => n.noteNumber === number));
+  }
+
+  /**
+   * Get an invoice by ID
+   * @param id - Invoice ID
+   * @returns Invoice or undefined if not found
+   */
+  getInvoice(id: string): Invoice | undefined {
+    return this.invoices.find(i => i.id === id);
+  }
+
+  /**
+   * Get an invoice by its number
+   * @param invoiceNumber - Invoice number
+   * @returns Invoice or undefined if not found
+   */
+  getInvoiceByNumber(invoiceNumber: string): Invoice | undefined {
+    return this.invoices.find(i => i.invoiceNumber === invoiceNumber);
+  }
+
+  /**
+   * Get the invoice finalized from a billing calculation
+   * @param orderId - Billing calculation order or ledger reference
+   * @returns Invoice or undefined if the calculation has not been invoiced
+   */
+  getInvoiceByOrderId(orderId: string): Invoice | undefined {
+    return this.invoices.find(i => i.billing.orderId === orderId);
+  }
+
+  /**
+   * Get the invoice posted as an account entry
+   * @param accountEntryId - Invoice entry on the customer's account
+   * @returns Invoice or undefined if the entry is not a finalized invoice
+   */
+  getInvoiceByAccountEntry(accountEntryId: string): Invoice | undefined {
+    return this.invoices.find(i => i.accountEntryId === accountEntryId);
+  }
+
+  /**
+   * Get a customer's invoices
+   * @param customerId - Customer ID
+   * @returns Invoices in number order
+   */
+  getInvoicesByCustomer(customerId: string): Invoice[] {
+    return this.invoices.filter(i => i.customerId === customerId);
+  }
+
+  /**
+   * Get the credit and debit notes raised against an invoice
+   * @param invoiceId - Invoice ID
+   * @returns Notes in the order they were raised
+   */
+  getNotes(invoiceId: string): InvoiceNote[] {
+    return this.notes.filter(n => n.invoiceId === invoiceId);
+  }
+
+  /**
+   * Get a customer's credit and debit notes
+   * @param customerId - Customer ID
+   * @returns Notes in the order they were raised
+   */
+  getNotesByCustomer(customerId: string): InvoiceNote[] {
+    return this.notes.filter(n => n.customerId === customerId);
+  }
+
+  /**
+   * Get the net effect of the notes raised against an invoice
+   * @param invoiceId - Invoice ID
+   * @returns Debit notes less credit notes
+   */
+  getNotesAmount(invoiceId: string): number {
+    return roundTo(
+      this.getNotes(invoiceId).reduce((sum, note) =>
+        sum + (note.noteType === 'debit_note' ? note.totalAmount : -note.totalAmount), 0
+      ),
+      this.precision
+    );
+  }
+
+  /**
+   * Get what an invoice stands at after its credit and debit notes
+   * @param invoiceId - Invoice ID
+   * @returns Invoice total plus debit notes less credit notes
+   */
+  getAdjustedTotal(invoiceId: string): number {
+    const invoice = this.getInvoice(invoiceId);
+    return invoice ? roundTo(invoice.totalAmount + this.getNotesAmount(invoiceId), this.precision) : 0;
+  }
+
+  // Private utility methods
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Issued documents must not change, so they are frozen along with their nested records
+  private freeze<T>(value: T): T {
+    if (value && typeof value === 'object' && !(value instanceof Date) && !Object.isFrozen(value)) {
+      Object.keys(value).forEach(key => this.freeze((value as any)[key]));
+      Object.freeze(value);
+    }
+    return value;
+  }
+
+  // Get invoices created since the last sync (for BusinessManager to sync)
+  getInvoiceChanges(): EntityChanges<Invoice> {
+    return this.invoiceTracker.getChanges(this.invoices);
+  }
+
+  // Get notes created since the last sync (for BusinessManager to sync)
+  getNoteChanges(): EntityChanges<InvoiceNote> {
+    return this.noteTracker.getChanges(this.notes);
+  }
+
+  // Record the changes last returned by getInvoiceChanges and getNoteChanges as synced, except the records storage refused
+  markSynced(refusedInvoices: string[] = [], refusedNotes: string[] = []): void {
+    this.invoiceTracker.markSynced(refusedInvoices);
+    this.noteTracker.markSynced(refusedNotes);
+  }
+
+  // Get current invoices array (for BusinessManager to sync)
+  getInvoices(): Invoice[] {
+    return this.invoices;
+  }
+
+  // Get current notes array (for BusinessManager to sync)
+  getInvoiceNotes(): InvoiceNote[] {
+    return this.notes;
+  }
+}
@@ -0,0 +1,327 @@
+import {
+  LateFeeCalculation,
+  LateFeeCharge,
+  LateFeePolicy,
+  LateFeeRule,
+  LateFeeSource,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { addDays, startOfDay } from '../utils/dateUtils';
+import { roundTo } from '../utils/mathUtils';
+import { calculateLateFee, LATE_FEE_RULES } from '../utils/lateFeeUtils';
+
+interface LateFeeTarget {
+  customerId: string;
+  siteId?: string;
+  source: LateFeeSource;
+  sourceId: string;
+  sourceReference: string;
+  dueDate: Date;
+}
+
+/**
+ * Manages late fee policies and the late fees charged under them.
+ *
+ * A policy charges a flat amount or a percentage of what is overdue for each
+ * day late, with optional tiers that change the rate the longer it runs, a
+ * grace period and caps. Late returns and late invoice payments are charged
+ * as they are assessed; each assessment only adds the fee accrued since the
+ * last one, so lateness is never charged twice.
+ */
+export class LateFeeManager {
+  private policies: Map<string, LateFeePolicy> = new Map();
+  private charges: LateFeeCharge[] = [];
+  private policyTracker: ChangeTracker<LateFeePolicy>;
+  private chargeTracker: ChangeTracker<LateFeeCharge>;
+  private rules: Record<string, LateFeeRule> = { ...LATE_FEE_RULES };
+  private precision: number;
+
+  constructor(policies?: LateFeePolicy[], charges?: LateFeeCharge[], precision: number = 2) {
+    if (policies) {
+      policies.forEach(policy => this.policies.set(policy.id, { ...policy }));
+    }
+    if (charges) {
+      this.charges = [...charges];
+    }
+    this.precision = precision;
+    this.policyTracker = new ChangeTracker<LateFeePolicy>(p => p.id, this.getPolicies(false));
+    this.chargeTracker = new ChangeTracker<LateFeeCharge>(c => c.id, this.charges);
+  }
+
+  /**
+   * Register a late fee method for policies to use
+   * @param method - Method name policies refer to
+   * @param rule - Fee for one overdue day at a rate
+   */
+  registerMethod(method: string, rule: LateFeeRule): void {
+    this.rules[method] = rule;
+  }
+
+  /**
+   * Create a new late fee policy
+   * @param policy - Policy details
+   * @returns Created policy
+   */
+  createPolicy(
+    policy: Omit<LateFeePolicy, 'id' | 'isActive' | 'createdAt' | 'updatedAt'> & { isActive?: boolean }
+  ): LateFeePolicy {
+    this.validatePolicy(policy);
+
+    const lateFeePolicy: LateFeePolicy = {
+      ...policy,
+      id: this.generateId('latefee'),
+      tiers: policy.tiers && policy.tiers.map(tier => ({ ...tier })),
+      isActive: policy.isActive !== undefined ? policy.isActive : true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    this.policies.set(lateFeePolicy.id, lateFeePolicy);
+    return lateFeePolicy;
+  }
+
+  /**
+   * Get a late fee policy by ID
+   * @param id - Policy ID
+   * @returns Policy or undefined if not found
+   */
+  getPolicy(id: string): LateFeePolicy | undefined {
+    return this.policies.get(id);
+  }
+
+  /**
+   * Get all late fee policies
+   * @param activeOnly - Return only active policies
+   * @returns Array of policies
+   */
+  getPolicies(activeOnly: boolean = true): LateFeePolicy[] {
+    const policies = Array.from(this.policies.values());
+    return activeOnly ? policies.filter(policy => policy.isActive) : policies;
+  }
+
+  /**
+   * Update a late fee policy. Fees already charged are not recalculated.
+   * @param id - Policy ID
+   * @param updates - Partial updates to apply
+   * @returns True if updated successfully
+   */
+  updatePolicy(id: string, updates: Partial<Omit<LateFeePolicy, 'id' | 'createdAt'>>): boolean {
+    const policy = this.policies.get(id);
+    if (!policy) {
+      return false;
+    }
+
+    const updated = { ...policy, ...updates, updatedAt: new Date() };
+    this.validatePolicy(updated);
+    this.policies.set(id, updated);
+    return true;
+  }
+
+  /**
+   * Deactivate a late fee policy (soft delete)
+   * @param id - Policy ID
+   * @returns True if deactivated successfully
+   */
+  deactivatePolicy(id: string): boolean {
+    return this.updatePolicy(id, { isActive: false });
+  }
+
+  /**
+   * Work out the late fee a policy gives
+   * @param policy - Late fee policy
+   * @param overdueAmount - Amount overdue, or the amount overdue on each day
+   * @param dueDate - Last day before lateness starts
+   * @param through - Last day to charge for
+   * @returns Overdue and charged days with the fee before and after caps
+   */
+  calculateFee(
+    policy: LateFeePolicy,
+    overdueAmount: number | ((date: Date) => number),
+    dueDate: Date,
+    through: Date
+  ): LateFeeCalculation {
+    return calculateLateFee(policy, overdueAmount, dueDate, through, this.rules[policy.method], this.precision);
+  }
+
+  /**
+   * Charge the late fee accrued on an overdue return or invoice since it was last assessed
+   * @param target - Customer, overdue return or invoice and its due date
+   * @param policy - Late fee policy
+   * @param overdueAmount - Amount overdue on each day
+   * @param through - Last day to charge for
+   * @returns New charge, or undefined when nothing more is owed
+   */
+  assessCharge(
+    target: LateFeeTarget,
+    policy: LateFeePolicy,
+    overdueAmount: (date: Date) => number,
+    through: Date
+  ): LateFeeCharge | undefined {
+    if (policy.appliesTo && policy.appliesTo.indexOf(target.source) === -1) {
+      return undefined;
+    }
+
+    const calculation = this.calculateFee(policy, overdueAmount, target.dueDate, through);
+    const charged = this.getChargesBySource(target.source, target.sourceId)
+      .reduce((sum, charge) => sum + charge.amount, 0);
+    const amount = roundTo(calculation.amount - charged, this.precision);
+    if (amount <= 0) {
+      return undefined;
+    }
+
+    let peakAmount = 0;
+    for (let date = addDays(startOfDay(target.dueDate), 1); date <= startOfDay(through); date = addDays(date, 1)) {
+      peakAmount = Math.max(peakAmount, overdueAmount(date));
+    }
+
+    const charge: LateFeeCharge = {
+      id: this.generateId('latecharge'),
+      customerId: target.customerId,
+      siteId: target.siteId,
+      source: target.source,
+      sourceId: target.sourceId,
+      sourceReference: target.sourceReference,
+      dueDate: target.dueDate,
+      assessedThrough: startOfDay(through),
+      overdueAmount: roundTo(peakAmount, this.precision),
+      overdueDays: calculation.overdueDays,
+      amount,
+      policyId: policy.id,
+      policyName: policy.name,
+      billingStatus: 'unbilled',
+      createdAt: new Date()
+    };
+
+    this.charges.push(charge);
+    return charge;
+  }
+
+  /**
+   * Get a late fee charge by ID
+   * @param id - Charge ID
+   * @returns Charge or undefined if not found
+   */
+  getCharge(id: string): LateFeeCharge | undefined {
+    return this.charges.find(c => c.id === id);
+  }
+
+  /**
+   * Get the late fees charged on an overdue return or invoice
+   * @param source - Whether the source is a return or an invoice
+   * @param sourceId - Issue challan or invoice account entry ID
+   * @returns Charges in the order they were assessed
+   */
+  getChargesBySource(source: LateFeeSource, sourceId: string): LateFeeCharge[] {
+    return this.charges.filter(c => c.source === source && c.sourceId === sourceId);
+  }
+
+  /**
+   * Get a customer's late fee charges
+   * @param customerId - Customer ID
+   * @returns Array of charges
+   */
+  getChargesByCustomer(customerId: string): LateFeeCharge[] {
+    return this.charges.filter(c => c.customerId === customerId);
+  }
+
+  /**
+   * Get late fee charges still to be billed
+   * @param customerId - Customer ID
+   * @param siteId - Limit to one site of the customer
+   * @param upTo - Include only charges assessed through this day or earlier
+   * @returns Unbilled charges, oldest first
+   */
+  getUnbilledCharges(customerId: string, siteId?: string, upTo?: Date): LateFeeCharge[] {
+    const cutoff = upTo ? startOfDay(upTo) : undefined;
+    return this.charges
+      .filter(c =>
+        c.customerId === customerId &&
+        c.billingStatus === 'unbilled' &&
+        (!siteId || c.siteId === siteId) &&
+        (!cutoff || c.assessedThrough <= cutoff)
+      )
+      .sort((a, b) => a.assessedThrough.getTime() - b.assessedThrough.getTime());
+  }
+
+  /**
+   * Mark a late fee charge as billed
+   * @param id - Charge ID
+   * @param reference - Invoice the charge was billed on
+   * @returns True if marked successfully
+   */
+  markBilled(id: string, reference: string): boolean {
+    const charge = this.getCharge(id);
+    if (!charge || charge.billingStatus === 'billed') {
+      return false;
+    }
+
+    charge.billingStatus = 'billed';
+    charge.billedReference = reference;
+    return true;
+  }
+
+  /**
+   * Return a billed charge to unbilled, e.g. when its invoice is reversed
+   * @param id - Charge ID
+   * @returns True if updated successfully
+   */
+  markUnbilled(id: string): boolean {
+    const charge = this.getCharge(id);
+    if (!charge || charge.billingStatus === 'unbilled') {
+      return false;
+    }
+
+    charge.billingStatus = 'unbilled';
+    charge.billedReference = undefined;
+    return true;
+  }
+
+  // Private utility methods
+  private generateId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private validatePolicy(policy: Omit<LateFeePolicy, 'id' | 'isActive' | 'createdAt' | 'updatedAt'>): void {
+    if (!this.rules[policy.method]) {
+      throw new Error(`Unknown late fee method: ${policy.method}`);
+    }
+    const rates = [policy.rate, ...(policy.tiers || []).map(tier => tier.rate)];
+    if (rates.some(rate => rate < 0)) {
+      throw new Error('Late fee rates must not be negative');
+    }
+    if ((policy.tiers || []).some(tier => tier.afterDays < 0)) {
+      throw new Error('Late fee tiers must start after zero or more days');
+    }
+    const limits = [policy.gracePeriodDays, policy.maxAmount, policy.maxPercentage];
+    if (limits.some(limit => limit !== undefined && limit < 0)) {
+      throw new Error('Grace periods and caps must not be negative');
+    }
+  }
+
+  // Get policies created, updated or deleted since the last sync (for BusinessManager to sync)
+  getPolicyChanges(): EntityChanges<LateFeePolicy> {
+    return this.policyTracker.getChanges(this.getPolicies(false));
+  }
+
+  // Get charges created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChargeChanges(): EntityChanges<LateFeeCharge> {
+    return this.chargeTracker.getChanges(this.charges);
+  }
+
+  // Record the changes last returned by getPolicyChanges and getChargeChanges as synced, except the records storage refused
+  markSynced(refusedPolicies: string[] = [], refusedCharges: string[] = []): void {
+    this.policyTracker.markSynced(refusedPolicies);
+    this.chargeTracker.markSynced(refusedCharges);
+  }
+
+  // Get the late fee methods known, built-in and registered (for BusinessManager to keep when reloading)
+  getMethods(): Record<string, LateFeeRule> {
+    return { ...this.rules };
+  }
+
+  // Get current charges array (for BusinessManager to sync)
+  getCharges(): LateFeeCharge[] {
+    return this.charges;
+  }
+}
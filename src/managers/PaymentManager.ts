@@ -1,29 +1,61 @@
-import { Payment, Challan } from '../types';
+import { 
+  Payment, 
+  Challan, 
+  PaymentAllocation, 
+  AllocationRequest, 
+  InvoiceBalance,
+  Customer,
+  AgingBucket,
+  AgingInvoice,
+  AgingReport,
+  CustomerAging,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { roundTo } from '../utils/mathUtils';
+import { startOfDay } from '../utils/dateUtils';
+import { toCsv } from '../utils/csvUtils';
+import { DocumentNumberingManager } from './DocumentNumberingManager';
 
 export class PaymentManager {
   private payments: Payment[] = [];
+  private precision: number;
+  private numbering: DocumentNumberingManager = new DocumentNumberingManager();
+  private tracker: ChangeTracker<Payment>;
 
-  constructor(payments?: Payment[]) {
+  constructor(payments?: Payment[], precision: number = 2) {
     if (payments) {
       this.payments = [...payments];
     }
+    this.precision = precision;
+    this.tracker = new ChangeTracker<Payment>(p => p.id, this.payments);
   }
 
   /**
-   * Create a new payment
+   * Set the number series receipts are numbered from
+   */
+  setNumbering(numbering: DocumentNumberingManager): void {
+    this.numbering = numbering;
+  }
+
+  /**
+   * Create a new payment. Payments taken on account rather than against a
+   * challan are created with an undefined challanId.
    */
   createPayment(
-    challanId: string,
+    challanId: string | undefined,
     customerId: string,
     amount: number,
     method: Payment['paymentMethod'],
     referenceNumber?: string,
-    notes?: string
+    notes?: string,
+    siteId?: string
   ): Payment {
     const payment: Payment = {
       id: this.generateId(),
       challanId,
       customerId,
+      siteId,
       amount,
       paymentDate: new Date(),
       paymentMethod: method,
@@ -38,6 +70,25 @@ export class PaymentManager {
     return payment;
   }
 
+  /**
+   * Record a security deposit received from a customer. Deposits are held for
+   * the customer, so they are completed on receipt but kept out of revenue.
+   */
+  createDepositReceipt(
+    customerId: string,
+    amount: number,
+    method: Payment['paymentMethod'],
+    referenceNumber?: string,
+    notes?: string,
+    siteId?: string
+  ): Payment {
+    const payment = this.createPayment(undefined, customerId, amount, method, referenceNumber, notes, siteId);
+    payment.purpose = 'deposit';
+    payment.status = 'completed';
+    this.issueReceipt(payment);
+    return payment;
+  }
+
   /**
    * Get a payment by ID
    */
@@ -46,12 +97,19 @@ export class PaymentManager {
   }
 
   /**
-   * Get payment by challan ID
+   * Get the first payment taken against a challan
    */
   getPaymentByChallan(challanId: string): Payment | undefined {
     return this.payments.find(p => p.challanId === challanId);
   }
 
+  /**
+   * Get every payment taken against a challan
+   */
+  getPaymentsByChallan(challanId: string): Payment[] {
+    return this.payments.filter(p => p.challanId === challanId);
+  }
+
   /**
    * Get all payments
    */
@@ -73,6 +131,13 @@ export class PaymentManager {
     return this.payments.filter(p => p.customerId === customerId);
   }
 
+  /**
+   * Get payments by site
+   */
+  getPaymentsBySite(siteId: string): Payment[] {
+    return this.payments.filter(p => p.siteId === siteId);
+  }
+
   /**
    * Get payments by method
    */
@@ -81,7 +146,7 @@ export class PaymentManager {
   }
 
   /**
-   * Update payment status
+   * Update payment status. A payment gets its receipt number when it is first completed.
    */
   updatePaymentStatus(paymentId: string, status: Payment['status']): boolean {
     const payment = this.payments.find(p => p.id === paymentId);
@@ -91,6 +156,9 @@ export class PaymentManager {
 
     payment.status = status;
     payment.updatedAt = new Date();
+    if (status === 'completed') {
+      this.issueReceipt(payment);
+    }
     return true;
   }
 
@@ -99,7 +167,7 @@ export class PaymentManager {
    */
   updatePaymentAmount(paymentId: string, amount: number): boolean {
     const payment = this.payments.find(p => p.id === paymentId);
-    if (!payment) {
+    if (!payment || amount < this.getAllocatedTotal(payment)) {
       return false;
     }
 
@@ -153,23 +221,29 @@ export class PaymentManager {
   }
 
   /**
-   * Get payment statistics
+   * Get payment statistics. Security deposits are counted separately and not
+   * included in the payment counts or revenue amounts.
    */
   getPaymentStats() {
-    const totalPayments = this.payments.length;
-    const pendingPayments = this.payments.filter(p => p.status === 'pending').length;
-    const completedPayments = this.payments.filter(p => p.status === 'completed').length;
-    const failedPayments = this.payments.filter(p => p.status === 'failed').length;
-    const refundedPayments = this.payments.filter(p => p.status === 'refunded').length;
+    const payments = this.payments.filter(p => this.isRevenue(p));
+    const totalPayments = payments.length;
+    const pendingPayments = payments.filter(p => p.status === 'pending').length;
+    const completedPayments = payments.filter(p => p.status === 'completed').length;
+    const failedPayments = payments.filter(p => p.status === 'failed').length;
+    const refundedPayments = payments.filter(p => p.status === 'refunded').length;
     
-    const totalAmount = this.payments
+    const totalAmount = payments
       .filter(p => p.status === 'completed')
       .reduce((sum, p) => sum + p.amount, 0);
     
-    const pendingAmount = this.payments
+    const pendingAmount = payments
       .filter(p => p.status === 'pending')
       .reduce((sum, p) => sum + p.amount, 0);
 
+    const deposits = this.payments.filter(p => !this.isRevenue(p) && p.status === 'completed');
+    const depositReceipts = deposits.length;
+    const depositAmount = deposits.reduce((sum, p) => sum + p.amount, 0);
+
     return {
       totalPayments,
       pendingPayments,
@@ -177,7 +251,9 @@ export class PaymentManager {
       failedPayments,
       refundedPayments,
       totalAmount,
-      pendingAmount
+      pendingAmount,
+      depositReceipts,
+      depositAmount
     };
   }
 
@@ -190,11 +266,12 @@ export class PaymentManager {
       card: { count: 0, amount: 0 },
       bank_transfer: { count: 0, amount: 0 },
       upi: { count: 0, amount: 0 },
-      cheque: { count: 0, amount: 0 }
+      cheque: { count: 0, amount: 0 },
+      deposit: { count: 0, amount: 0 }
     };
 
     this.payments
-      .filter(p => p.status === 'completed')
+      .filter(p => p.status === 'completed' && this.isRevenue(p))
       .forEach(payment => {
         stats[payment.paymentMethod].count++;
         stats[payment.paymentMethod].amount += payment.amount;
@@ -250,7 +327,7 @@ export class PaymentManager {
    */
   getTotalRevenue(): number {
     return this.payments
-      .filter(p => p.status === 'completed')
+      .filter(p => p.status === 'completed' && this.isRevenue(p))
       .reduce((sum, p) => sum + p.amount, 0);
   }
 
@@ -259,15 +336,333 @@ export class PaymentManager {
    */
   getPendingRevenue(): number {
     return this.payments
-      .filter(p => p.status === 'pending')
+      .filter(p => p.status === 'pending' && this.isRevenue(p))
       .reduce((sum, p) => sum + p.amount, 0);
   }
 
+  /**
+   * Get the part of a payment not yet allocated to invoices
+   */
+  getUnappliedAmount(paymentId: string): number {
+    const payment = this.payments.find(p => p.id === paymentId);
+    if (!payment) {
+      return 0;
+    }
+    return roundTo(payment.amount - this.getAllocatedTotal(payment), this.precision);
+  }
+
+  /**
+   * Get a customer's on-account credit: completed payments not yet allocated to invoices
+   */
+  getOnAccountCredit(customerId: string): number {
+    return roundTo(
+      this.payments
+        .filter(p => p.customerId === customerId && p.status === 'completed' && this.isRevenue(p))
+        .reduce((sum, p) => sum + this.getUnappliedAmount(p.id), 0),
+      this.precision
+    );
+  }
+
+  /**
+   * Get the total allocated to an invoice across all payments
+   */
+  getAllocatedAmount(invoiceId: string): number {
+    return roundTo(
+      this.getAllocationsForInvoice(invoiceId).reduce((sum, a) => sum + a.allocation.amount, 0),
+      this.precision
+    );
+  }
+
+  /**
+   * Get the payment allocations made to an invoice
+   */
+  getAllocationsForInvoice(invoiceId: string): { paymentId: string; allocation: PaymentAllocation }[] {
+    const allocations: { paymentId: string; allocation: PaymentAllocation }[] = [];
+    this.payments.forEach(payment => {
+      (payment.allocations || [])
+        .filter(allocation => allocation.invoiceId === invoiceId)
+        .forEach(allocation => allocations.push({ paymentId: payment.id, allocation }));
+    });
+    return allocations;
+  }
+
+  /**
+   * Allocate the unapplied part of a completed payment to invoices, oldest first.
+   * Existing allocations are kept.
+   * @returns Allocations created or increased
+   */
+  autoAllocatePayment(paymentId: string, invoices: InvoiceBalance[]): PaymentAllocation[] {
+    const payment = this.requireAllocatablePayment(paymentId);
+    let remaining = this.getUnappliedAmount(paymentId);
+    const added: PaymentAllocation[] = [];
+
+    invoices
+      .filter(invoice => invoice.customerId === payment.customerId && invoice.outstandingAmount > 0)
+      .sort((a, b) => a.invoiceDate.getTime() - b.invoiceDate.getTime())
+      .forEach(invoice => {
+        const amount = roundTo(Math.min(remaining, invoice.outstandingAmount), this.precision);
+        if (amount <= 0) {
+          return;
+        }
+
+        const existing = (payment.allocations || []).find(a => a.invoiceId === invoice.invoiceId);
+        if (existing) {
+          existing.amount = roundTo(existing.amount + amount, this.precision);
+          added.push(existing);
+        } else {
+          const allocation: PaymentAllocation = {
+            invoiceId: invoice.invoiceId,
+            invoiceReference: invoice.reference,
+            amount,
+            allocationType: 'auto',
+            allocatedAt: new Date()
+          };
+          payment.allocations = [...(payment.allocations || []), allocation];
+          added.push(allocation);
+        }
+        remaining = roundTo(remaining - amount, this.precision);
+        payment.updatedAt = new Date();
+      });
+
+    return added;
+  }
+
+  /**
+   * Replace a completed payment's allocations with the given ones.
+   * Throws if an allocation exceeds what is outstanding on its invoice or the
+   * allocations add up to more than the payment.
+   * @returns The payment's new allocations
+   */
+  allocatePayment(
+    paymentId: string, 
+    requests: AllocationRequest[], 
+    invoices: InvoiceBalance[]
+  ): PaymentAllocation[] {
+    const payment = this.requireAllocatablePayment(paymentId);
+    const total = roundTo(requests.reduce((sum, r) => sum + r.amount, 0), this.precision);
+    if (total > payment.amount) {
+      throw new Error(`Allocations of ${total} exceed the payment amount of ${payment.amount}`);
+    }
+
+    const allocations: PaymentAllocation[] = requests.map(request => {
+      const invoice = invoices.find(i => i.invoiceId === request.invoiceId);
+      if (!invoice || invoice.customerId !== payment.customerId) {
+        throw new Error(`Invoice ${request.invoiceId} not found for the payment's customer`);
+      }
+      if (request.amount <= 0) {
+        throw new Error(`Allocation to invoice ${invoice.reference} must be positive`);
+      }
+
+      // What this payment already covers on the invoice is freed up by the replacement
+      const current = (payment.allocations || [])
+        .filter(a => a.invoiceId === request.invoiceId)
+        .reduce((sum, a) => sum + a.amount, 0);
+      const available = roundTo(invoice.outstandingAmount + current, this.precision);
+      const requested = requests
+        .filter(r => r.invoiceId === request.invoiceId)
+        .reduce((sum, r) => sum + r.amount, 0);
+      if (roundTo(requested, this.precision) > available) {
+        throw new Error(`Cannot allocate ${requested} to invoice ${invoice.reference}: only ${available} outstanding`);
+      }
+
+      return {
+        invoiceId: invoice.invoiceId,
+        invoiceReference: invoice.reference,
+        amount: roundTo(request.amount, this.precision),
+        allocationType: 'manual' as const,
+        allocatedAt: new Date()
+      };
+    });
+
+    payment.allocations = allocations;
+    payment.updatedAt = new Date();
+    return allocations;
+  }
+
+  /**
+   * Remove a payment's allocations, or only those to one invoice, returning the money to on-account credit
+   */
+  clearAllocations(paymentId: string, invoiceId?: string): boolean {
+    const payment = this.payments.find(p => p.id === paymentId);
+    if (!payment || !payment.allocations || payment.allocations.length === 0) {
+      return false;
+    }
+
+    payment.allocations = invoiceId 
+      ? payment.allocations.filter(a => a.invoiceId !== invoiceId) 
+      : [];
+    payment.updatedAt = new Date();
+    return true;
+  }
+
+  /**
+   * Age outstanding invoices by days past their due date, per customer and overall.
+   * Invoices not yet due age in the first bucket.
+   * @param invoices - Invoice balances as they stood at the end of asOf
+   * @param bucketEdges - Last day past due of each bucket but the open-ended last one
+   * @returns Customers with the most outstanding first, each with its invoices oldest due first
+   */
+  getAgingReport(
+    invoices: InvoiceBalance[],
+    customers: Customer[],
+    asOf: Date = new Date(),
+    bucketEdges: number[] = [30, 60, 90],
+    includeZeroBalances: boolean = false
+  ): AgingReport {
+    if (bucketEdges.some((edge, index) =>
+      edge < 0 || Math.floor(edge) !== edge || (index > 0 && edge <= bucketEdges[index - 1])
+    )) {
+      throw new Error('Aging bucket edges must be whole numbers of days in ascending order');
+    }
+
+    const day = startOfDay(asOf);
+    const rows: AgingInvoice[] = invoices
+      .filter(invoice => invoice.outstandingAmount > 0)
+      .map(invoice => {
+        const daysPastDue = Math.round((day.getTime() - startOfDay(invoice.dueDate).getTime()) / 86400000);
+        return {
+          invoiceId: invoice.invoiceId,
+          reference: invoice.reference,
+          customerId: invoice.customerId,
+          siteId: invoice.siteId,
+          invoiceDate: invoice.invoiceDate,
+          dueDate: invoice.dueDate,
+          daysPastDue,
+          bucket: this.getAgingBuckets(bucketEdges)[this.getBucketIndex(bucketEdges, daysPastDue)].label,
+          amount: roundTo(invoice.amount + invoice.notesAmount, this.precision),
+          outstandingAmount: invoice.outstandingAmount
+        };
+      })
+      .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+    const agedCustomers: CustomerAging[] = customers
+      .map(customer => {
+        const customerInvoices = rows.filter(row => row.customerId === customer.id);
+        return {
+          customerId: customer.id,
+          customerName: customer.name,
+          buckets: this.sumAgingBuckets(bucketEdges, customerInvoices),
+          invoices: customerInvoices,
+          totalOutstanding: roundTo(customerInvoices.reduce((sum, row) => sum + row.outstandingAmount, 0), this.precision)
+        };
+      })
+      .filter(customer => includeZeroBalances || customer.invoices.length > 0)
+      .sort((a, b) => b.totalOutstanding - a.totalOutstanding);
+
+    const reported = agedCustomers.reduce((all, customer) => all.concat(customer.invoices), [] as AgingInvoice[]);
+    return {
+      asOf: day,
+      bucketEdges: [...bucketEdges],
+      customers: agedCustomers,
+      buckets: this.sumAgingBuckets(bucketEdges, reported),
+      totalOutstanding: roundTo(reported.reduce((sum, row) => sum + row.outstandingAmount, 0), this.precision),
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Export an aging report as CSV, one row per invoice with a total row per customer and overall
+   */
+  exportAgingReportToCSV(report: AgingReport): string {
+    const labels = report.buckets.map(bucket => bucket.label);
+    const amounts = (row: AgingInvoice) => labels.map(label => label === row.bucket ? row.outstandingAmount : '');
+    const totals = (buckets: AgingBucket[]) => buckets.map(bucket => bucket.amount);
+
+    return toCsv(
+      ['Customer', 'Invoice', 'Invoice Date', 'Due Date', 'Days Past Due', ...labels, 'Total'],
+      [
+        ...report.customers.reduce((rows, customer) => rows.concat(
+          customer.invoices.map(row => [
+            customer.customerName,
+            row.reference,
+            row.invoiceDate,
+            row.dueDate,
+            row.daysPastDue,
+            ...amounts(row),
+            row.outstandingAmount
+          ]),
+          [[customer.customerName, 'Total', '', '', '', ...totals(customer.buckets), customer.totalOutstanding]]
+        ), [] as (string | number | Date)[][]),
+        ['All customers', 'Total', '', '', '', ...totals(report.buckets), report.totalOutstanding]
+      ]
+    );
+  }
+
   // Private utility methods
   private generateId(): string {
     return `payment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private issueReceipt(payment: Payment): void {
+    if (payment.receiptNumber) {
+      return;
+    }
+    this.numbering.issue('receipt', payment.paymentDate, receiptNumber => {
+      payment.receiptNumber = receiptNumber;
+    }, number => this.payments.some(p => p.receiptNumber === number));
+  }
+
+  // Security deposits are held for the customer and do not count as revenue
+  private isRevenue(payment: Payment): boolean {
+    return payment.purpose !== 'deposit';
+  }
+
+  private getAgingBuckets(bucketEdges: number[]): AgingBucket[] {
+    return [...bucketEdges, undefined].map((toDays, index) => {
+      const fromDays = index === 0 ? 0 : bucketEdges[index - 1] + 1;
+      return {
+        label: toDays === undefined ? `${fromDays > 0 ? fromDays - 1 : 0}+` : `${fromDays}-${toDays}`,
+        fromDays,
+        toDays,
+        amount: 0,
+        invoiceCount: 0
+      };
+    });
+  }
+
+  private getBucketIndex(bucketEdges: number[], daysPastDue: number): number {
+    const index = bucketEdges.findIndex(edge => daysPastDue <= edge);
+    return index === -1 ? bucketEdges.length : index;
+  }
+
+  private sumAgingBuckets(bucketEdges: number[], rows: AgingInvoice[]): AgingBucket[] {
+    const buckets = this.getAgingBuckets(bucketEdges);
+    rows.forEach(row => {
+      const bucket = buckets[this.getBucketIndex(bucketEdges, row.daysPastDue)];
+      bucket.amount = roundTo(bucket.amount + row.outstandingAmount, this.precision);
+      bucket.invoiceCount++;
+    });
+    return buckets;
+  }
+
+  private getAllocatedTotal(payment: Payment): number {
+    return (payment.allocations || []).reduce((sum, a) => sum + a.amount, 0);
+  }
+
+  private requireAllocatablePayment(paymentId: string): Payment {
+    const payment = this.payments.find(p => p.id === paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    if (payment.status !== 'completed') {
+      throw new Error('Only completed payments can be allocated to invoices');
+    }
+    if (!this.isRevenue(payment)) {
+      throw new Error('Security deposits cannot be allocated to invoices');
+    }
+    return payment;
+  }
+
+  // Get payments created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<Payment> {
+    return this.tracker.getChanges(this.payments);
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+
   // Get current payments array (for BusinessManager to sync)
   getPayments(): Payment[] {
     return this.payments;
@@ -0,0 +1,233 @@
+import {
+  RateCard,
+  RateCardRate,
+  RentalItem,
+  Customer,
+  EffectiveRate,
+  EntityChanges
+} from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
+import { startOfDay } from '../utils/dateUtils';
+
+/**
+ * Manages customer rate cards: named price lists with per-item rates.
+ *
+ * A rate card is assigned to a customer or to one of its sites. When a rate
+ * is looked up, the site's card is tried first, then the customer's card, and
+ * the item's own catalogue rates are used when neither card prices the item.
+ */
+export class RateCardManager {
+  private rateCards: Map<string, RateCard> = new Map();
+  private tracker: ChangeTracker<RateCard>;
+
+  constructor(rateCards?: RateCard[]) {
+    if (rateCards) {
+      rateCards.forEach(card => this.rateCards.set(card.id, { ...card }));
+    }
+    this.tracker = new ChangeTracker<RateCard>(c => c.id, Array.from(this.rateCards.values()));
+  }
+
+  /**
+   * Create a new rate card
+   * @param card - Rate card details
+   * @returns Created rate card
+   */
+  createRateCard(
+    card: Omit<RateCard, 'id' | 'isActive' | 'createdAt' | 'updatedAt'> & { isActive?: boolean }
+  ): RateCard {
+    this.validateValidity(card.validFrom, card.validTo);
+    card.rates.forEach(rate => this.validateRate(rate));
+
+    const rateCard: RateCard = {
+      ...card,
+      id: this.generateId(),
+      rates: card.rates.map(rate => ({ ...rate })),
+      isActive: card.isActive !== undefined ? card.isActive : true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    this.rateCards.set(rateCard.id, rateCard);
+    return rateCard;
+  }
+
+  /**
+   * Get a rate card by ID
+   * @param id - Rate card ID
+   * @returns Rate card or undefined if not found
+   */
+  getRateCard(id: string): RateCard | undefined {
+    return this.rateCards.get(id);
+  }
+
+  /**
+   * Get all rate cards
+   * @param activeOnly - Return only active rate cards
+   * @returns Array of rate cards
+   */
+  getRateCards(activeOnly: boolean = true): RateCard[] {
+    const cards = Array.from(this.rateCards.values());
+    return activeOnly ? cards.filter(card => card.isActive) : cards;
+  }
+
+  /**
+   * Update a rate card
+   * @param id - Rate card ID
+   * @param updates - Partial updates to apply
+   * @returns True if updated successfully
+   */
+  updateRateCard(id: string, updates: Partial<Omit<RateCard, 'id' | 'createdAt'>>): boolean {
+    const card = this.rateCards.get(id);
+    if (!card) {
+      return false;
+    }
+
+    const updated = { ...card, ...updates, updatedAt: new Date() };
+    this.validateValidity(updated.validFrom, updated.validTo);
+    updated.rates.forEach(rate => this.validateRate(rate));
+    this.rateCards.set(id, updated);
+    return true;
+  }
+
+  /**
+   * Set the rate for an item on a rate card. Replaces the item's rate that starts
+   * on the same day, so an item can carry successive rates with their own validity.
+   * @param rateCardId - Rate card ID
+   * @param rate - Item rate
+   * @returns True if set successfully
+   */
+  setItemRate(rateCardId: string, rate: RateCardRate): boolean {
+    const card = this.rateCards.get(rateCardId);
+    if (!card) {
+      return false;
+    }
+
+    this.validateRate(rate);
+    const startsOn = (r: RateCardRate) => r.validFrom ? startOfDay(r.validFrom).getTime() : 0;
+    const rates = card.rates.filter(r => !(r.itemId === rate.itemId && startsOn(r) === startsOn(rate)));
+    return this.updateRateCard(rateCardId, { rates: [...rates, { ...rate }] });
+  }
+
+  /**
+   * Remove every rate for an item from a rate card
+   * @param rateCardId - Rate card ID
+   * @param itemId - Item ID
+   * @returns True if removed successfully
+   */
+  removeItemRate(rateCardId: string, itemId: string): boolean {
+    const card = this.rateCards.get(rateCardId);
+    if (!card || !card.rates.some(r => r.itemId === itemId)) {
+      return false;
+    }
+    return this.updateRateCard(rateCardId, { rates: card.rates.filter(r => r.itemId !== itemId) });
+  }
+
+  /**
+   * Deactivate a rate card (soft delete)
+   * @param id - Rate card ID
+   * @returns True if deactivated successfully
+   */
+  deactivateRateCard(id: string): boolean {
+    return this.updateRateCard(id, { isActive: false });
+  }
+
+  /**
+   * Delete a rate card
+   * @param id - Rate card ID
+   * @returns True if deleted successfully
+   */
+  deleteRateCard(id: string): boolean {
+    return this.rateCards.delete(id);
+  }
+
+  /**
+   * Get the rate a card gives an item on a date
+   * @param rateCardId - Rate card ID
+   * @param itemId - Item ID
+   * @param date - Day the rate must be valid on
+   * @returns Item rate, or undefined if the card is inactive, out of validity or does not price the item
+   */
+  getItemRate(rateCardId: string, itemId: string, date: Date = new Date()): RateCardRate | undefined {
+    const card = this.rateCards.get(rateCardId);
+    if (!card || !card.isActive || !this.isValidOn(card.validFrom, card.validTo, date)) {
+      return undefined;
+    }
+
+    // The most recently started rate wins when validity windows overlap
+    return card.rates
+      .filter(rate => rate.itemId === itemId && this.isValidOn(rate.validFrom, rate.validTo, date))
+      .sort((a, b) => (b.validFrom ? b.validFrom.getTime() : 0) - (a.validFrom ? a.validFrom.getTime() : 0))[0];
+  }
+
+  /**
+   * Resolve the rate that applies to an item for a customer
+   * @param item - Rental item
+   * @param customer - Customer renting the item
+   * @param siteId - Site the item goes to; its rate card takes precedence
+   * @param date - Day the rate must be valid on
+   * @returns Effective rate and the rate card it came from
+   */
+  resolveRate(item: RentalItem, customer: Customer, siteId?: string, date: Date = new Date()): EffectiveRate {
+    const site = siteId ? (customer.sites || []).find(s => s.id === siteId) : undefined;
+    const rateCardIds = [site && site.rateCardId, customer.rateCardId]
+      .filter((id): id is string => !!id);
+
+    for (let i = 0; i < rateCardIds.length; i++) {
+      const rate = this.getItemRate(rateCardIds[i], item.id, date);
+      if (rate) {
+        return {
+          itemId: item.id,
+          dailyRate: rate.dailyRate,
+          weeklyRate: rate.weeklyRate,
+          monthlyRate: rate.monthlyRate,
+          rateSource: 'rate_card',
+          rateCardId: rateCardIds[i],
+          rateCardName: this.rateCards.get(rateCardIds[i])!.name
+        };
+      }
+    }
+
+    return {
+      itemId: item.id,
+      dailyRate: item.dailyRate,
+      weeklyRate: item.weeklyRate,
+      monthlyRate: item.monthlyRate,
+      rateSource: 'item'
+    };
+  }
+
+  // Private utility methods
+  private generateId(): string {
+    return `ratecard_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private isValidOn(validFrom: Date | undefined, validTo: Date | undefined, date: Date): boolean {
+    const day = startOfDay(date).getTime();
+    return (!validFrom || startOfDay(validFrom).getTime() <= day) &&
+      (!validTo || startOfDay(validTo).getTime() >= day);
+  }
+
+  private validateValidity(validFrom?: Date, validTo?: Date): void {
+    if (validFrom && validTo && startOfDay(validTo) < startOfDay(validFrom)) {
+      throw new Error('Rate card validity ends before it starts');
+    }
+  }
+
+  private validateRate(rate: RateCardRate): void {
+    const values = [rate.dailyRate, rate.weeklyRate, rate.monthlyRate];
+    if (values.some(value => value !== undefined && value < 0)) {
+      throw new Error(`Rates for item ${rate.itemId} must not be negative`);
+    }
+    this.validateValidity(rate.validFrom, rate.validTo);
+  }
+
+  // Get rate cards created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<RateCard> {
+    return this.tracker.getChanges(Array.from(this.rateCards.values()));
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
+}
@@ -1,4 +1,5 @@
-import { RentalItem } from '../types';
+import { RentalItem, ItemStock, StockAvailability, StockShortfall, EntityChanges } from '../types';
+import { ChangeTracker } from '../core/ChangeTracker';
 import { roundTo } from '../utils/mathUtils';
 
 /**
@@ -6,11 +7,13 @@ import { roundTo } from '../utils/mathUtils';
  */
 export class RentalItemManager {
   private items: Map<string, RentalItem> = new Map();
+  private tracker: ChangeTracker<RentalItem>;
 
   constructor(items?: RentalItem[]) {
     if (items) {
       items.forEach(item => this.addItem(item));
     }
+    this.tracker = new ChangeTracker<RentalItem>(i => i.id, Array.from(this.items.values()));
   }
 
   /**
@@ -103,6 +106,166 @@ export class RentalItemManager {
     return this.updateItem(id, { dailyRate: newRate });
   }
 
+  /**
+   * Update weekly and monthly rates and the minimum rental period for an item
+   * @param id - Item ID
+   * @param plan - Rates and minimum period to set
+   * @returns True if updated successfully
+   */
+  updateRatePlan(
+    id: string, 
+    plan: Pick<RentalItem, 'weeklyRate' | 'monthlyRate' | 'minimumRentalDays'>
+  ): boolean {
+    const values = [plan.weeklyRate, plan.monthlyRate, plan.minimumRentalDays];
+    if (values.some(value => value !== undefined && value < 0)) {
+      return false;
+    }
+    return this.updateItem(id, plan);
+  }
+
+  /**
+   * Start tracking stock for an item or change the quantity owned
+   * @param id - Item ID
+   * @param owned - Total quantity the business owns
+   * @returns True if updated successfully
+   */
+  setOwnedQuantity(id: string, owned: number): boolean {
+    const item = this.items.get(id);
+    if (!item || owned < 0) {
+      return false;
+    }
+
+    const stock = item.stock || { owned: 0, onRent: 0, inRepair: 0, lost: 0 };
+    return this.updateItem(id, { stock: { ...stock, owned } });
+  }
+
+  /**
+   * Get stock levels and available quantity for an item
+   * @param id - Item ID
+   * @returns Availability or undefined if the item is missing or untracked
+   */
+  getAvailability(id: string): StockAvailability | undefined {
+    const item = this.items.get(id);
+    if (!item || !item.stock) {
+      return undefined;
+    }
+
+    const { owned, onRent, inRepair, lost } = item.stock;
+    return {
+      itemId: item.id,
+      itemName: item.name,
+      owned,
+      onRent,
+      inRepair,
+      lost,
+      available: owned - onRent - inRepair - lost
+    };
+  }
+
+  /**
+   * Get availability for every item with tracked stock
+   * @param activeOnly - Include only active items
+   * @returns Array of stock availability
+   */
+  getStockReport(activeOnly: boolean = true): StockAvailability[] {
+    return this.getAllItems(activeOnly)
+      .map(item => this.getAvailability(item.id))
+      .filter((availability): availability is StockAvailability => !!availability);
+  }
+
+  /**
+   * Check whether requested quantities can be issued
+   * @param requests - Items and quantities to issue
+   * @returns Shortfalls; empty when everything is available
+   */
+  checkAvailability(requests: { itemId: string; quantity: number }[]): StockShortfall[] {
+    const requested = new Map<string, number>();
+    requests.forEach(request => {
+      requested.set(request.itemId, (requested.get(request.itemId) || 0) + request.quantity);
+    });
+
+    const shortfalls: StockShortfall[] = [];
+    requested.forEach((quantity, itemId) => {
+      const availability = this.getAvailability(itemId);
+      if (availability && quantity > availability.available) {
+        shortfalls.push({
+          itemId,
+          itemName: availability.itemName,
+          requested: quantity,
+          available: Math.max(0, availability.available)
+        });
+      }
+    });
+
+    return shortfalls;
+  }
+
+  /**
+   * Move stock out on rent
+   * @param id - Item ID
+   * @param quantity - Quantity issued
+   * @returns True if the item tracks stock and was updated
+   */
+  issueStock(id: string, quantity: number): boolean {
+    return this.adjustStock(id, quantity, stock => ({ ...stock, onRent: stock.onRent + quantity }));
+  }
+
+  /**
+   * Bring rented stock back into the warehouse
+   * @param id - Item ID
+   * @param quantity - Quantity returned
+   * @returns True if the item tracks stock and was updated
+   */
+  returnStock(id: string, quantity: number): boolean {
+    return this.adjustStock(id, quantity, stock => ({
+      ...stock,
+      onRent: Math.max(0, stock.onRent - quantity)
+    }));
+  }
+
+  /**
+   * Send stock for repair
+   * @param id - Item ID
+   * @param quantity - Quantity sent for repair
+   * @param fromRent - Take the quantity from stock on rent, e.g. damaged on return
+   * @returns True if the item tracks stock and was updated
+   */
+  sendForRepair(id: string, quantity: number, fromRent: boolean = false): boolean {
+    return this.adjustStock(id, quantity, stock => ({
+      ...stock,
+      onRent: fromRent ? Math.max(0, stock.onRent - quantity) : stock.onRent,
+      inRepair: stock.inRepair + quantity
+    }));
+  }
+
+  /**
+   * Return repaired stock to the available pool
+   * @param id - Item ID
+   * @param quantity - Quantity repaired
+   * @returns True if the item tracks stock and was updated
+   */
+  completeRepair(id: string, quantity: number): boolean {
+    return this.adjustStock(id, quantity, stock => ({
+      ...stock,
+      inRepair: Math.max(0, stock.inRepair - quantity)
+    }));
+  }
+
+  /**
+   * Record stock as lost
+   * @param id - Item ID
+   * @param quantity - Quantity lost
+   * @param fromRent - Take the quantity from stock on rent, e.g. not returned by the customer
+   * @returns True if the item tracks stock and was updated
+   */
+  markLost(id: string, quantity: number, fromRent: boolean = true): boolean {
+    return this.adjustStock(id, quantity, stock => ({
+      ...stock,
+      onRent: fromRent ? Math.max(0, stock.onRent - quantity) : stock.onRent,
+      lost: stock.lost + quantity
+    }));
+  }
+
   /**
    * Get items by category
    * @param category - Category to filter by
@@ -172,6 +335,15 @@ export class RentalItemManager {
     return categoryCount;
   }
 
+  // Apply a stock change to an item that tracks stock
+  private adjustStock(id: string, quantity: number, change: (stock: ItemStock) => ItemStock): boolean {
+    const item = this.items.get(id);
+    if (!item || !item.stock || quantity < 0) {
+      return false;
+    }
+    return this.updateItem(id, { stock: change(item.stock) });
+  }
+
   /**
    * Export items to JSON
    * @returns JSON string of all items
@@ -195,4 +367,14 @@ export class RentalItemManager {
       return false;
     }
   }
+
+  // Get items created, updated or deleted since the last sync (for BusinessManager to sync)
+  getChanges(): EntityChanges<RentalItem> {
+    return this.tracker.getChanges(Array.from(this.items.values()));
+  }
+
+  // Record the changes last returned by getChanges as synced, except the records storage refused
+  markSynced(refused: string[] = []): void {
+    this.tracker.markSynced(refused);
+  }
 }
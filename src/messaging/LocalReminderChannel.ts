@@ -0,0 +1,41 @@
+import { appendFileSync } from 'fs';
+import { ReminderChannel, ReminderChannelType, ReminderMessage } from '../types';
+
+/**
+ * Stand-in reminder channel that writes messages to a file, or to the console
+ * when no file is given, instead of delivering them.
+ *
+ * Use it in development and tests in place of a real email, SMS or WhatsApp
+ * gateway. Every message it was given is also kept for inspection.
+ */
+export class LocalReminderChannel implements ReminderChannel {
+  readonly type: ReminderChannelType;
+  private filePath?: string;
+  private sent: ReminderMessage[] = [];
+
+  constructor(type: ReminderChannelType, filePath?: string) {
+    this.type = type;
+    this.filePath = filePath;
+  }
+
+  async send(message: ReminderMessage): Promise<void> {
+    const lines = [
+      `[${new Date().toISOString()}] ${message.channel.toUpperCase()} to ${message.to} (${message.level})`,
+      ...(message.subject ? [`Subject: ${message.subject}`] : []),
+      message.body,
+      ''
+    ];
+
+    if (this.filePath) {
+      appendFileSync(this.filePath, lines.join('\n') + '\n');
+    } else {
+      console.log(lines.join('\n'));
+    }
+    this.sent.push({ ...message });
+  }
+
+  // Messages this channel has been given, oldest first
+  getSentMessages(): ReminderMessage[] {
+    return this.sent;
+  }
+}
@@ -5,11 +5,46 @@ export interface RentalItem {
   name: string;
   description?: string;
   dailyRate: number;
+  weeklyRate?: number; // Price for a 7-day block
+  monthlyRate?: number; // Price for a 30-day block
+  minimumRentalDays?: number; // Shorter rentals are charged for this many days
+  replacementValue?: number; // Charged per unit lost
+  repairCharge?: number; // Charged per unit returned damaged
   unit: string; // e.g., "piece", "meter", "hour"
   category?: string;
+  hsnSacCode?: string; // HSN code for goods or SAC code for services, printed on GST invoices
+  gstRate?: number; // Overrides BillingConfig.defaultTaxRate on GST invoices
+  stock?: ItemStock; // Stock is not tracked for items without it
   isActive: boolean;
 }
 
+export interface ItemStock {
+  owned: number;
+  onRent: number;
+  inRepair: number;
+  lost: number;
+}
+
+export interface StockAvailability extends ItemStock {
+  itemId: string;
+  itemName: string;
+  available: number;
+}
+
+export interface StockShortfall {
+  itemId: string;
+  itemName: string;
+  requested: number;
+  available: number;
+}
+
+export interface StockOverride {
+  reason: string;
+  approvedBy?: string;
+  approvedAt?: Date; // Filled in when the challan is created
+  shortfalls?: StockShortfall[];
+}
+
 export interface RentalOrder {
   id: string;
   customerId: string;
@@ -26,6 +61,7 @@ export interface RentalOrderItem {
   itemId: string;
   quantity: number;
   dailyRate: number;
+  rateSource?: RateSource; // 'rate_card' or 'item' lines are billed at the customer's rate card; others keep the daily rate
   totalDays: number;
   subtotal: number;
 }
@@ -39,6 +75,7 @@ export interface BillingPeriod {
 export interface BillingCalculation {
   orderId: string;
   customerId: string;
+  siteId?: string;
   billingPeriod: BillingPeriod;
   items: BillingItem[];
   subtotal: number;
@@ -58,8 +95,71 @@ export interface BillingItem {
   dailyRate: number;
   totalDays: number;
   subtotal: number;
+  periodStart?: Date; // Set when the line covers only part of the billing period
+  periodEnd?: Date;
+  chargedDays?: number; // Days charged after applying the minimum rental period
+  slabBreakdown?: RateSlabUsage[]; // Rate slabs chosen to price the line
+  rateSource?: RateSource;
+  rateCardId?: string; // Rate card the line was priced from
+  rateCardName?: string;
+  chargeType?: 'rental' | 'damage' | 'loss' | 'late_fee'; // Defaults to 'rental'; other lines charge dailyRate per unit once
+  assessmentId?: string; // Damage assessment a damage or loss line was charged from
+  lateFeeChargeId?: string; // Late fee charge a late fee line was charged from
 }
 
+export type RateSlab = 'daily' | 'weekly' | 'monthly';
+
+export interface RateSlabs {
+  dailyRate: number;
+  weeklyRate?: number;
+  monthlyRate?: number;
+}
+
+export interface RateSlabUsage {
+  slab: RateSlab;
+  units: number; // Number of days, weeks or months charged
+  rate: number; // Price per unit of the slab
+  amount: number; // rate x units x quantity
+}
+
+// Customer rate cards
+
+export interface RateCard {
+  id: string;
+  name: string;
+  description?: string;
+  rates: RateCardRate[];
+  validFrom?: Date; // The card applies from this day; open-ended when omitted
+  validTo?: Date; // The card applies up to and including this day
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RateCardRate extends RateSlabs {
+  itemId: string;
+  validFrom?: Date; // Narrows the card's validity for this item
+  validTo?: Date;
+}
+
+// Where a rate came from: a rate card, the item's catalogue rate, or typed in by hand
+export type RateSource = 'rate_card' | 'item' | 'manual';
+
+export interface EffectiveRate extends RateSlabs {
+  itemId: string;
+  rateSource: RateSource;
+  rateCardId?: string;
+  rateCardName?: string;
+}
+
+// Looks up the rate that applies to an item for a customer (and site) on a date
+export type RateResolver = (
+  itemId: string,
+  customerId: string,
+  siteId: string | undefined,
+  date: Date
+) => EffectiveRate | undefined;
+
 export interface TaxConfig {
   rate: number;
   description: string;
@@ -81,6 +181,10 @@ export interface BillingConfig {
   roundingPrecision: number;
   lateFeeRate?: number;
   gracePeriodDays?: number;
+  billingCycle?: BillingCycle; // Default cycle for customers without their own; calendar month if unset
+  documentNumbering?: DocumentNumberingConfig; // Overrides the default number series
+  paymentTermsDays?: number; // Days after the invoice date payment is due; 30 if unset
+  dunning?: DunningConfig; // Payment reminder ladder; the built-in ladder if unset
 }
 
 export interface Customer {
@@ -91,9 +195,46 @@ export interface Customer {
   address?: string;
   taxExempt: boolean;
   discountRate?: number;
+  gstin?: string;
+  placeOfSupply?: string; // GST state code; derived from the GSTIN when omitted
+  sites?: Site[];
+  rateCardId?: string; // Rate card applied to challans and billing for this customer
+  billingCycle?: BillingCycle; // Overrides the business's default billing cycle
+  lateFeePolicyId?: string; // Overrides the late fee worked out from the billing config
+  paymentTermsDays?: number; // Overrides the business's payment terms
   isActive: boolean;
 }
 
+export interface Site {
+  id: string;
+  customerId: string;
+  name: string;
+  address: string;
+  contactPerson?: string;
+  contactPhone?: string;
+  openingDate: Date;
+  closingDate?: Date;
+  rateCardId?: string; // Takes precedence over the customer's rate card
+  isActive: boolean;
+}
+
+export interface SiteStatement {
+  customerId: string;
+  siteId: string;
+  siteName: string;
+  from?: Date;
+  to?: Date;
+  challans: Challan[];
+  returnChallans: Challan[];
+  deliveries: Delivery[];
+  payments: Payment[];
+  billingCalculations: BillingCalculation[];
+  outstandingStock: StockPosition[];
+  totalBilled: number;
+  totalPaid: number;
+  balance: number;
+}
+
 // New interfaces for cloud storage and additional business entities
 
 export interface User {
@@ -102,20 +243,29 @@ export interface User {
   businessName: string;
   businessAddress?: string;
   phone?: string;
+  gstin?: string;
+  stateCode?: string; // GST state code of the business; derived from the GSTIN when omitted
   createdAt: Date;
   updatedAt: Date;
   billingConfig: BillingConfig;
 }
 
+export type ChallanType = 'issue' | 'return';
+
 export interface Challan {
   id: string;
   challanNumber: string;
+  challanType?: ChallanType; // Defaults to 'issue' when omitted
+  sourceChallanIds?: string[]; // Issue challans a return challan is recorded against
+  stockOverride?: StockOverride; // Present when the challan was issued beyond available stock
   customerId: string;
   customerName: string;
+  siteId?: string;
   challanDate: Date;
+  expectedReturnDate?: Date; // Stock still out after this day is returned late
   items: ChallanItem[];
   totalAmount: number;
-  status: 'pending' | 'delivered' | 'returned' | 'cancelled';
+  status: 'pending' | 'delivered' | 'partially_returned' | 'returned' | 'cancelled';
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -126,13 +276,48 @@ export interface ChallanItem {
   itemName: string;
   quantity: number;
   dailyRate: number;
+  sourceChallanId?: string; // Issue challan this line returns stock against (return challans only)
+  rateSource?: RateSource;
+  rateCardId?: string; // Rate card the daily rate was taken from
+  rateCardName?: string;
+  notes?: string;
+}
+
+// A challan line as entered; the daily rate is looked up when left out
+export interface ChallanItemInput {
+  itemId: string;
+  quantity: number;
+  dailyRate?: number;
+  notes?: string;
+}
+
+export interface ChallanOptions {
+  challanDate?: Date; // Defaults to now; set it to record a challan after the fact
+  stockOverride?: StockOverride; // Allows issuing more than is available
+  siteId?: string;
+  expectedReturnDate?: Date; // Issue challans only
+}
+
+export interface ReturnChallanItem {
+  sourceChallanId: string;
+  itemId: string;
+  quantity: number;
   notes?: string;
 }
 
+export interface OutstandingQuantity {
+  itemId: string;
+  itemName: string;
+  issuedQuantity: number;
+  returnedQuantity: number;
+  outstandingQuantity: number;
+}
+
 export interface Delivery {
   id: string;
   challanId: string;
   customerId: string;
+  siteId?: string;
   deliveryDate: Date;
   deliveryAddress: string;
   items: DeliveryItem[];
@@ -154,18 +339,96 @@ export interface DeliveryItem {
 
 export interface Payment {
   id: string;
-  challanId: string;
+  challanId?: string; // Challan the payment was taken against, if any
   customerId: string;
+  siteId?: string;
   amount: number;
   paymentDate: Date;
-  paymentMethod: 'cash' | 'card' | 'bank_transfer' | 'upi' | 'cheque';
+  paymentMethod: 'cash' | 'card' | 'bank_transfer' | 'upi' | 'cheque' | 'deposit'; // 'deposit' is paid out of a security deposit
+  purpose?: 'rental' | 'deposit'; // Deposits are held for the customer and are not revenue; defaults to 'rental'
+  depositId?: string; // Security deposit the payment was received into or paid out of
   referenceNumber?: string;
+  receiptNumber?: string; // Issued when the payment is completed
   status: 'pending' | 'completed' | 'failed' | 'refunded';
+  allocations?: PaymentAllocation[]; // Invoices the payment settles; the rest is on-account credit
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface PaymentAllocation {
+  invoiceId: string; // Account entry ID of the invoice
+  invoiceReference: string;
+  amount: number;
+  allocationType: 'auto' | 'manual';
+  allocatedAt: Date;
+}
+
+// A manual allocation request
+export interface AllocationRequest {
+  invoiceId: string;
+  amount: number;
+}
+
+export interface InvoiceBalance {
+  invoiceId: string; // Account entry ID of the invoice
+  reference: string;
+  customerId: string;
+  siteId?: string;
+  invoiceDate: Date;
+  dueDate: Date;
+  amount: number;
+  notesAmount: number; // Debit notes less credit notes raised against the invoice
+  allocatedAmount: number;
+  outstandingAmount: number;
+}
+
+// Receivables aging
+
+export interface AgingOptions {
+  bucketEdges?: number[]; // Last day past due of each bucket but the open-ended last one; defaults to [30, 60, 90]
+  customerIds?: string[];
+  includeZeroBalances?: boolean; // List customers with nothing outstanding
+}
+
+export interface AgingBucket {
+  label: string; // e.g. 0-30, 31-60, 90+
+  fromDays: number;
+  toDays?: number; // Undefined for the open-ended last bucket
+  amount: number;
+  invoiceCount: number;
+}
+
+export interface AgingInvoice {
+  invoiceId: string; // Account entry ID of the invoice
+  reference: string;
+  customerId: string;
+  siteId?: string;
+  invoiceDate: Date;
+  dueDate: Date;
+  daysPastDue: number; // Negative while the invoice is not yet due; those age in the first bucket
+  bucket: string;
+  amount: number; // Invoice amount after credit and debit notes
+  outstandingAmount: number;
+}
+
+export interface CustomerAging {
+  customerId: string;
+  customerName: string;
+  buckets: AgingBucket[];
+  invoices: AgingInvoice[];
+  totalOutstanding: number;
+}
+
+export interface AgingReport {
+  asOf: Date;
+  bucketEdges: number[];
+  customers: CustomerAging[];
+  buckets: AgingBucket[];
+  totalOutstanding: number;
+  generatedAt: Date;
+}
+
 export interface UserDataStore {
   user: User;
   inventory: RentalItem[];
@@ -174,9 +437,348 @@ export interface UserDataStore {
   deliveries: Delivery[];
   payments: Payment[];
   billingCalculations: BillingCalculation[];
+  rateCards?: RateCard[];
+  accountEntries?: AccountEntry[];
+  deposits?: SecurityDeposit[];
+  damageAssessments?: DamageAssessment[];
+  billingRuns?: BillingRun[];
+  invoices?: Invoice[];
+  invoiceNotes?: InvoiceNote[];
+  documentCounters?: DocumentCounter[];
+  lateFeePolicies?: LateFeePolicy[];
+  lateFeeCharges?: LateFeeCharge[];
+  reminders?: ReminderRecord[];
+  recordVersions?: RecordVersions; // Filled in by storage when loading
   lastSync: Date;
 }
 
+// The lists of records in a UserDataStore, e.g. challans or payments
+export type UserDataEntity = Exclude<keyof UserDataStore, 'user' | 'lastSync' | 'recordVersions'>;
+
+// Storage gives every record a version, raised each time the record is written
+export interface RecordVersion {
+  version: number;
+  updatedAt: Date;
+}
+
+// Versions of stored records by entity list and record key
+export type RecordVersions = {
+  [K in UserDataEntity]?: { [key: string]: RecordVersion };
+};
+
+// Records of one list created, updated or deleted since it was last synced
+export interface EntityChanges<T = any> {
+  created: T[];
+  updated: T[];
+  deleted: string[]; // Keys of the deleted records: their ID, or series:financialYear for document counters
+  previous?: { [key: string]: any }; // Updated and deleted records as last synced, serialized
+  // Versions the changes were made from, by record key; 0 for created records. A change
+  // whose record has moved on in storage is refused as a conflict. Records with no base
+  // version are written regardless.
+  baseVersions?: { [key: string]: number };
+}
+
+export type UserDataChanges = {
+  [K in UserDataEntity]?: EntityChanges<NonNullable<UserDataStore[K]>[number]>;
+};
+
+// Everything a BusinessManager changed since its last sync
+export interface PendingChanges {
+  user?: User; // Set when the profile or billing settings changed
+  entities: UserDataChanges; // Lists with no changes are left out
+  count: number; // Records created, updated or deleted, counting a changed user as one
+}
+
+// Customer account ledger
+
+// Invoices and debit adjustments raise what the customer owes; payments,
+// credit notes and credit adjustments reduce it
+export type AccountEntryType = 'invoice' | 'payment' | 'refund' | 'credit_note' | 'debit_note' | 'adjustment';
+
+export interface AccountEntry {
+  id: string;
+  customerId: string;
+  siteId?: string;
+  type: AccountEntryType;
+  entryDate: Date;
+  reference: string; // Invoice number, payment reference or note number
+  sourceId?: string; // Billing calculation order ID or payment ID the entry was posted from
+  reversesEntryId?: string; // Entry this one reverses
+  description: string;
+  debit: number;
+  credit: number;
+  createdAt: Date;
+}
+
+export interface AccountStatementLine {
+  entryId: string;
+  entryDate: Date;
+  type: AccountEntryType;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after the entry; positive when the customer owes
+}
+
+export interface AccountStatement {
+  customerId: string;
+  siteId?: string;
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  lines: AccountStatementLine[];
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  generatedAt: Date;
+}
+
+// Damage and loss assessment
+
+export interface DamageAssessmentInput {
+  itemId: string;
+  damagedQuantity?: number;
+  lostQuantity?: number;
+  repairCost?: number; // Total repair cost of the damaged quantity; defaults to RentalItem.repairCharge per unit
+  notes?: string;
+}
+
+export interface DamageAssessmentItem {
+  itemId: string;
+  itemName: string;
+  damagedQuantity: number;
+  lostQuantity: number;
+  repairCost: number; // Total charged for the damaged quantity
+  replacementValue: number; // Charged per unit lost
+  lossCharge: number;
+  notes?: string;
+}
+
+export interface DamageAssessment {
+  id: string;
+  returnChallanId: string;
+  returnChallanNumber: string;
+  customerId: string;
+  siteId?: string;
+  assessmentDate: Date;
+  items: DamageAssessmentItem[];
+  totalCharge: number;
+  billingStatus: 'unbilled' | 'billed';
+  billedReference?: string; // Invoice the charges were billed on
+  assessedBy?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Security deposits
+
+export type DepositTransactionType = 'received' | 'deduction' | 'refund';
+
+export interface DepositTransaction {
+  id: string;
+  type: DepositTransactionType;
+  amount: number;
+  balanceAfter: number; // Amount held once the transaction is applied
+  transactionDate: Date;
+  reason?: string; // Why a deduction was made
+  reference?: string; // Receipt, cheque or transfer reference
+  paymentId?: string; // Payment that brought the money in or applied it to charges
+  paymentMethod?: Payment['paymentMethod']; // How a refund was paid out
+  recordedBy?: string;
+  createdAt: Date;
+}
+
+export interface SecurityDeposit {
+  id: string;
+  customerId: string;
+  siteId?: string; // Deposits are held per site when taken for one
+  status: 'held' | 'closed';
+  transactions: DepositTransaction[]; // Audit trail; transactions are never edited or removed
+  heldAmount: number;
+  openedAt: Date;
+  closedAt?: Date;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DepositHeldRow {
+  depositId: string;
+  customerId: string;
+  customerName: string;
+  siteId?: string;
+  siteName?: string;
+  receivedAmount: number;
+  deductedAmount: number;
+  refundedAmount: number;
+  heldAmount: number;
+  lastTransactionDate: Date;
+}
+
+export interface DepositHeldReport {
+  asOf: Date;
+  rows: DepositHeldRow[];
+  totalHeld: number;
+}
+
+// Running-balance rental billing
+
+export interface StockMovement {
+  challanId: string;
+  challanNumber: string;
+  customerId: string;
+  siteId?: string;
+  date: Date;
+  itemId: string;
+  itemName: string;
+  dailyRate: number;
+  rateCardId?: string;
+  rateCardName?: string;
+  quantity: number; // Positive for issues, negative for returns
+}
+
+export interface StockPosition {
+  customerId: string;
+  itemId: string;
+  itemName: string;
+  dailyRate: number;
+  rateCardId?: string;
+  rateCardName?: string;
+  quantity: number;
+}
+
+export interface DailyRentalBalance {
+  date: Date;
+  itemId: string;
+  itemName: string;
+  dailyRate: number;
+  rateCardId?: string;
+  rateCardName?: string;
+  openingQuantity: number;
+  issuedQuantity: number;
+  returnedQuantity: number;
+  closingQuantity: number; // Quantity on site that is charged for the day
+  amount: number;
+  challanIds: string[]; // Challans that moved stock on this day
+}
+
+export interface RunningBalanceBilling {
+  customerId: string;
+  siteId?: string;
+  billingPeriod: BillingPeriod;
+  openingPositions: StockPosition[];
+  closingPositions: StockPosition[];
+  dailyBalances: DailyRentalBalance[];
+  calculation: BillingCalculation;
+}
+
+// GST tax invoices
+
+export type GstSupplyType = 'intra_state' | 'inter_state';
+
+export interface GstParty {
+  name: string;
+  address?: string;
+  gstin?: string; // Omitted for unregistered recipients
+  stateCode: string;
+  stateName: string;
+}
+
+export interface GstInvoiceLine {
+  serialNumber: number;
+  itemId: string;
+  description: string;
+  hsnSacCode: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  totalDays: number;
+  grossAmount: number;
+  discountAmount: number;
+  taxableValue: number;
+  gstRate: number;
+  cgstRate: number;
+  cgstAmount: number;
+  sgstRate: number; // SGST or UTGST, see GstInvoice.stateTaxLabel
+  sgstAmount: number;
+  igstRate: number;
+  igstAmount: number;
+  totalAmount: number;
+}
+
+export interface GstHsnSummary {
+  hsnSacCode: string;
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+}
+
+export interface GstInvoice {
+  invoiceNumber: string;
+  invoiceDate: Date;
+  orderId: string;
+  supplier: GstParty;
+  recipient: GstParty;
+  placeOfSupply: { stateCode: string; stateName: string };
+  supplyType: GstSupplyType;
+  stateTaxLabel: 'SGST' | 'UTGST';
+  reverseCharge: boolean;
+  billingPeriod: BillingPeriod;
+  lines: GstInvoiceLine[];
+  hsnSummary: GstHsnSummary[];
+  totalTaxableValue: number;
+  totalCgst: number;
+  totalSgst: number;
+  totalIgst: number;
+  totalTax: number;
+  roundOff: number;
+  invoiceTotal: number;
+  currency: string;
+  generatedAt: Date;
+}
+
+export interface GstInvoiceOptions {
+  invoiceNumber: string;
+  invoiceDate?: Date;
+  reverseCharge?: boolean;
+  defaultHsnSacCode?: string; // Used for items without their own code
+  roundToRupee?: boolean; // Round the invoice total to the nearest rupee (default true)
+}
+
+// Document rendering
+
+export interface DocumentLogo {
+  data: Uint8Array; // JPEG file contents
+  width: number; // Size drawn on the page, in points
+  height: number;
+}
+
+export interface DocumentTemplate {
+  logo?: DocumentLogo;
+  accentColor?: string; // Hex colour for headings and table headers
+  titles?: {
+    challan?: string;
+    returnChallan?: string;
+    deliveryNote?: string;
+    invoice?: string;
+    accountStatement?: string;
+  };
+  terms?: string[];
+  footerText?: string;
+  signatureLabel?: string;
+  showAmountInWords?: boolean; // Defaults to true
+}
+
+export interface InvoiceRenderOptions {
+  invoiceNumber?: string;
+  invoiceDate?: Date;
+}
+
 // Utility types
 export type Currency = 'USD' | 'EUR' | 'GBP' | 'INR' | 'CAD' | 'AUD';
 
@@ -194,15 +796,68 @@ export interface CalculationOptions {
 export interface CloudStorageConfig {
   connectionString: string;
   databaseName: string;
-  collectionName: string;
+  collectionName: string; // Prefix of the per-entity collections, e.g. userData.challans; older single-document stores live in the collection itself
   enableChangeStreams?: boolean;
+  pageSize?: number; // Records fetched per round trip when loading; defaults to 500
+}
+
+// A page of one entity list, e.g. a user's challans
+export interface EntityPage<T = any> {
+  items: T[];
+  versions: { [key: string]: RecordVersion }; // Versions of the records on this page, by record key
+  nextCursor?: string; // Pass back to get the next page; undefined on the last page
+}
+
+export interface StorageMigrationReport {
+  migrated: { userId: string; recordsWritten: number }[];
+  failed: { userId: string; error: string }[];
+  legacyRemoved: boolean;
+}
+
+export interface JsonFileStorageConfig {
+  directory: string; // One <userId>.json file per user is kept here
+  pollIntervalMs?: number; // How often watched files are checked for changes; defaults to 1000
+}
+
+export interface SqliteStorageConfig {
+  filePath: string; // Database file; ':memory:' keeps it in memory
+  tableName?: string; // Defaults to user_data
+  pollIntervalMs?: number; // How often watched users are checked for changes; defaults to 1000
+}
+
+export interface StorageConformanceOptions {
+  watch?: boolean; // Check watchUserData; turn off for adapters that cannot watch, e.g. MongoDB without change streams
+  watchTimeoutMs?: number; // How long to wait for a change to be noticed; defaults to 5000
+  userIdPrefix?: string; // Prefix for the throwaway users the suite writes; defaults to conformance
+}
+
+export interface StorageConformanceCheck {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+export interface StorageConformanceReport {
+  passed: boolean;
+  checks: StorageConformanceCheck[];
 }
 
 export interface SyncResult {
   success: boolean;
   message: string;
   lastSync: Date;
-  recordsUpdated: number;
+  recordsUpdated: number; // Records written or deleted; adapters keeping a user in one document count replaced fields as one
+  versions?: RecordVersions; // New versions of the records written by record-level changes
+  conflicts?: WriteConflict[]; // Record-level changes refused because the record moved on
+}
+
+// A record-level change refused because the stored record is not at its base version
+export interface WriteConflict {
+  entity: UserDataEntity;
+  key: string;
+  baseVersion: number;
+  current?: any; // Stored record, undefined when it was deleted
+  currentVersion?: RecordVersion;
 }
 
 export interface CloudStorageManager {
@@ -211,14 +866,65 @@ export interface CloudStorageManager {
   saveUserData(userId: string, data: UserDataStore): Promise<SyncResult>;
   loadUserData(userId: string): Promise<UserDataStore | null>;
   deleteUserData(userId: string): Promise<boolean>;
-  updateUserData(userId: string, updates: Partial<UserDataStore>): Promise<SyncResult>;
+  // Replaces the fields given in updates, then applies record-level changes to the lists in changes.
+  // Does nothing for a user that has not been saved.
+  updateUserData(userId: string, updates: Partial<UserDataStore>, changes?: UserDataChanges): Promise<SyncResult>;
   watchUserData(userId: string, callback: (data: UserDataStore) => void): Promise<void>;
   stopWatching(userId: string): Promise<void>;
 }
 
+// Offline-first sync
+
+// A local change waiting to be pushed to storage
+export interface OutboxEntry {
+  entity: UserDataEntity | 'user';
+  key: string; // Record key; 'user' for the profile
+  record?: any; // Record as changed locally; undefined when it was deleted
+  previous?: any; // Record as last synced, serialized; undefined for new records
+  baseVersion?: number; // Stored version the change was made from; 0 for new records, undefined if not known
+  queuedAt: Date;
+  conflict?: SyncConflict; // Set while the change waits for a decision
+}
+
+// Keeps the outbox across restarts, e.g. on the device's disk
+export interface OutboxStore {
+  load(): Promise<OutboxEntry[]>;
+  save(entries: OutboxEntry[]): Promise<void>;
+}
+
+// A local change that clashes with a change made elsewhere to the same fields
+export interface SyncConflict {
+  id: string;
+  entity: UserDataEntity;
+  key: string;
+  local?: any; // Undefined when the record was deleted locally
+  remote?: any; // Undefined when the record was deleted elsewhere
+  base?: any; // Record both sides started from, serialized
+  fields: string[]; // Fields both sides changed to different values; empty when one side deleted
+  localChangedAt: Date;
+  remoteVersion?: RecordVersion;
+}
+
+// Keep the local change, take the stored record, take whichever changed last, or use a merged record
+export type ConflictResolution = 'local' | 'remote' | 'latest' | { merged: any };
+
+export interface OfflineSyncOptions {
+  outboxStore?: OutboxStore; // Defaults to keeping the outbox in memory
+  maxMergeRounds?: number; // Times merged changes are retried when storage keeps moving on; defaults to 3
+}
+
+export interface OfflineSyncResult {
+  status: 'synced' | 'offline' | 'conflicts';
+  pushed: number; // Local changes written to storage
+  merged: number; // Local changes merged with changes made elsewhere
+  conflicts: SyncConflict[]; // Conflicts waiting for a decision
+  pending: number; // Changes still in the outbox
+  error?: string; // Why storage could not be reached
+}
+
 // WebSocket interfaces for real-time updates
 export interface WebSocketMessage {
-  type: 'data_update' | 'sync_complete' | 'error';
+  type: 'user_data' | 'sync_complete' | 'error';
   userId: string;
   data?: any;
   timestamp: Date;
@@ -230,3 +936,361 @@ export interface ChangeStreamEvent {
   fullDocument?: any;
   updateDescription?: any;
 }
+
+// One JSON Patch (RFC 6902) operation
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string; // JSON Pointer to the changed value, e.g. '/items/0/returnedQuantity'
+  value?: any;
+}
+
+// What a record event says about the record, e.g. 'challan' in 'challan.created'
+export type EntityEventSubject =
+  | 'user'
+  | 'item'
+  | 'customer'
+  | 'challan'
+  | 'delivery'
+  | 'payment'
+  | 'billing_calculation'
+  | 'rate_card'
+  | 'account_entry'
+  | 'deposit'
+  | 'damage_assessment'
+  | 'billing_run'
+  | 'invoice'
+  | 'invoice_note'
+  | 'document_counter'
+  | 'late_fee_policy'
+  | 'late_fee_charge'
+  | 'reminder';
+
+// status_changed replaces updated when the record's status is among the changes
+export type EntityEventAction = 'created' | 'updated' | 'deleted' | 'status_changed';
+
+export type EntityEventType = `${EntityEventSubject}.${EntityEventAction}`;
+
+// Clients get updated records whole, or as a patch to the record they last saw
+export type EntityEventPayload = 'entity' | 'patch';
+
+export interface EntityChangeEvent {
+  type: EntityEventType;
+  userId: string;
+  sequence: number; // Per user, one higher than the event before it
+  entity: UserDataEntity | 'user';
+  key: string; // Record key; the user ID for the profile
+  data?: any; // The record; on created events, and updated ones for clients taking entities
+  patch?: JsonPatchOperation[]; // Changes to the record; on updated events for clients taking patches
+  status?: { from: any; to: any }; // On status_changed events
+  timestamp: Date;
+}
+
+export interface WebSocketManagerOptions {
+  tokenVerifier: TokenVerifier; // Checks the token each client authenticates with
+  accessPolicy?: AccessPolicy; // Defaults to letting each account read its own business only
+  authTimeoutMs?: number; // Time a client has to authenticate before it is disconnected; defaults to 10000
+  eventHistoryLimit?: number; // Events kept per user so clients can resync from a sequence; defaults to 1000
+  heartbeatIntervalMs?: number; // Time between pings; defaults to 30000, 0 turns heartbeats off
+  heartbeatTimeoutMs?: number; // Silence after which a client is disconnected; defaults to twice the interval
+  resumeTtlMs?: number; // Time a disconnected client's subscriptions are kept for it to resume; defaults to 120000
+  maxBufferedBytes?: number; // Data queued for a client before it counts as slow; defaults to 1048576
+  slowClientPolicy?: SlowClientPolicy; // Defaults to 'drop'
+}
+
+// Drop messages for a slow client until it catches up, or disconnect it so it can resume
+export type SlowClientPolicy = 'drop' | 'disconnect';
+
+export interface WebSocketClientStats {
+  clientId: string;
+  subject?: string; // Account the client authenticated as
+  userIds: string[]; // Users it is subscribed to
+  connectedAt: Date;
+  lastSeenAt: Date; // Last message or pong from the client
+  bufferedBytes: number; // Data queued and not yet sent
+  droppedMessages: number;
+}
+
+export interface WebSocketConnectionStats {
+  totalClients: number;
+  authenticatedClients: number;
+  totalUserSubscriptions: number;
+  mongoConnected: boolean;
+  activeChangeStreams: number;
+  resumableSessions: number; // Disconnected clients whose subscriptions are kept for them to resume
+  slowClients: number; // Clients over the buffer limit right now
+  droppedMessages: number; // Totals since the server started
+  slowClientDisconnects: number;
+  heartbeatTimeouts: number;
+  resumedSessions: number;
+  clients: WebSocketClientStats[];
+}
+
+// WebSocket authentication
+
+// Owners sign in as the business itself; staff sign in with their own accounts
+export type AuthRole = 'owner' | 'staff';
+
+// Account a client authenticated as
+export interface AuthIdentity {
+  subject: string; // Account ID
+  userId: string; // Business (user) the account belongs to
+  role: AuthRole;
+  expiresAt?: Date; // When the token stops being valid
+}
+
+// Checks a client's token; rejects with an AuthenticationError when it is not valid
+export interface TokenVerifier {
+  verify(token: string): Promise<AuthIdentity>;
+}
+
+// Decides whether an account may read a business's data
+export type AccessPolicy = (identity: AuthIdentity, userId: string) => boolean;
+
+export interface HmacTokenVerifierOptions {
+  secret: string; // Shared with whatever issues the tokens
+  algorithm?: 'HS256' | 'HS384' | 'HS512'; // Defaults to 'HS256'
+  issuer?: string; // Required iss claim, if set
+  audience?: string; // Required aud claim, if set
+  clockToleranceSeconds?: number; // Leeway for exp and nbf; defaults to 30
+}
+
+// Claims of a JWT checked by HmacTokenVerifier
+export interface HmacTokenClaims {
+  sub: string; // Account ID
+  userId?: string; // Business a staff account belongs to; defaults to sub for owners
+  role?: AuthRole; // Defaults to 'owner'
+  iss?: string;
+  aud?: string | string[];
+  iat?: number; // Times are seconds since the epoch
+  nbf?: number;
+  exp?: number;
+}
+
+// Recurring billing runs
+
+export type BillingCycleType = 'monthly' | 'fortnightly';
+
+export interface BillingCycle {
+  type: BillingCycleType;
+  startDay?: number; // Monthly: day of the month each period starts, 1-28 (1 = calendar month, 15 = 15th to 15th)
+  anchorDate?: Date; // Fortnightly: first day of any one period in the series
+}
+
+export type BillingRunSkipReason = 'not_found' | 'inactive' | 'no_rentals' | 'already_billed' | 'error';
+
+export interface BillingRunInvoice {
+  customerId: string;
+  customerName: string;
+  cycleStart: Date; // Full billing cycle period
+  cycleEnd: Date;
+  periodStart: Date; // Days actually billed; shorter than the cycle when prorated
+  periodEnd: Date;
+  prorated: boolean;
+  orderId: string; // Billing calculation reference
+  invoiceId?: string; // Finalized invoice; absent on dry runs
+  invoiceEntryId?: string; // Account entry posted; absent on dry runs
+  reference?: string;
+  amount: number;
+}
+
+export interface BillingRunSkip {
+  customerId: string;
+  customerName: string;
+  reason: BillingRunSkipReason;
+  detail: string;
+}
+
+export interface BillingRun {
+  id: string;
+  runDate: Date; // Bills each customer's unbilled cycle periods ending on or before this day
+  dryRun: boolean;
+  invoices: BillingRunInvoice[];
+  skipped: BillingRunSkip[];
+  totalAmount: number;
+  createdAt: Date;
+}
+
+export interface BillingRunOptions {
+  customerIds?: string[]; // Limit the run to these customers
+  invoiceDate?: Date; // Date the invoices are posted on; defaults to the run date
+  dryRun?: boolean; // Calculate the invoices without posting or recording them
+}
+
+// Finalized invoices and credit/debit notes
+
+export interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  customerId: string;
+  siteId?: string;
+  invoiceDate: Date;
+  billing: BillingCalculation; // Copy of the calculation as it was invoiced
+  totalAmount: number;
+  dueDate: Date;
+  accountEntryId: string; // Invoice entry on the customer's account
+  finalizedAt: Date;
+}
+
+export type InvoiceNoteType = 'credit_note' | 'debit_note';
+
+export interface InvoiceNote {
+  id: string;
+  noteNumber: string;
+  noteType: InvoiceNoteType;
+  invoiceId: string;
+  invoiceNumber: string;
+  customerId: string;
+  siteId?: string;
+  noteDate: Date;
+  reason: string;
+  taxableAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  accountEntryId: string;
+  createdAt: Date;
+}
+
+// Document numbering
+
+export type DocumentSeries = 'challan' | 'return_challan' | 'invoice' | 'receipt' | 'credit_note' | 'debit_note';
+
+export interface NumberingSeriesConfig {
+  prefix?: string;
+  pattern?: string; // Tokens: {prefix}, {fy} (24-25), {fyFull} (2024-25), {seq}; defaults to {prefix}/{fy}/{seq}
+  padding?: number; // Minimum digits in {seq}; defaults to 4
+}
+
+export type DocumentNumberingConfig = Partial<Record<DocumentSeries, NumberingSeriesConfig>>;
+
+export interface DocumentCounter {
+  series: DocumentSeries;
+  financialYear: string; // April to March, e.g. 2024-25
+  lastNumber: number;
+  updatedAt: Date;
+}
+
+// Late fees
+
+// 'flat' charges the rate per overdue day; 'percentage' charges the rate times the overdue
+// amount per day. Other methods can be registered with LateFeeManager.registerMethod.
+export type LateFeeMethod = 'flat' | 'percentage' | (string & {});
+
+export type LateFeeSource = 'return' | 'invoice';
+
+export interface LateFeeTier {
+  afterDays: number; // Replaces the base rate once the fee has run for more than this many days
+  rate: number;
+}
+
+export interface LateFeePolicy {
+  id: string;
+  name: string;
+  method: LateFeeMethod;
+  rate: number;
+  tiers?: LateFeeTier[];
+  gracePeriodDays?: number; // Days overdue before the fee starts; the fee runs from the end of the grace period
+  maxAmount?: number; // Cap on the fee for one overdue return or invoice
+  maxPercentage?: number; // Cap as a share of the overdue amount, e.g. 0.1 for 10%
+  appliesTo?: LateFeeSource[]; // Defaults to both returns and invoices
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Fee for one overdue day at a rate
+export type LateFeeRule = (rate: number, overdueAmount: number) => number;
+
+export interface LateFeeCalculation {
+  overdueDays: number;
+  chargeableDays: number; // Overdue days after the grace period
+  uncappedAmount: number;
+  amount: number;
+  capped: boolean;
+}
+
+export interface LateFeeCharge {
+  id: string;
+  customerId: string;
+  siteId?: string;
+  source: LateFeeSource;
+  sourceId: string; // Issue challan or invoice account entry
+  sourceReference: string; // Challan or invoice number
+  dueDate: Date;
+  assessedThrough: Date; // Fee covers lateness up to this day
+  overdueAmount: number; // Largest daily rental value of stock out late, or invoice amount outstanding
+  overdueDays: number;
+  amount: number; // Added by this charge; lateness charged earlier is not charged again
+  policyId: string;
+  policyName: string;
+  billingStatus: 'unbilled' | 'billed';
+  billedReference?: string;
+  createdAt: Date;
+}
+
+// Payment reminders (dunning)
+
+export type DunningLevel = 'friendly' | 'firm' | 'final';
+
+export type ReminderChannelType = 'email' | 'sms' | 'whatsapp';
+
+// Placeholders in braces are filled in when a reminder is sent: {customerName},
+// {businessName}, {amount}, {currency}, {invoiceNumbers}, {invoiceCount},
+// {daysPastDue} and {oldestDueDate}
+export interface ReminderTemplate {
+  subject?: string; // Used by channels that have one, such as email
+  body: string;
+}
+
+export interface DunningStep {
+  level: DunningLevel;
+  daysPastDue: number; // Reached once an unpaid invoice is this many days past due
+  channels: ReminderChannelType[];
+  template?: ReminderTemplate; // Defaults to the built-in template for the level
+}
+
+export interface DunningConfig {
+  steps?: DunningStep[]; // Defaults to friendly at 1, firm at 15 and final at 30 days past due
+  minimumAmount?: number; // Customers with less than this overdue are not reminded
+  minDaysBetweenReminders?: number; // Defaults to 7
+}
+
+export interface ReminderMessage {
+  channel: ReminderChannelType;
+  to: string; // Email address or phone number
+  subject?: string;
+  body: string;
+  customerId: string;
+  level: DunningLevel;
+}
+
+// Delivers reminders over one channel, e.g. an email or SMS gateway
+export interface ReminderChannel {
+  type: ReminderChannelType;
+  send(message: ReminderMessage): Promise<void>;
+}
+
+export interface DueReminder {
+  customerId: string;
+  customerName: string;
+  step: DunningStep;
+  invoices: InvoiceBalance[]; // Every overdue invoice, not only those escalating
+  overdueAmount: number;
+  daysPastDue: number; // Of the oldest overdue invoice
+}
+
+export interface ReminderRecord {
+  id: string;
+  customerId: string;
+  level: DunningLevel;
+  channel: ReminderChannelType;
+  to?: string;
+  invoiceIds: string[]; // Account entry IDs of the invoices reminded about
+  invoiceReferences: string[];
+  amount: number;
+  daysPastDue: number;
+  subject?: string;
+  body: string;
+  status: 'sent' | 'failed';
+  error?: string;
+  sentAt: Date;
+}
@@ -0,0 +1,31 @@
+// Utility functions for exporting reports as CSV
+
+import { formatDate } from './dateUtils';
+
+export type CsvValue = string | number | boolean | Date | undefined | null;
+
+/**
+ * Quote a value for a CSV cell when it contains a delimiter, quote or line break
+ * @param value - Cell value
+ * @returns Escaped cell text
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = value instanceof Date ? formatDate(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from rows of values
+ * @param headers - Column headers
+ * @param rows - Data rows
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+}
@@ -120,3 +120,24 @@ export function calculateBusinessDays(startDate: Date, endDate: Date): number {
   
   return businessDays;
 }
+
+/**
+ * Get a copy of a date with the time reset to midnight
+ * @param date - Date to normalise
+ * @returns Date at the start of the same day
+ */
+export function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Check whether two dates fall on the same calendar day
+ * @param a - First date
+ * @param b - Second date
+ * @returns True if both dates are on the same day
+ */
+export function isSameDay(a: Date, b: Date): boolean {
+  return startOfDay(a).getTime() === startOfDay(b).getTime();
+}
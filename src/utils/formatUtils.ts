@@ -0,0 +1,124 @@
+// Utility functions for formatting amounts on documents
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen',
+  'Eighteen', 'Nineteen'
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const CURRENCY_WORDS: Record<string, { major: string; minor: string; system: 'indian' | 'international' }> = {
+  INR: { major: 'Rupees', minor: 'Paise', system: 'indian' },
+  USD: { major: 'Dollars', minor: 'Cents', system: 'international' },
+  CAD: { major: 'Dollars', minor: 'Cents', system: 'international' },
+  AUD: { major: 'Dollars', minor: 'Cents', system: 'international' },
+  EUR: { major: 'Euros', minor: 'Cents', system: 'international' },
+  GBP: { major: 'Pounds', minor: 'Pence', system: 'international' }
+};
+
+function belowThousand(value: number): string {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+
+  if (hundreds > 0) {
+    words.push(`${ONES[hundreds]} Hundred`);
+  }
+  if (rest > 0 && rest < 20) {
+    words.push(ONES[rest]);
+  } else if (rest >= 20) {
+    words.push(rest % 10 === 0 ? TENS[Math.floor(rest / 10)] : `${TENS[Math.floor(rest / 10)]} ${ONES[rest % 10]}`);
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Spell out a whole number in English
+ * @param value - Non-negative whole number
+ * @param system - 'indian' groups by lakh and crore, 'international' by million and billion
+ * @returns Number in words
+ */
+export function numberToWords(value: number, system: 'indian' | 'international' = 'international'): string {
+  let remaining = Math.floor(Math.abs(value));
+  if (remaining === 0) {
+    return 'Zero';
+  }
+
+  const scales = system === 'indian'
+    ? [{ size: 10000000, name: 'Crore' }, { size: 100000, name: 'Lakh' }, { size: 1000, name: 'Thousand' }]
+    : [{ size: 1000000000, name: 'Billion' }, { size: 1000000, name: 'Million' }, { size: 1000, name: 'Thousand' }];
+  const words: string[] = [];
+
+  scales.forEach(scale => {
+    const count = Math.floor(remaining / scale.size);
+    if (count > 0) {
+      // Crores can exceed 99, so spell them out recursively
+      words.push(`${count >= 1000 ? numberToWords(count, system) : belowThousand(count)} ${scale.name}`);
+      remaining = remaining % scale.size;
+    }
+  });
+
+  if (remaining > 0) {
+    words.push(belowThousand(remaining));
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Spell out a currency amount, e.g. "Rupees One Lakh Twenty Thousand and Fifty Paise Only"
+ * @param amount - Amount to spell out
+ * @param currency - Currency code
+ * @returns Amount in words
+ */
+export function amountToWords(amount: number, currency: string): string {
+  const words = CURRENCY_WORDS[currency] || { major: currency, minor: 'Cents', system: 'international' as const };
+  const totalMinor = Math.round(Math.abs(amount) * 100);
+  const major = Math.floor(totalMinor / 100);
+  const minor = totalMinor % 100;
+
+  // Indian usage puts the currency first ("Rupees Ten"), international usage last ("Ten Dollars")
+  let result = words.system === 'indian'
+    ? `${words.major} ${numberToWords(major, words.system)}`
+    : `${numberToWords(major, words.system)} ${words.major}`;
+  if (minor > 0) {
+    result += ` and ${numberToWords(minor, words.system)} ${words.minor}`;
+  }
+
+  return `${amount < 0 ? 'Minus ' : ''}${result} Only`;
+}
+
+/**
+ * Format an amount with thousands separators
+ * @param amount - Amount to format
+ * @param currency - Currency code; INR uses lakh/crore grouping
+ * @param precision - Decimal places
+ * @returns Formatted amount, e.g. "1,23,456.00" for INR
+ */
+export function formatAmount(amount: number, currency: string = 'USD', precision: number = 2): string {
+  const fixed = Math.abs(amount).toFixed(precision);
+  const [whole, fraction] = fixed.split('.');
+
+  let grouped: string;
+  if (currency === 'INR' && whole.length > 3) {
+    const head = whole.slice(0, -3).replace(/\B(?=(\d{2})+(?!\d))/g, ',');
+    grouped = `${head},${whole.slice(-3)}`;
+  } else {
+    grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+
+  return `${amount < 0 ? '-' : ''}${grouped}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Fill in the {placeholders} in a message template
+ * @param template - Template text
+ * @param values - Values by placeholder name
+ * @returns Text with known placeholders replaced; unknown ones are left as they are
+ */
+export function renderTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? String(values[name]) : placeholder
+  );
+}
@@ -0,0 +1,115 @@
+// Utility functions for Indian GST compliance
+
+/**
+ * GST state codes as used in the first two digits of a GSTIN
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory'
+};
+
+// Union territories without a legislature levy UTGST instead of SGST
+const UTGST_STATE_CODES = ['04', '26', '31', '35', '38'];
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Calculate the check character of a GSTIN
+ * @param gstin - First 14 characters of a GSTIN
+ * @returns Expected 15th character
+ */
+export function calculateGstinCheckDigit(gstin: string): string {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const value = GSTIN_CHARSET.indexOf(gstin.charAt(i));
+    const product = value * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET.charAt((36 - (sum % 36)) % 36);
+}
+
+/**
+ * Validate a GSTIN's format, state code and check digit
+ * @param gstin - GSTIN to validate
+ * @returns True if the GSTIN is well formed
+ */
+export function isValidGstin(gstin: string): boolean {
+  const value = gstin.trim().toUpperCase();
+  if (!GSTIN_PATTERN.test(value) || !GST_STATE_CODES[value.substring(0, 2)]) {
+    return false;
+  }
+  return calculateGstinCheckDigit(value) === value.charAt(14);
+}
+
+/**
+ * Get the GST state code embedded in a GSTIN
+ * @param gstin - GSTIN
+ * @returns Two-digit state code
+ */
+export function getStateCodeFromGstin(gstin: string): string {
+  return gstin.trim().substring(0, 2);
+}
+
+/**
+ * Get the state name for a GST state code
+ * @param stateCode - Two-digit state code
+ * @returns State name or undefined if the code is unknown
+ */
+export function getGstStateName(stateCode: string): string | undefined {
+  return GST_STATE_CODES[stateCode];
+}
+
+/**
+ * Check whether a state code is a union territory that levies UTGST
+ * @param stateCode - Two-digit state code
+ * @returns True if UTGST applies instead of SGST
+ */
+export function isUtgstTerritory(stateCode: string): boolean {
+  return UTGST_STATE_CODES.indexOf(stateCode) !== -1;
+}
+
+/**
+ * Check whether an invoice number meets GST rules:
+ * at most 16 characters of letters, digits, hyphens and slashes
+ * @param invoiceNumber - Invoice number
+ * @returns True if the number is acceptable
+ */
+export function isValidGstInvoiceNumber(invoiceNumber: string): boolean {
+  return /^[A-Za-z0-9\/-]{1,16}$/.test(invoiceNumber);
+}
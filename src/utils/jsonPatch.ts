@@ -0,0 +1,112 @@
+// Utility functions for describing changes to JSON values as JSON Patches (RFC 6902)
+import { JsonPatchOperation } from '../types';
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Escape a key for use in a JSON Pointer (RFC 6901)
+function escapePointer(key: string | number): string {
+  return String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function diff(from: any, to: any, path: string, patch: JsonPatchOperation[]): void {
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const shared = Math.min(from.length, to.length);
+    for (let i = 0; i < shared; i++) {
+      diff(from[i], to[i], `${path}/${i}`, patch);
+    }
+    for (let i = shared; i < to.length; i++) {
+      patch.push({ op: 'add', path: `${path}/${i}`, value: to[i] });
+    }
+    // Remove from the end so earlier indexes stay valid
+    for (let i = from.length - 1; i >= shared; i--) {
+      patch.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    return;
+  }
+
+  if (isObject(from) && isObject(to)) {
+    Object.keys(from).forEach(key => {
+      if (!(key in to)) {
+        patch.push({ op: 'remove', path: `${path}/${escapePointer(key)}` });
+      }
+    });
+    Object.keys(to).forEach(key => {
+      const keyPath = `${path}/${escapePointer(key)}`;
+      if (!(key in from)) {
+        patch.push({ op: 'add', path: keyPath, value: to[key] });
+      } else {
+        diff(from[key], to[key], keyPath, patch);
+      }
+    });
+    return;
+  }
+
+  if (from !== to) {
+    patch.push({ op: 'replace', path, value: to });
+  }
+}
+
+/**
+ * Describe the changes between two JSON values as a JSON Patch
+ * @param from - Value before the change, e.g. a record parsed from JSON
+ * @param to - Value after the change
+ * @returns Operations that turn from into to; empty when they are equal
+ */
+export function createJsonPatch(from: any, to: any): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = [];
+  diff(from, to, '', patch);
+  return patch;
+}
+
+/**
+ * Apply a JSON Patch to a JSON value
+ * @param document - Value to patch; left unchanged
+ * @param patch - Operations to apply, in order
+ * @returns Patched copy of the value
+ */
+export function applyJsonPatch<T = any>(document: T, patch: JsonPatchOperation[]): T {
+  let result: any = JSON.parse(JSON.stringify(document));
+
+  patch.forEach(operation => {
+    if (operation.path === '') {
+      result = operation.op === 'remove' ? undefined : operation.value;
+      return;
+    }
+
+    const segments = operation.path.split('/').slice(1).map(unescapePointer);
+    const last = segments.pop()!;
+    const parent = segments.reduce((target: any, segment) => {
+      if (target === null || typeof target !== 'object' || !(segment in target)) {
+        throw new Error(`Path not found: ${operation.path}`);
+      }
+      return target[segment];
+    }, result);
+
+    if (parent === null || typeof parent !== 'object') {
+      throw new Error(`Path not found: ${operation.path}`);
+    }
+
+    if (Array.isArray(parent)) {
+      const index = last === '-' ? parent.length : parseInt(last, 10);
+      if (operation.op === 'add') {
+        parent.splice(index, 0, operation.value);
+      } else if (operation.op === 'remove') {
+        parent.splice(index, 1);
+      } else {
+        parent[index] = operation.value;
+      }
+    } else if (operation.op === 'remove') {
+      delete parent[last];
+    } else {
+      parent[last] = operation.value;
+    }
+  });
+
+  return result;
+}
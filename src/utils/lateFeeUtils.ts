@@ -0,0 +1,84 @@
+// Utility functions for working out late fees under a late fee policy
+import { LateFeeCalculation, LateFeePolicy, LateFeeRule } from '../types';
+import { addDays, startOfDay } from './dateUtils';
+import { roundTo } from './mathUtils';
+
+export const LATE_FEE_RULES: Record<string, LateFeeRule> = {
+  flat: rate => rate,
+  percentage: (rate, overdueAmount) => rate * overdueAmount
+};
+
+/**
+ * Get the rate a policy charges on a day of the fee
+ * @param policy - Late fee policy
+ * @param feeDay - Day of the fee, counted from the end of the grace period (1 = first charged day)
+ * @returns Rate for the day
+ */
+export function getLateFeeRate(policy: LateFeePolicy, feeDay: number): number {
+  const tier = (policy.tiers || [])
+    .filter(t => t.afterDays < feeDay)
+    .sort((a, b) => b.afterDays - a.afterDays)[0];
+  return tier ? tier.rate : policy.rate;
+}
+
+/**
+ * Work out the late fee on something overdue since a due date.
+ * Each day after the due date with an amount overdue counts as overdue; the
+ * fee starts once the grace period has passed and is then capped.
+ * @param policy - Late fee policy
+ * @param overdueAmount - Amount overdue, or the amount overdue on each day
+ * @param dueDate - Last day before lateness starts
+ * @param through - Last day to charge for
+ * @param rule - Fee for one day; defaults to the built-in rule for the policy's method
+ * @param precision - Decimal places to round to
+ * @returns Overdue and charged days with the fee before and after caps
+ */
+export function calculateLateFee(
+  policy: LateFeePolicy,
+  overdueAmount: number | ((date: Date) => number),
+  dueDate: Date,
+  through: Date,
+  rule: LateFeeRule | undefined = LATE_FEE_RULES[policy.method],
+  precision: number = 2
+): LateFeeCalculation {
+  if (!rule) {
+    throw new Error(`Unknown late fee method: ${policy.method}`);
+  }
+
+  const amountOn = typeof overdueAmount === 'number' ? () => overdueAmount : overdueAmount;
+  const grace = policy.gracePeriodDays || 0;
+  const due = startOfDay(dueDate);
+  const end = startOfDay(through);
+
+  let overdueDays = 0;
+  let chargeableDays = 0;
+  let peakAmount = 0;
+  let fee = 0;
+  for (let day = 1, date = addDays(due, 1); date <= end; day++, date = addDays(date, 1)) {
+    const amount = amountOn(date);
+    if (amount <= 0) {
+      continue;
+    }
+    overdueDays++;
+    peakAmount = Math.max(peakAmount, amount);
+    if (day > grace) {
+      chargeableDays++;
+      fee += rule(getLateFeeRate(policy, day - grace), amount);
+    }
+  }
+
+  const caps = [
+    policy.maxAmount,
+    policy.maxPercentage !== undefined ? policy.maxPercentage * peakAmount : undefined
+  ].filter((cap): cap is number => cap !== undefined);
+  const uncappedAmount = roundTo(fee, precision);
+  const amount = roundTo(Math.min(fee, ...caps), precision);
+
+  return {
+    overdueDays,
+    chargeableDays,
+    uncappedAmount,
+    amount,
+    capped: amount < uncappedAmount
+  };
+}
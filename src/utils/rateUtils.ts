@@ -0,0 +1,86 @@
+// Utility functions for pricing rentals with daily, weekly and monthly rate slabs
+import { RateSlab, RateSlabs, RateSlabUsage } from '../types';
+
+export const SLAB_DAYS: Record<RateSlab, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30
+};
+
+/**
+ * Find the cheapest combination of rate slabs covering a rental.
+ * A slab may cover more days than remain when that is still cheaper,
+ * e.g. a weekly rate for a 6-day rental.
+ * @param days - Number of days to cover
+ * @param slabs - Daily rate and optional weekly and monthly rates
+ * @param allowed - Slabs that may be used; daily is always allowed
+ * @returns Price per unit of quantity and the slabs used
+ */
+export function calculateBestSlabPrice(
+  days: number,
+  slabs: RateSlabs,
+  allowed: RateSlab[] = ['daily', 'weekly', 'monthly']
+): { amount: number; breakdown: { slab: RateSlab; units: number; rate: number }[] } {
+  const candidates: { slab: RateSlab; rate: number }[] = [{ slab: 'daily', rate: slabs.dailyRate }];
+  if (slabs.weeklyRate !== undefined && allowed.indexOf('weekly') !== -1) {
+    candidates.push({ slab: 'weekly', rate: slabs.weeklyRate });
+  }
+  if (slabs.monthlyRate !== undefined && allowed.indexOf('monthly') !== -1) {
+    candidates.push({ slab: 'monthly', rate: slabs.monthlyRate });
+  }
+
+  // cost[n] is the cheapest price for n days; choice[n] is the slab that ends it
+  const cost: number[] = [0];
+  const choice: number[] = [-1];
+  for (let n = 1; n <= days; n++) {
+    cost[n] = Infinity;
+    candidates.forEach((candidate, index) => {
+      const price = cost[Math.max(0, n - SLAB_DAYS[candidate.slab])] + candidate.rate;
+      if (price < cost[n]) {
+        cost[n] = price;
+        choice[n] = index;
+      }
+    });
+  }
+
+  const units = candidates.map(() => 0);
+  for (let n = days; n > 0; n = Math.max(0, n - SLAB_DAYS[candidates[choice[n]].slab])) {
+    units[choice[n]]++;
+  }
+
+  return {
+    amount: cost[days],
+    breakdown: candidates
+      .map((candidate, index) => ({ slab: candidate.slab, units: units[index], rate: candidate.rate }))
+      .filter(usage => usage.units > 0)
+  };
+}
+
+/**
+ * Price a rental line with slabs and a minimum rental period
+ * @param quantity - Quantity rented
+ * @param days - Days rented
+ * @param slabs - Daily rate and optional weekly and monthly rates
+ * @param minimumDays - Minimum chargeable days
+ * @param allowed - Slabs that may be used
+ * @returns Days charged, total amount and the slab breakdown
+ */
+export function priceRentalWithSlabs(
+  quantity: number,
+  days: number,
+  slabs: RateSlabs,
+  minimumDays: number = 0,
+  allowed?: RateSlab[]
+): { chargedDays: number; amount: number; breakdown: RateSlabUsage[] } {
+  const chargedDays = Math.max(days, minimumDays);
+  const best = calculateBestSlabPrice(chargedDays, slabs, allowed);
+
+  return {
+    chargedDays,
+    amount: best.amount * quantity,
+    breakdown: best.breakdown.map(usage => ({
+      ...usage,
+      amount: usage.rate * usage.units * quantity
+    }))
+  };
+}
@@ -0,0 +1,49 @@
+// Recurring billing runs: catching up on missed periods and billing around hand invoices
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { BusinessManager, CalculationOptions } from '../src';
+import { sampleUserData } from './fixtures';
+
+const OPTIONS: CalculationOptions = {
+  method: 'daily',
+  includeTax: false,
+  includeDiscount: false,
+  roundTo: 2,
+  currency: 'INR'
+};
+
+const day = (date: string) => new Date(`${date}T00:00:00`);
+
+// Dates as YYYY-MM-DD, read in local time like the run's periods
+const ymd = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+test('a run bills every period missed since the last one', () => {
+  // Ten plates at 10 a day, out since 1 April
+  const business = new BusinessManager(sampleUserData());
+
+  const run = business.runBilling(day('2024-06-30'), OPTIONS);
+  assert.deepEqual(
+    run.invoices.map(invoice => [ymd(invoice.periodStart), ymd(invoice.periodEnd), invoice.amount]),
+    [['2024-04-01', '2024-04-30', 3000], ['2024-05-01', '2024-05-31', 3100], ['2024-06-01', '2024-06-30', 3000]]
+  );
+  assert.deepEqual(run.skipped, []);
+
+  // Running again bills nothing twice
+  const repeat = business.runBilling(day('2024-06-30'), OPTIONS);
+  assert.equal(repeat.invoices.length, 0);
+  assert.deepEqual(repeat.skipped.map(skip => skip.reason), ['already_billed']);
+});
+
+test('a run bills the days around a customer invoice raised by hand', () => {
+  const business = new BusinessManager(sampleUserData());
+  const billing = business.calculateCustomerBilling('customer_1', day('2024-04-11'), day('2024-04-20'), OPTIONS);
+  business.finalizeInvoice(billing.calculation, day('2024-04-20'));
+
+  const run = business.runBilling(day('2024-04-30'), OPTIONS);
+  assert.deepEqual(
+    run.invoices.map(invoice => [ymd(invoice.periodStart), ymd(invoice.periodEnd), invoice.amount]),
+    [['2024-04-01', '2024-04-10', 1000], ['2024-04-21', '2024-04-30', 1000]]
+  );
+  assert.ok(run.invoices.every(invoice => invoice.prorated));
+});
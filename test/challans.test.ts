@@ -0,0 +1,58 @@
+// Return challans and the edits allowed once stock has come back
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { BusinessManager } from '../src';
+import { sampleUserData } from './fixtures';
+
+const day = (date: string) => new Date(`${date}T10:00:00`);
+
+// The sample business with its one issue challan of 10 plates
+function createBusiness(): BusinessManager {
+  return new BusinessManager(sampleUserData());
+}
+
+test('a return cannot be dated before the challan it returns against', () => {
+  const business = createBusiness();
+  const issue = business.challanManagerInstance.getChallan('challan_1')!;
+
+  assert.throws(
+    () => business.createReturnChallan('customer_1', [{ sourceChallanId: issue.id, itemId: 'item_1', quantity: 1 }], '', {
+      challanDate: day('2024-03-31')
+    }),
+    /before challan CH\/24-25\/0001/
+  );
+  assert.equal(business.challanManagerInstance.getReturnChallans(issue.id).length, 0);
+
+  // The same day is fine
+  business.createReturnChallan('customer_1', [{ sourceChallanId: issue.id, itemId: 'item_1', quantity: 1 }], '', {
+    challanDate: day('2024-04-01')
+  });
+  assert.equal(business.challanManagerInstance.getReturnChallans(issue.id).length, 1);
+});
+
+test('an issue challan is only marked returned once nothing is outstanding', () => {
+  const business = createBusiness();
+  const challans = business.challanManagerInstance;
+  assert.equal(challans.updateChallanStatus('challan_1', 'returned'), false);
+  assert.equal(challans.getChallan('challan_1')!.status, 'pending');
+
+  business.createReturnChallan('customer_1', [{ sourceChallanId: 'challan_1', itemId: 'item_1', quantity: 10 }], '', {
+    challanDate: day('2024-04-10')
+  });
+  assert.equal(challans.getChallan('challan_1')!.status, 'returned');
+  assert.equal(challans.updateChallanStatus('challan_1', 'returned'), true);
+});
+
+test('the items of a challan with returns against it cannot be rewritten', () => {
+  const business = createBusiness();
+  const challans = business.challanManagerInstance;
+  const items = challans.getChallan('challan_1')!.items;
+  assert.equal(challans.updateChallanItems('challan_1', [{ ...items[0], quantity: 12 }]), true);
+
+  business.createReturnChallan('customer_1', [{ sourceChallanId: 'challan_1', itemId: 'item_1', quantity: 4 }], '', {
+    challanDate: day('2024-04-10')
+  });
+  assert.equal(challans.updateChallanItems('challan_1', [{ ...items[0], quantity: 2 }]), false);
+  assert.equal(challans.getChallan('challan_1')!.items[0].quantity, 12);
+  assert.equal(challans.getOutstandingQuantities('challan_1')[0].outstandingQuantity, 8);
+});
@@ -0,0 +1,70 @@
+// Syncing a cloud business system: full upload first, only the changes after that
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { CalculationOptions, UserDataChanges, createCloudBusinessSystem } from '../src';
+import { USER_ID, sampleUserData, withStorage } from './fixtures';
+
+const OPTIONS: CalculationOptions = {
+  method: 'daily',
+  includeTax: false,
+  includeDiscount: false,
+  roundTo: 2,
+  currency: 'INR'
+};
+
+test('a second sync uploads only the changes, billing calculations included', () => withStorage(async storage => {
+  const system = createCloudBusinessSystem(sampleUserData(), storage);
+  const { businessManager } = system;
+  await system.syncToCloud(USER_ID);
+
+  const pushed: UserDataChanges[] = [];
+  const updateUserData = storage.updateUserData.bind(storage);
+  storage.updateUserData = (userId, updates, changes) => {
+    pushed.push(changes || {});
+    return updateUserData(userId, updates, changes);
+  };
+  storage.saveUserData = () => Promise.reject(new Error('Only the changes should be uploaded'));
+
+  const billing = businessManager.calculateChallanBilling('challan_1', OPTIONS, new Date('2024-04-10T09:30:00.000Z'))!;
+  businessManager.finalizeInvoice(billing, new Date('2024-04-10T09:30:00.000Z'));
+  const result = await system.syncToCloud(USER_ID);
+
+  assert.equal(pushed.length, 1);
+  assert.deepEqual(Object.keys(pushed[0]).sort(), ['accountEntries', 'billingCalculations', 'documentCounters', 'invoices']);
+  assert.equal(pushed[0].billingCalculations!.created.length, 1);
+  assert.ok(result.recordsUpdated > 0);
+
+  const stored = (await storage.loadUserData(USER_ID))!;
+  assert.equal(stored.billingCalculations.length, 1);
+  assert.equal(stored.billingCalculations[0].orderId, 'challan_1');
+  assert.equal(stored.invoices!.length, 1);
+
+  // Nothing changed since, so nothing is sent
+  await system.syncToCloud(USER_ID);
+  assert.deepEqual(pushed[1], {});
+}));
+
+test('changes refused as conflicts are not forced over the stored data', () => withStorage(async storage => {
+  const system = createCloudBusinessSystem(sampleUserData(), storage);
+  const { businessManager } = system;
+  await system.loadFromCloud(USER_ID);
+
+  // Someone else changes the challan first
+  const other = (await storage.loadUserData(USER_ID))!;
+  await storage.updateUserData(USER_ID, {}, {
+    challans: {
+      created: [],
+      updated: [{ ...other.challans[0], notes: 'Gate 2' }],
+      deleted: [],
+      baseVersions: { challan_1: other.recordVersions!.challans!.challan_1.version }
+    }
+  });
+
+  businessManager.challanManagerInstance.addChallanNotes('challan_1', 'Gate 5');
+  const result = await system.syncToCloud(USER_ID);
+  assert.equal(result.conflicts!.length, 1);
+  assert.equal((await storage.loadUserData(USER_ID))!.challans[0].notes, 'Gate 2');
+
+  // The refused change is still pending
+  assert.deepEqual(businessManager.getChanges().entities.challans!.updated.map(challan => challan.id), ['challan_1']);
+}));
@@ -0,0 +1,92 @@
+// Shared setup for the tests: sample business data and throwaway storage
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BusinessManager, JsonFileStorageManager, OfflineSyncManager, UserDataStore } from '../src';
+
+export const USER_ID = 'user_1';
+
+export function sampleUserData(): UserDataStore {
+  const created = new Date('2024-04-01T09:30:00.000Z');
+  return {
+    user: {
+      id: USER_ID,
+      email: 'owner@example.com',
+      businessName: 'Test Rentals',
+      createdAt: created,
+      updatedAt: created,
+      billingConfig: {
+        currency: 'INR',
+        defaultTaxRate: 0,
+        defaultDiscountRate: 0,
+        roundingPrecision: 2
+      }
+    },
+    inventory: [{
+      id: 'item_1',
+      name: 'Steel plate',
+      dailyRate: 10,
+      unit: 'piece',
+      stock: { owned: 100, onRent: 10, inRepair: 0, lost: 0 },
+      isActive: true
+    }],
+    customers: [{ id: 'customer_1', name: 'Acme Builders', taxExempt: true, isActive: true }],
+    challans: [{
+      id: 'challan_1',
+      challanNumber: 'CH/24-25/0001',
+      challanType: 'issue',
+      customerId: 'customer_1',
+      customerName: 'Acme Builders',
+      challanDate: created,
+      items: [{ itemId: 'item_1', itemName: 'Steel plate', quantity: 10, dailyRate: 10 }],
+      totalAmount: 100,
+      status: 'pending',
+      createdAt: created,
+      updatedAt: created
+    }],
+    deliveries: [],
+    payments: [],
+    billingCalculations: [],
+    lastSync: created
+  };
+}
+
+/**
+ * Run a test with a directory that is removed afterwards
+ * @param run - Test to run in the directory
+ */
+export async function withTempDirectory<T>(run: (directory: string) => Promise<T>): Promise<T> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bill-pro-max-test-'));
+  try {
+    return await run(directory);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Run a test against JSON file storage holding the sample data
+ * @param run - Test to run with the connected storage
+ */
+export function withStorage<T>(run: (storage: JsonFileStorageManager) => Promise<T>): Promise<T> {
+  return withTempDirectory(async directory => {
+    const storage = new JsonFileStorageManager({ directory });
+    await storage.connect();
+    try {
+      await storage.saveUserData(USER_ID, sampleUserData());
+      return await run(storage);
+    } finally {
+      await storage.disconnect();
+    }
+  });
+}
+
+/**
+ * Load the stored data into a new device, as an app does when it starts
+ * @param storage - Storage shared by the devices
+ * @returns The device's business data and its offline sync
+ */
+export async function openDevice(storage: JsonFileStorageManager): Promise<{ business: BusinessManager; sync: OfflineSyncManager }> {
+  const business = new BusinessManager((await storage.loadUserData(USER_ID))!);
+  return { business, sync: new OfflineSyncManager(business, storage, USER_ID) };
+}
@@ -0,0 +1,124 @@
+// Two devices editing the same records offline and syncing through one storage
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { USER_ID, openDevice, withStorage } from './fixtures';
+
+// Let the clock move on, so the two devices stamp different update times
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+test('edits to different fields of a record are merged', () => withStorage(async storage => {
+  const a = await openDevice(storage);
+  const b = await openDevice(storage);
+
+  a.business.challanManagerInstance.addChallanNotes('challan_1', 'Gate 2');
+  await tick();
+  b.business.challanManagerInstance.updateChallanStatus('challan_1', 'delivered');
+
+  assert.equal((await a.sync.sync()).status, 'synced');
+  const result = await b.sync.sync();
+  assert.equal(result.status, 'synced');
+  assert.equal(result.merged, 1);
+
+  const challan = (await storage.loadUserData(USER_ID))!.challans[0];
+  assert.equal(challan.notes, 'Gate 2');
+  assert.equal(challan.status, 'delivered');
+  // The later update time is kept
+  assert.equal(challan.updatedAt.getTime(), b.business.challanManagerInstance.getChallan('challan_1')!.updatedAt.getTime());
+}));
+
+test('edits to the same field become a conflict', () => withStorage(async storage => {
+  const a = await openDevice(storage);
+  const b = await openDevice(storage);
+
+  a.business.challanManagerInstance.addChallanNotes('challan_1', 'Gate 2');
+  b.business.challanManagerInstance.addChallanNotes('challan_1', 'Gate 5');
+
+  await a.sync.sync();
+  const result = await b.sync.sync();
+  assert.equal(result.status, 'conflicts');
+  assert.equal(result.conflicts.length, 1);
+  assert.equal(result.conflicts[0].key, 'challan_1');
+  assert.deepEqual(result.conflicts[0].fields, ['notes']);
+
+  // Nothing is overwritten while the conflict waits
+  assert.equal((await storage.loadUserData(USER_ID))!.challans[0].notes, 'Gate 2');
+}));
+
+test('stock moved on two devices keeps both movements', () => withStorage(async storage => {
+  const a = await openDevice(storage);
+  const b = await openDevice(storage);
+
+  a.business.itemManagerInstance.issueStock('item_1', 1);
+  b.business.itemManagerInstance.issueStock('item_1', 1);
+  b.business.itemManagerInstance.setOwnedQuantity('item_1', 120);
+
+  await a.sync.sync();
+  const result = await b.sync.sync();
+  assert.equal(result.status, 'synced');
+
+  const stock = (await storage.loadUserData(USER_ID))!.inventory[0].stock!;
+  assert.equal(stock.onRent, 12);
+  assert.equal(stock.owned, 120);
+  assert.equal(b.business.itemManagerInstance.getItem('item_1')!.stock!.onRent, 12);
+}));
+
+test('resolving a conflict writes the chosen record', () => withStorage(async storage => {
+  const a = await openDevice(storage);
+  const b = await openDevice(storage);
+
+  a.business.challanManagerInstance.addChallanNotes('challan_1', 'Gate 2');
+  b.business.challanManagerInstance.addChallanNotes('challan_1', 'Gate 5');
+  await a.sync.sync();
+  const [conflict] = (await b.sync.sync()).conflicts;
+
+  await b.sync.resolveConflict(conflict.id, 'local');
+  const result = await b.sync.sync();
+  assert.equal(result.status, 'synced');
+  assert.equal(result.pushed, 1);
+  assert.equal((await storage.loadUserData(USER_ID))!.challans[0].notes, 'Gate 5');
+
+  // The other device takes the stored record on its next sync
+  await a.sync.sync();
+  assert.equal(a.business.challanManagerInstance.getChallan('challan_1')!.notes, 'Gate 5');
+}));
+
+test('taking the stored record drops the local change', () => withStorage(async storage => {
+  const a = await openDevice(storage);
+  const b = await openDevice(storage);
+
+  a.business.challanManagerInstance.addChallanNotes('challan_1', 'Gate 2');
+  b.business.challanManagerInstance.addChallanNotes('challan_1', 'Gate 5');
+  await a.sync.sync();
+  const [conflict] = (await b.sync.sync()).conflicts;
+
+  await b.sync.resolveConflict(conflict.id, 'remote');
+  const result = await b.sync.sync();
+  assert.equal(result.status, 'synced');
+  assert.equal(result.pending, 0);
+  assert.equal(b.business.challanManagerInstance.getChallan('challan_1')!.notes, 'Gate 2');
+}));
+
+test('documents numbered offline on two devices keep distinct numbers', () => withStorage(async storage => {
+  const a = await openDevice(storage);
+  const b = await openDevice(storage);
+
+  const challanDate = new Date('2024-04-05T10:00:00');
+  const first = a.business.createChallan('customer_1', [{ itemId: 'item_1', quantity: 1 }], '', { challanDate });
+  const second = b.business.createChallan('customer_1', [{ itemId: 'item_1', quantity: 2 }], '', { challanDate });
+  assert.equal(first.challanNumber, 'CH/24-25/0002');
+  assert.equal(second.challanNumber, 'CH/24-25/0002');
+
+  assert.equal((await a.sync.sync()).status, 'synced');
+  assert.equal((await b.sync.sync()).status, 'synced');
+
+  const stored = (await storage.loadUserData(USER_ID))!;
+  const numbers = stored.challans.map(challan => challan.challanNumber).sort();
+  assert.deepEqual(numbers, ['CH/24-25/0001', 'CH/24-25/0002', 'CH/24-25/0003']);
+  assert.equal(stored.documentCounters!.find(counter => counter.series === 'challan')!.lastNumber, 3);
+  assert.equal(b.business.challanManagerInstance.getChallan(second.id)!.challanNumber, 'CH/24-25/0003');
+
+  // The next number on either device follows both
+  await a.sync.sync();
+  const next = a.business.createChallan('customer_1', [{ itemId: 'item_1', quantity: 1 }], '', { challanDate });
+  assert.equal(next.challanNumber, 'CH/24-25/0004');
+}));
@@ -0,0 +1,103 @@
+// Rate slabs and minimum rental periods, for rental orders and challan billing
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { BusinessManager, CalculationOptions, RentalItem, calculateBestSlabPrice, createBillingSystem } from '../src';
+import { sampleUserData } from './fixtures';
+
+const day = (date: string) => new Date(`${date}T10:00:00`);
+
+function options(method: CalculationOptions['method']): CalculationOptions {
+  return { method, includeTax: false, includeDiscount: false, roundTo: 2, currency: 'INR' };
+}
+
+// A business renting out one item, with no challans yet
+function createBusiness(item: Partial<RentalItem>): BusinessManager {
+  return new BusinessManager({
+    ...sampleUserData(),
+    inventory: [{ id: 'item_1', name: 'Steel plate', dailyRate: 10, unit: 'piece', isActive: true, ...item }],
+    challans: []
+  });
+}
+
+test('calculateBestSlabPrice picks the cheapest mix of slabs', () => {
+  const slabs = { dailyRate: 10, weeklyRate: 50, monthlyRate: 150 };
+
+  assert.deepEqual(calculateBestSlabPrice(3, slabs), {
+    amount: 30,
+    breakdown: [{ slab: 'daily', units: 3, rate: 10 }]
+  });
+  // A week costs less than six days
+  assert.equal(calculateBestSlabPrice(6, slabs).amount, 50);
+  assert.deepEqual(calculateBestSlabPrice(40, slabs).breakdown, [
+    { slab: 'daily', units: 3, rate: 10 },
+    { slab: 'weekly', units: 1, rate: 50 },
+    { slab: 'monthly', units: 1, rate: 150 }
+  ]);
+  // Slabs that are not allowed are left out
+  assert.equal(calculateBestSlabPrice(40, slabs, ['daily', 'weekly']).amount, 300);
+});
+
+test('a partial return leaves the monthly slab on the stock still out', () => {
+  const business = createBusiness({ monthlyRate: 150 });
+  const issue = business.createChallan('customer_1', [{ itemId: 'item_1', quantity: 100 }], '', { challanDate: day('2024-04-01') });
+  business.createReturnChallan('customer_1', [{ sourceChallanId: issue.id, itemId: 'item_1', quantity: 1 }], '', {
+    challanDate: day('2024-04-11')
+  });
+
+  const billing = business.calculateCustomerBilling('customer_1', day('2024-04-01'), day('2024-04-30'), options('monthly'));
+  const lines = billing.calculation.items.map(item => [item.quantity, item.totalDays, item.subtotal]);
+  assert.deepEqual(lines, [[1, 10, 100], [99, 30, 14850]]);
+  assert.equal(billing.calculation.subtotal, 14950);
+});
+
+test('a rental shorter than the minimum period is charged the minimum', () => {
+  const business = createBusiness({ minimumRentalDays: 7 });
+  const issue = business.createChallan('customer_1', [{ itemId: 'item_1', quantity: 1 }], '', { challanDate: day('2024-04-01') });
+  business.createReturnChallan('customer_1', [{ sourceChallanId: issue.id, itemId: 'item_1', quantity: 1 }], '', {
+    challanDate: day('2024-04-03')
+  });
+
+  const item = business.calculateChallanBilling(issue.id, options('daily'), day('2024-04-30'))!.items[0];
+  assert.equal(item.totalDays, 2);
+  assert.equal(item.chargedDays, 7);
+  assert.equal(item.subtotal, 70);
+});
+
+test('the minimum period is charged when the stock comes back, less the days billed before', () => {
+  const business = createBusiness({ minimumRentalDays: 7 });
+  const issue = business.createChallan('customer_1', [{ itemId: 'item_1', quantity: 1 }], '', { challanDate: day('2024-03-29') });
+  business.createReturnChallan('customer_1', [{ sourceChallanId: issue.id, itemId: 'item_1', quantity: 1 }], '', {
+    challanDate: day('2024-04-02')
+  });
+
+  // Still out at the end of March: only the days held are charged
+  const march = business.calculateCustomerBilling('customer_1', day('2024-03-01'), day('2024-03-31'), options('daily'));
+  assert.equal(march.calculation.subtotal, 30);
+  // Back in April after four days: the rest of the week is charged then
+  const april = business.calculateCustomerBilling('customer_1', day('2024-04-01'), day('2024-04-30'), options('daily'));
+  assert.equal(april.calculation.items[0].chargedDays, 4);
+  assert.equal(april.calculation.subtotal, 40);
+});
+
+test('rental orders are charged the minimum period of their items', () => {
+  const system = createBillingSystem({ currency: 'INR', defaultTaxRate: 0, defaultDiscountRate: 0 });
+  system.itemManager.addItem({ id: 'item_1', name: 'Steel plate', dailyRate: 10, weeklyRate: 50, minimumRentalDays: 7, unit: 'piece', isActive: true });
+
+  const billing = system.billingCalculator.calculateRentalBilling(
+    {
+      id: 'order_1',
+      customerId: 'customer_1',
+      customerName: 'Acme Builders',
+      orderDate: day('2024-04-01'),
+      deliveryDate: day('2024-04-01'),
+      returnDate: day('2024-04-03'),
+      status: 'returned',
+      items: [{ itemId: 'item_1', quantity: 2, dailyRate: 10, totalDays: 2, subtotal: 0 }]
+    },
+    { id: 'customer_1', name: 'Acme Builders', taxExempt: true, isActive: true },
+    options('weekly')
+  );
+  assert.equal(billing.items[0].chargedDays, 7);
+  // A week at the weekly rate for each of the two plates
+  assert.equal(billing.subtotal, 100);
+});
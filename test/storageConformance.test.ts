@@ -0,0 +1,60 @@
+// Runs the storage conformance suite against every adapter that can run here:
+// JSON files always, SQLite when better-sqlite3 is installed and MongoDB when
+// MONGODB_URI is set.
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import * as path from 'path';
+import {
+  CloudStorageManager,
+  JsonFileStorageManager,
+  MongoDBManager,
+  SqliteStorageManager,
+  StorageConformanceOptions,
+  runStorageConformanceSuite
+} from '../src';
+import { withTempDirectory } from './fixtures';
+
+function isInstalled(moduleName: string): boolean {
+  try {
+    require.resolve(moduleName);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+async function checkAdapter(storage: CloudStorageManager, options?: StorageConformanceOptions): Promise<void> {
+  const report = await runStorageConformanceSuite(storage, options);
+  const failed = report.checks.filter(check => !check.passed).map(check => `${check.name}: ${check.error}`);
+  assert.deepEqual(failed, []);
+  assert.ok(report.passed);
+}
+
+test('JsonFileStorageManager passes the storage conformance suite', () =>
+  withTempDirectory(directory => checkAdapter(new JsonFileStorageManager({ directory, pollIntervalMs: 100 })))
+);
+
+test(
+  'SqliteStorageManager passes the storage conformance suite',
+  { skip: isInstalled('better-sqlite3') ? false : 'better-sqlite3 is not installed' },
+  () => withTempDirectory(directory =>
+    checkAdapter(new SqliteStorageManager({ filePath: path.join(directory, 'data.sqlite'), pollIntervalMs: 100 }))
+  )
+);
+
+// Change streams need a replica set, so only watch when told they are available
+const changeStreams = process.env.MONGODB_CHANGE_STREAMS === 'true';
+
+test(
+  'MongoDBManager passes the storage conformance suite',
+  { skip: process.env.MONGODB_URI ? false : 'MONGODB_URI is not set' },
+  () => checkAdapter(
+    new MongoDBManager({
+      connectionString: process.env.MONGODB_URI!,
+      databaseName: process.env.MONGODB_DATABASE || 'bill_pro_max_test',
+      collectionName: 'conformance',
+      enableChangeStreams: changeStreams
+    }),
+    { watch: changeStreams }
+  )
+);